@@ -6,12 +6,24 @@ const prisma = new PrismaClient();
 async function main() {
   console.log('🌱 Iniciando seed do banco de dados...');
 
+  const organization = await prisma.organization.upsert({
+    where: { slug: 'wealth-planner' },
+    update: {},
+    create: {
+      name: 'Wealth Planner Family Office',
+      slug: 'wealth-planner'
+    }
+  });
+
+  console.log('✅ Organização criada:', organization.slug);
+
   const hashedPassword = await bcrypt.hash('123456', 10);
 
   const advisor = await prisma.user.upsert({
-    where: { email: 'advisor@wealthplanner.com' },
+    where: { organizationId_email: { organizationId: organization.id, email: 'advisor@wealthplanner.com' } },
     update: {},
     create: {
+      organizationId: organization.id,
       email: 'advisor@wealthplanner.com',
       password: hashedPassword,
       role: 'ADVISOR',
@@ -20,9 +32,10 @@ async function main() {
   });
 
   const viewer = await prisma.user.upsert({
-    where: { email: 'viewer@wealthplanner.com' },
+    where: { organizationId_email: { organizationId: organization.id, email: 'viewer@wealthplanner.com' } },
     update: {},
     create: {
+      organizationId: organization.id,
       email: 'viewer@wealthplanner.com',
       password: hashedPassword,
       role: 'VIEWER',
@@ -30,12 +43,25 @@ async function main() {
     }
   });
 
-  console.log('✅ Usuários criados:', { advisor: advisor.email, viewer: viewer.email });
+  const admin = await prisma.user.upsert({
+    where: { organizationId_email: { organizationId: organization.id, email: 'admin@wealthplanner.com' } },
+    update: {},
+    create: {
+      organizationId: organization.id,
+      email: 'admin@wealthplanner.com',
+      password: hashedPassword,
+      role: 'ADMIN',
+      name: 'Ana Admin'
+    }
+  });
+
+  console.log('✅ Usuários criados:', { advisor: advisor.email, viewer: viewer.email, admin: admin.email });
 
   const client1 = await prisma.client.upsert({
-    where: { email: 'joao.silva@email.com' },
+    where: { organizationId_email: { organizationId: organization.id, email: 'joao.silva@email.com' } },
     update: {},
     create: {
+      organizationId: organization.id,
       name: 'João Silva',
       email: 'joao.silva@email.com',
       age: 45,
@@ -45,9 +71,10 @@ async function main() {
   });
 
   const client2 = await prisma.client.upsert({
-    where: { email: 'maria.santos@email.com' },
+    where: { organizationId_email: { organizationId: organization.id, email: 'maria.santos@email.com' } },
     update: {},
     create: {
+      organizationId: organization.id,
       name: 'Maria Santos',
       email: 'maria.santos@email.com',
       age: 38,
@@ -57,9 +84,10 @@ async function main() {
   });
 
   const client3 = await prisma.client.upsert({
-    where: { email: 'carlos.oliveira@email.com' },
+    where: { organizationId_email: { organizationId: organization.id, email: 'carlos.oliveira@email.com' } },
     update: {},
     create: {
+      organizationId: organization.id,
       name: 'Carlos Oliveira',
       email: 'carlos.oliveira@email.com',
       age: 52,
@@ -74,6 +102,16 @@ async function main() {
     client3: client3.name 
   });
 
+  await prisma.clientAdvisor.createMany({
+    data: [client1, client2, client3].flatMap(client => [
+      { clientId: client.id, userId: advisor.id },
+      { clientId: client.id, userId: viewer.id }
+    ]),
+    skipDuplicates: true
+  });
+
+  console.log('✅ Clientes atribuídos aos usuários');
+
   await prisma.goal.createMany({
     data: [
       {
@@ -2,51 +2,142 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import bcrypt from 'bcryptjs';
 import { prisma } from '../models';
-import { ApiResponse } from '../types';
+import { ApiResponse, AuthPayload } from '../types';
+import { SessionService } from '../services/SessionService';
+import { PasswordResetService } from '../services/PasswordResetService';
+import { MfaService } from '../services/MfaService';
+import { LoginThrottleService, ThrottledUser } from '../services/LoginThrottleService';
 
-const registerSchema = z.object({
-    email: z.string().email('Email inválido'),
-    password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres'),
-    name: z.string().min(1, 'Nome é obrigatório'),
-    role: z.enum(['ADVISOR', 'VIEWER']).optional().default('VIEWER')
-});
+const organizationSlugSchema = z.string().min(1, 'Organização é obrigatória');
 
 const loginSchema = z.object({
+    organizationSlug: organizationSlugSchema,
     email: z.string().email('Email inválido'),
     password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres')
 });
 
+const passwordSchema = z.string().min(6, 'Senha deve ter pelo menos 6 caracteres');
+
+const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1, 'Senha atual é obrigatória'),
+    newPassword: passwordSchema
+});
+
+const forgotPasswordSchema = z.object({
+    organizationSlug: organizationSlugSchema,
+    email: z.string().email('Email inválido')
+});
+
+const resetPasswordSchema = z.object({
+    token: z.string().min(1, 'Token é obrigatório'),
+    newPassword: passwordSchema
+});
+
+const refreshSchema = z.object({
+    refreshToken: z.string().min(1, 'Refresh token é obrigatório')
+});
+
+const loginMfaSchema = z.object({
+    mfaToken: z.string().min(1, 'Token de MFA é obrigatório'),
+    code: z.string().min(1, 'Código é obrigatório')
+});
+
+const MFA_TOKEN_PURPOSE = 'mfa';
+const MFA_TOKEN_EXPIRES_IN = '5m';
+
+function sendThrottled(reply: FastifyReply, status: 423 | 429, retryAfterMs: number, error: string) {
+    return reply
+        .status(status)
+        .header('Retry-After', Math.ceil(retryAfterMs / 1000))
+        .send({
+            success: false,
+            error
+        } as ApiResponse);
+}
+
+/**
+ * Recusa a tentativa se a conta estiver bloqueada ou dentro do atraso progressivo
+ */
+function checkAccountThrottle(reply: FastifyReply, user: ThrottledUser) {
+    if (LoginThrottleService.isLocked(user)) {
+        return sendThrottled(reply, 423, user.lockedUntil!.getTime() - Date.now(), 'Conta temporariamente bloqueada por excesso de tentativas');
+    }
+
+    const retryAfterMs = LoginThrottleService.accountRetryAfterMs(user);
+    if (retryAfterMs > 0) {
+        return sendThrottled(reply, 429, retryAfterMs, 'Aguarde antes de tentar novamente');
+    }
+
+    return null;
+}
+
 export class AuthController {
-    static async register(request: FastifyRequest, reply: FastifyReply) {
+    static async login(request: FastifyRequest, reply: FastifyReply) {
         try {
-            const data = registerSchema.parse(request.body);
+            const data = loginSchema.parse(request.body);
+
+            const ipRetryAfterMs = LoginThrottleService.ipRetryAfterMs(request.ip);
+            if (ipRetryAfterMs > 0) {
+                return sendThrottled(reply, 429, ipRetryAfterMs, 'Muitas tentativas de login. Tente novamente mais tarde');
+            }
 
-            const existingUser = await prisma.user.findUnique({
-                where: { email: data.email }
+            // A tentativa conta para o IP antes da consulta e do bcrypt; é devolvida se a senha conferir
+            LoginThrottleService.registerIpAttempt(request.ip);
+
+            const user = await prisma.user.findFirst({
+                where: {
+                    email: data.email,
+                    organization: { slug: data.organizationSlug }
+                },
+                include: { organization: true }
             });
 
-            if (existingUser) {
-                return reply.status(409).send({
+            if (user) {
+                const throttled = checkAccountThrottle(reply, user);
+                if (throttled) {
+                    return throttled;
+                }
+            }
+
+            const isPasswordValid = user ? await bcrypt.compare(data.password, user.password) : false;
+
+            if (!user || !isPasswordValid) {
+                if (user) {
+                    await LoginThrottleService.registerAccountFailure(user);
+                }
+
+                return reply.status(401).send({
                     success: false,
-                    error: 'Email já registrado'
+                    error: 'Credenciais inválidas'
                 } as ApiResponse);
             }
 
-            const hashedPassword = await bcrypt.hash(data.password, 10);
-            const user = await prisma.user.create({
-                data: {
-                    email: data.email,
-                    password: hashedPassword,
-                    name: data.name,
-                    role: data.role
-                },
-                select: { id: true, email: true, role: true, name: true }
-            });
+            // Só a tentativa atual é devolvida ao IP: as falhas anteriores expiram pela janela de bloqueio,
+            // para que um login válido em conta própria não libere novas tentativas contra outras contas
+            LoginThrottleService.releaseIpAttempt(request.ip);
+            await LoginThrottleService.clearAccount(user);
+
+            // Com 2FA ativo, a senha só libera um token temporário para a segunda etapa (POST /auth/login/mfa)
+            if (user.mfaEnabled) {
+                const mfaToken = request.server.jwt.sign(
+                    { userId: user.id, organizationId: user.organizationId, purpose: MFA_TOKEN_PURPOSE },
+                    { expiresIn: MFA_TOKEN_EXPIRES_IN }
+                );
+
+                return reply.send({
+                    success: true,
+                    data: { mfaRequired: true, mfaToken },
+                    message: 'Informe o código de autenticação em dois fatores'
+                } as ApiResponse);
+            }
 
-            return reply.status(201).send({
+            const { session, refreshToken } = await SessionService.create(user.id);
+            const token = SessionService.signAccessToken(request, user, session);
+
+            return reply.send({
                 success: true,
-                data: user,
-                message: 'Usuário registrado com sucesso'
+                data: { mfaRequired: false, token, refreshToken, user: { id: user.id, organizationId: user.organizationId, email: user.email, role: user.role } },
+                message: 'Login realizado com sucesso'
             } as ApiResponse);
 
         } catch (error) {
@@ -57,7 +148,7 @@ export class AuthController {
                     data: error.message
                 } as ApiResponse);
             }
-            console.error('Erro ao registrar usuário:', error);
+            console.error('Erro ao fazer login:', error);
             return reply.status(500).send({
                 success: false,
                 error: 'Erro interno do servidor'
@@ -65,43 +156,236 @@ export class AuthController {
         }
     }
 
-    static async login(request: FastifyRequest, reply: FastifyReply) {
+    static async loginMfa(request: FastifyRequest, reply: FastifyReply) {
         try {
-            const data = loginSchema.parse(request.body);
+            const data = loginMfaSchema.parse(request.body);
+
+            let challenge: { userId: string; purpose: string };
+            try {
+                challenge = request.server.jwt.verify(data.mfaToken);
+            } catch {
+                return reply.status(401).send({
+                    success: false,
+                    error: 'Token de MFA inválido ou expirado'
+                } as ApiResponse);
+            }
+
+            const user = challenge.purpose === MFA_TOKEN_PURPOSE
+                ? await prisma.user.findUnique({
+                    where: { id: challenge.userId },
+                    include: { organization: true }
+                })
+                : null;
+
+            if (!user || !user.mfaEnabled) {
+                return reply.status(401).send({
+                    success: false,
+                    error: 'Token de MFA inválido ou expirado'
+                } as ApiResponse);
+            }
+
+            const throttled = checkAccountThrottle(reply, user);
+            if (throttled) {
+                return throttled;
+            }
+
+            if (!(await MfaService.verify(user, data.code))) {
+                await LoginThrottleService.registerAccountFailure(user);
+
+                return reply.status(401).send({
+                    success: false,
+                    error: 'Código de autenticação inválido'
+                } as ApiResponse);
+            }
+
+            await LoginThrottleService.clearAccount(user);
+
+            const { session, refreshToken } = await SessionService.create(user.id, true);
+            const token = SessionService.signAccessToken(request, user, session);
+
+            return reply.send({
+                success: true,
+                data: { mfaRequired: false, token, refreshToken, user: { id: user.id, organizationId: user.organizationId, email: user.email, role: user.role } },
+                message: 'Login realizado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+            console.error('Erro ao validar segundo fator:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async refresh(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = refreshSchema.parse(request.body);
+
+            const rotated = await SessionService.rotate(data.refreshToken);
+
+            if (!rotated) {
+                return reply.status(401).send({
+                    success: false,
+                    error: 'Refresh token inválido ou expirado'
+                } as ApiResponse);
+            }
+
+            const token = SessionService.signAccessToken(request, rotated.session.user, rotated.session);
+
+            return reply.send({
+                success: true,
+                data: { token, refreshToken: rotated.refreshToken },
+                message: 'Token renovado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+            console.error('Erro ao renovar token:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async logout(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const user = request.user as AuthPayload;
+
+            await SessionService.revoke(user.sessionId);
+
+            return reply.send({
+                success: true,
+                message: 'Logout realizado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao fazer logout:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async changePassword(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = changePasswordSchema.parse(request.body);
+            const authUser = request.user as AuthPayload;
 
             const user = await prisma.user.findUnique({
-                where: { email: data.email }
+                where: { id: authUser.userId }
             });
 
-            if (!user) {
+            if (!user || !(await bcrypt.compare(data.currentPassword, user.password))) {
                 return reply.status(401).send({
                     success: false,
-                    error: 'Credenciais inválidas'
+                    error: 'Senha atual incorreta'
                 } as ApiResponse);
             }
 
-            const isPasswordValid = await bcrypt.compare(data.password, user.password);
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { password: await bcrypt.hash(data.newPassword, 10) }
+            });
 
-            if (!isPasswordValid) {
-                return reply.status(401).send({
+            await SessionService.revokeAllForUser(user.id, authUser.sessionId);
+
+            return reply.send({
+                success: true,
+                message: 'Senha alterada com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
                     success: false,
-                    error: 'Credenciais inválidas'
+                    error: 'Dados inválidos',
+                    data: error.message
                 } as ApiResponse);
             }
+            console.error('Erro ao alterar senha:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async forgotPassword(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = forgotPasswordSchema.parse(request.body);
 
-            const token = (request.server as any).jwt.sign(
-                {
-                    userId: user.id,
-                    email: user.email,
-                    role: user.role,
-                    name: user.name
+            const user = await prisma.user.findFirst({
+                where: {
+                    email: data.email,
+                    organization: { slug: data.organizationSlug }
                 }
-            );
+            });
+
+            if (user) {
+                await PasswordResetService.request(user);
+            }
+
+            // Mesma resposta para emails existentes ou não, para não revelar contas cadastradas
+            return reply.status(202).send({
+                success: true,
+                message: 'Se o email estiver cadastrado, enviaremos as instruções de redefinição'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+            console.error('Erro ao solicitar redefinição de senha:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async resetPassword(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = resetPasswordSchema.parse(request.body);
+
+            const userId = await PasswordResetService.consume(data.token);
+
+            if (!userId) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Token de redefinição inválido ou expirado'
+                } as ApiResponse);
+            }
+
+            await prisma.user.update({
+                where: { id: userId },
+                data: { password: await bcrypt.hash(data.newPassword, 10) }
+            });
+
+            await SessionService.revokeAllForUser(userId);
 
             return reply.send({
                 success: true,
-                data: { token, user: { id: user.id, email: user.email, role: user.role } },
-                message: 'Login realizado com sucesso'
+                message: 'Senha redefinida com sucesso'
             } as ApiResponse);
 
         } catch (error) {
@@ -112,7 +396,7 @@ export class AuthController {
                     data: error.message
                 } as ApiResponse);
             }
-            console.error('Erro ao fazer login:', error);
+            console.error('Erro ao redefinir senha:', error);
             return reply.status(500).send({
                 success: false,
                 error: 'Erro interno do servidor'
@@ -0,0 +1,320 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { CapitalMarketAssumptionSet } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../models';
+import { CapitalMarketService } from '../services/CapitalMarketService';
+import { ApiResponse, AuthPayload } from '../types';
+
+const assetClassAssumptionSchema = z.object({
+    assetClass: z.string().trim().min(1, 'Classe de ativo é obrigatória'),
+    expectedReturn: z.number().min(-0.5).max(1, 'Retorno esperado deve estar entre -0.5 e 1'),
+    volatility: z.number().min(0).max(2, 'Volatilidade deve estar entre 0 e 2')
+});
+
+const correlationSchema = z.object({
+    assetClasses: z.tuple([z.string().trim().min(1), z.string().trim().min(1)]),
+    correlation: z.number().min(-1).max(1, 'Correlação deve estar entre -1 e 1')
+});
+
+const createAssumptionsSchema = z.object({
+    description: z.string().optional(),
+    defaultReturn: z.number().min(0).max(1, 'Retorno padrão deve estar entre 0 e 1'),
+    inflationRate: z.number().min(-0.5).max(1, 'Inflação deve estar entre -0.5 e 1'),
+    assetClasses: z.array(assetClassAssumptionSchema).min(1, 'Informe ao menos uma classe de ativo'),
+    correlations: z.array(correlationSchema).optional().default([])
+});
+
+// Sem o padrão das correlações: ausentes, valem as da versão vigente
+const updateAssumptionsSchema = createAssumptionsSchema.partial().extend({
+    correlations: z.array(correlationSchema).optional()
+});
+
+type AssumptionsInput = z.infer<typeof createAssumptionsSchema>;
+
+function toResponse(set: CapitalMarketAssumptionSet) {
+    return {
+        ...CapitalMarketService.fromSet(set),
+        id: set.id,
+        description: set.description,
+        createdById: set.createdById,
+        createdAt: set.createdAt
+    };
+}
+
+const CREATE_VERSION_ATTEMPTS = 3;
+const VERSION_CONFLICT_ERROR = 'Outra versão de premissas foi gravada ao mesmo tempo. Tente novamente';
+
+/**
+ * Violação de unicidade (P2002): outra gravação simultânea ocupou o mesmo número de versão
+ */
+function isVersionConflict(error: unknown): boolean {
+    return (error as { code?: string } | null)?.code === 'P2002';
+}
+
+/**
+ * Grava a próxima versão de premissas da organização
+ * Se outra gravação simultânea ocupar o número da versão, relê a mais recente e tenta de novo,
+ * até `attempts` vezes; retorna null se todas as tentativas conflitarem
+ */
+async function createVersion(user: AuthPayload, data: AssumptionsInput, attempts = CREATE_VERSION_ATTEMPTS): Promise<CapitalMarketAssumptionSet | null> {
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+            return await prisma.$transaction(async (tx) => {
+                const latest = await tx.capitalMarketAssumptionSet.findFirst({
+                    where: { organizationId: user.organizationId },
+                    orderBy: { version: 'desc' }
+                });
+
+                return tx.capitalMarketAssumptionSet.create({
+                    data: {
+                        organizationId: user.organizationId,
+                        version: (latest?.version ?? 0) + 1,
+                        description: data.description,
+                        defaultReturn: data.defaultReturn,
+                        inflationRate: data.inflationRate,
+                        assetClasses: data.assetClasses,
+                        correlations: data.correlations,
+                        createdById: user.userId
+                    }
+                });
+            });
+        } catch (error) {
+            if (!isVersionConflict(error)) {
+                throw error;
+            }
+        }
+    }
+
+    return null;
+}
+
+export class CapitalMarketController {
+
+    static async list(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { organizationId } = request.user as AuthPayload;
+
+            const sets = await prisma.capitalMarketAssumptionSet.findMany({
+                where: { organizationId },
+                orderBy: { version: 'desc' }
+            });
+
+            return reply.send({
+                success: true,
+                data: sets.map(toResponse)
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao listar premissas de mercado:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async getCurrent(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { organizationId } = request.user as AuthPayload;
+
+            return reply.send({
+                success: true,
+                data: await CapitalMarketService.current(organizationId)
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao buscar premissas de mercado:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async getByVersion(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { organizationId } = request.user as AuthPayload;
+            const { version } = request.params as { version: number };
+
+            const set = await prisma.capitalMarketAssumptionSet.findFirst({
+                where: { organizationId, version }
+            });
+
+            if (!set) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Versão de premissas não encontrada'
+                } as ApiResponse);
+            }
+
+            return reply.send({
+                success: true,
+                data: toResponse(set)
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao buscar premissas de mercado:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async create(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = createAssumptionsSchema.parse(request.body);
+
+            const validationError = CapitalMarketService.validationError(data.assetClasses, data.correlations);
+            if (validationError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: validationError
+                } as ApiResponse);
+            }
+
+            const set = await createVersion(request.user as AuthPayload, data);
+
+            if (!set) {
+                return reply.status(409).send({
+                    success: false,
+                    error: VERSION_CONFLICT_ERROR
+                } as ApiResponse);
+            }
+
+            return reply.status(201).send({
+                success: true,
+                data: toResponse(set),
+                message: 'Premissas de mercado cadastradas com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao cadastrar premissas de mercado:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    /**
+     * Alterações nunca sobrescrevem uma versão usada em simulações: os campos informados
+     * são aplicados sobre a versão vigente e gravados como uma nova versão
+     */
+    static async updateCurrent(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = updateAssumptionsSchema.parse(request.body);
+            const user = request.user as AuthPayload;
+
+            const current = await CapitalMarketService.current(user.organizationId);
+            const merged = {
+                description: data.description,
+                defaultReturn: data.defaultReturn ?? current.defaultReturn,
+                inflationRate: data.inflationRate ?? current.inflationRate,
+                assetClasses: data.assetClasses ?? current.assetClasses,
+                correlations: data.correlations ?? current.correlations
+            };
+
+            if (merged.inflationRate === null || merged.assetClasses.length === 0) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Organização sem premissas cadastradas: informe inflação e classes de ativo'
+                } as ApiResponse);
+            }
+
+            const validationError = CapitalMarketService.validationError(merged.assetClasses, merged.correlations);
+            if (validationError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: validationError
+                } as ApiResponse);
+            }
+
+            // Sem nova tentativa: os campos foram aplicados sobre uma versão que deixou de ser a vigente
+            const set = await createVersion(user, { ...merged, inflationRate: merged.inflationRate }, 1);
+
+            if (!set) {
+                return reply.status(409).send({
+                    success: false,
+                    error: VERSION_CONFLICT_ERROR
+                } as ApiResponse);
+            }
+
+            return reply.status(201).send({
+                success: true,
+                data: toResponse(set),
+                message: 'Nova versão de premissas de mercado criada com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao atualizar premissas de mercado:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async delete(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { organizationId } = request.user as AuthPayload;
+            const { version } = request.params as { version: number };
+
+            const set = await prisma.capitalMarketAssumptionSet.findFirst({
+                where: { organizationId, version }
+            });
+
+            if (!set) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Versão de premissas não encontrada'
+                } as ApiResponse);
+            }
+
+            // Versões usadas em simulações são preservadas para manter o histórico reproduzível
+            const simulations = await prisma.simulation.count({
+                where: { assumptionsVersion: version, client: { organizationId } }
+            });
+
+            if (simulations > 0) {
+                return reply.status(409).send({
+                    success: false,
+                    error: `Versão de premissas usada em ${simulations} simulação(ões)`
+                } as ApiResponse);
+            }
+
+            await prisma.capitalMarketAssumptionSet.delete({
+                where: { id: set.id }
+            });
+
+            return reply.send({
+                success: true,
+                message: 'Versão de premissas removida com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao remover premissas de mercado:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+}
@@ -1,6 +1,9 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../models';
+import { AuditService } from '../services/AuditService';
+import { clientScope, organizationScope } from '../utils/access';
+import { ADMIN_ROLE } from '../middleware/auth';
 import {
     CreateClientData,
     UpdateClientData,
@@ -8,10 +11,20 @@ import {
     PaginationParams,
     ApiResponse,
     PaginatedResponse,
-    AlignmentCategory
+    AuthPayload,
+    ProjectionPoint
 } from '../types';
-
-const createClientSchema = z.object({
+import { WealthProjectionService } from '../services/WealthProjectionService';
+import { CapitalMarketService } from '../services/CapitalMarketService';
+import {
+    GoalFeasibilityService,
+    DEFAULT_VOLATILITY,
+    DEFAULT_FEASIBILITY_SIMULATIONS
+} from '../services/GoalFeasibilityService';
+import { InsuranceNeedsService } from '../services/InsuranceNeedsService';
+import { ReportService } from '../services/ReportService';
+
+export const createClientSchema = z.object({
     name: z.string().min(3, { message: 'Nome deve ter pelo menos 3 caractere' }),
     email: z.string().email({ message: 'Email inválido' }),
     age: z.number().int().min(18, 'Idade mínima é 18 anos').max(120, 'Idade máxima é 120 anos'),
@@ -36,6 +49,41 @@ const paginationSchema = z.object({
     sortOrder: z.enum(['asc', 'desc']).optional().default('desc')
 });
 
+const suggestionsQuerySchema = z.object({
+    interestRate: z.number().min(0).max(1, 'Taxa de juros deve estar entre 0 e 1').optional(),
+    timeHorizonYears: z.number().int().min(1).max(50, 'Horizonte deve estar entre 1 e 50 anos').optional()
+});
+
+const assignAdvisorsSchema = z.object({
+    advisorIds: z.array(z.string().cuid('ID do assessor inválido')).min(1, 'Informe ao menos um assessor')
+});
+
+const auditFiltersSchema = z.object({
+    entity: z.enum(['CLIENT', 'WALLET', 'EVENT', 'GOAL']).optional(),
+    from: z.string().datetime('Data inicial inválida').optional(),
+    to: z.string().datetime('Data final inválida').optional(),
+    page: z.number().int().min(1).optional().default(1),
+    limit: z.number().int().min(1).max(100).optional().default(20)
+});
+
+const DEFAULT_SUGGESTION_HORIZON_YEARS = 10;
+
+/**
+ * O histórico sobrevive à exclusão do cliente: sem o cadastro, o acesso é autorizado pela
+ * organização registrada na exclusão auditada, e apenas para administradores
+ */
+async function isDeletedClientOfOrganization(request: FastifyRequest, clientId: string): Promise<boolean> {
+    if ((request.user as AuthPayload).role !== ADMIN_ROLE) {
+        return false;
+    }
+
+    const deletion = await prisma.auditLog.findFirst({
+        where: { clientId, entity: 'CLIENT', action: 'DELETE', ...organizationScope(request) }
+    });
+
+    return !!deletion;
+}
+
 export class ClientController {
 
     static async create(request: FastifyRequest, reply: FastifyReply) {
@@ -45,8 +93,8 @@ export class ClientController {
             const data = createClientSchema.parse(request.body);
 
 
-            const existingClient = await prisma.client.findUnique({
-                where: { email: data.email }
+            const existingClient = await prisma.client.findFirst({
+                where: { email: data.email, ...organizationScope(request) }
             });
 
             if (existingClient) {
@@ -56,15 +104,35 @@ export class ClientController {
                 } as ApiResponse);
             };
 
-            const client = await prisma.client.create({
-                data,
-                include: {
-                    goals: true,
-                    wallets: true,
-                    events: true,
-                    simulations: true,
-                    insurances: true
-                }
+            const user = request.user as AuthPayload;
+
+            const client = await prisma.$transaction(async (tx) => {
+                const created = await tx.client.create({
+                    data: {
+                        ...data,
+                        organizationId: user.organizationId,
+                        advisors: {
+                            create: { userId: user.userId }
+                        }
+                    },
+                    include: {
+                        goals: true,
+                        wallets: true,
+                        events: true,
+                        simulations: true,
+                        insurances: true
+                    }
+                });
+
+                await AuditService.record(tx, user, {
+                    entity: 'CLIENT',
+                    entityId: created.id,
+                    clientId: created.id,
+                    action: 'CREATE',
+                    after: created
+                });
+
+                return created;
             });
 
             return reply.status(201).send({
@@ -99,7 +167,7 @@ export class ClientController {
             const filters = clientFiltersSchema.parse(request.query);
             const pagination = paginationSchema.parse(request.query);
 
-            const where: any = {};
+            const where: any = { ...clientScope(request) };
 
             if (filters.isActive !== undefined) {
                 where.isActive = filters.isActive;
@@ -175,14 +243,19 @@ export class ClientController {
         try {
             const { id } = request.params as { id: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id },
+            const client = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) },
                 include: {
                     goals: true,
                     wallets: true,
                     events: true,
                     simulations: true,
-                    insurances: true
+                    insurances: true,
+                    advisors: {
+                        include: {
+                            user: { select: { id: true, name: true, email: true, role: true } }
+                        }
+                    }
                 }
             });
 
@@ -213,8 +286,8 @@ export class ClientController {
             const { id } = request.params as { id: string };
             const data = updateClientSchema.parse(request.body);
 
-            const existingClient = await prisma.client.findUnique({
-                where: { id }
+            const existingClient = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) }
             });
 
             if (!existingClient) {
@@ -228,7 +301,8 @@ export class ClientController {
                 const emailInUse = await prisma.client.findFirst({
                     where: {
                         email: data.email,
-                        id: { not: id }
+                        id: { not: id },
+                        ...organizationScope(request)
                     }
                 });
 
@@ -240,16 +314,29 @@ export class ClientController {
                 }
             }
 
-            const client = await prisma.client.update({
-                where: { id },
-                data,
-                include: {
-                    goals: true,
-                    wallets: true,
-                    events: true,
-                    simulations: true,
-                    insurances: true
-                }
+            const client = await prisma.$transaction(async (tx) => {
+                const updated = await tx.client.update({
+                    where: { id },
+                    data,
+                    include: {
+                        goals: true,
+                        wallets: true,
+                        events: true,
+                        simulations: true,
+                        insurances: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'CLIENT',
+                    entityId: updated.id,
+                    clientId: updated.id,
+                    action: 'UPDATE',
+                    before: existingClient,
+                    after: updated
+                });
+
+                return updated;
             });
 
             return reply.send({
@@ -279,8 +366,8 @@ export class ClientController {
         try {
             const { id } = request.params as { id: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id }
+            const client = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) }
             });
 
             if (!client) {
@@ -290,8 +377,18 @@ export class ClientController {
                 } as ApiResponse);
             }
 
-            await prisma.client.delete({
-                where: { id }
+            await prisma.$transaction(async (tx) => {
+                await tx.client.delete({
+                    where: { id }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'CLIENT',
+                    entityId: client.id,
+                    clientId: client.id,
+                    action: 'DELETE',
+                    before: client
+                });
             });
 
             return reply.send({
@@ -312,8 +409,8 @@ export class ClientController {
         try {
             const { id } = request.params as { id: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id },
+            const client = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) },
                 include: {
                     wallets: true
                 }
@@ -326,41 +423,312 @@ export class ClientController {
                 } as ApiResponse);
             }
 
+            return reply.send({
+                success: true,
+                data: WealthProjectionService.calculateAlignment(client.wallets)
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao calcular alinhamento:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    /**
+     * Relatório de revisão em PDF, gerado no servidor
+     * Metas e seguros usam as premissas padrão de GET /clients/:clientId/goals/feasibility e /insurances/needs
+     */
+    static async getReport(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const client = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) },
+                include: {
+                    organization: true,
+                    wallets: {
+                        orderBy: {
+                            percentage: 'desc'
+                        }
+                    },
+                    goals: {
+                        orderBy: {
+                            targetDate: 'asc'
+                        }
+                    },
+                    events: true,
+                    insurances: true,
+                    simulations: {
+                        orderBy: {
+                            createdAt: 'desc'
+                        },
+                        take: 1
+                    }
+                }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const alignment = WealthProjectionService.calculateAlignment(client.wallets);
+            const market = await CapitalMarketService.current((request.user as AuthPayload).organizationId);
+
+            const goals = GoalFeasibilityService.analyze(client.goals, {
+                initialValue: alignment.currentPatrimony,
+                interestRate: market.defaultReturn,
+                volatility: DEFAULT_VOLATILITY,
+                events: client.events.map(event => ({ ...event, client })),
+                simulations: DEFAULT_FEASIBILITY_SIMULATIONS
+            });
+
+            const insuranceNeeds = InsuranceNeedsService.analyze({
+                age: client.age,
+                events: client.events,
+                goals: client.goals,
+                wallets: client.wallets,
+                insurances: client.insurances
+            });
+
+            const [simulation] = client.simulations;
+
+            const pdf = ReportService.clientReport({
+                organizationName: client.organization.name,
+                client,
+                wallets: client.wallets,
+                alignment,
+                goals,
+                insurances: client.insurances,
+                insuranceNeeds,
+                simulation: simulation
+                    ? { ...simulation, projectionData: simulation.projectionData as unknown as ProjectionPoint[] }
+                    : null
+            });
+
+            return reply
+                .header('Content-Type', 'application/pdf')
+                .header('Content-Disposition', `attachment; filename="relatorio-${client.id}.pdf"`)
+                .send(pdf);
+
+        } catch (error) {
+            console.error('Erro ao gerar relatório do cliente:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async getSuggestions(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+            const query = suggestionsQuerySchema.parse(request.query);
+
+            const client = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) },
+                include: {
+                    wallets: true,
+                    goals: true,
+                    events: true
+                }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
             const currentPatrimony = client.wallets.reduce((sum, wallet) =>
                 sum + Number(wallet.currentValue), 0
             );
 
-            const plannedPatrimony = client.wallets.reduce((sum, wallet) =>
-                sum + Number(wallet.totalPatrimony), 0
+            const targetPatrimony = client.goals.length > 0
+                ? client.goals.reduce((sum, goal) => sum + Number(goal.targetValue), 0)
+                : client.wallets.reduce((sum, wallet) => sum + Number(wallet.totalPatrimony), 0);
+
+            const currentYear = new Date().getFullYear();
+            const latestGoalYear = Math.max(currentYear, ...client.goals.map(goal => goal.targetDate.getFullYear()));
+            const timeHorizonYears = query.timeHorizonYears
+                ?? (client.goals.length > 0 ? Math.max(1, latestGoalYear - currentYear) : DEFAULT_SUGGESTION_HORIZON_YEARS);
+
+            const eventsWithClient = client.events.map(event => ({
+                ...event,
+                client: client
+            }));
+
+            const cashFlow = WealthProjectionService.getMonthlyCashFlow(eventsWithClient);
+            const interestRate = query.interestRate
+                ?? (await CapitalMarketService.current((request.user as AuthPayload).organizationId)).defaultReturn;
+
+            const suggestions = WealthProjectionService.generateAutoSuggestions(
+                currentPatrimony,
+                targetPatrimony,
+                timeHorizonYears,
+                cashFlow.monthlyInvestments,
+                interestRate,
+                cashFlow
             );
 
-            const alignmentPercent = plannedPatrimony > 0
-                ? (currentPatrimony / plannedPatrimony) * 100
-                : 0;
-
-            let category: AlignmentCategory;
-            if (alignmentPercent > 90) {
-                category = AlignmentCategory.EXCELLENT;
-            } else if (alignmentPercent >= 70) {
-                category = AlignmentCategory.GOOD;
-            } else if (alignmentPercent >= 50) {
-                category = AlignmentCategory.WARNING;
-            } else {
-                category = AlignmentCategory.CRITICAL;
-            }
-
             return reply.send({
                 success: true,
                 data: {
                     currentPatrimony,
-                    plannedPatrimony,
-                    alignmentPercent: Math.round(alignmentPercent * 100) / 100,
-                    category
+                    targetPatrimony,
+                    timeHorizonYears,
+                    interestRate,
+                    cashFlow,
+                    suggestions
                 }
             } as ApiResponse);
 
         } catch (error) {
-            console.error('Erro ao calcular alinhamento:', error);
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao gerar sugestões:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async assignAdvisors(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+            const data = assignAdvisorsSchema.parse(request.body);
+            const advisorIds = [...new Set(data.advisorIds)];
+
+            const client = await prisma.client.findFirst({
+                where: { id, ...organizationScope(request) }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const users = await prisma.user.findMany({
+                where: { id: { in: advisorIds }, ...organizationScope(request) },
+                select: { id: true }
+            });
+
+            if (users.length !== advisorIds.length) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Um ou mais assessores não foram encontrados'
+                } as ApiResponse);
+            }
+
+            const [, , advisors] = await prisma.$transaction([
+                prisma.clientAdvisor.deleteMany({ where: { clientId: id } }),
+                prisma.clientAdvisor.createMany({
+                    data: advisorIds.map(userId => ({ clientId: id, userId }))
+                }),
+                prisma.clientAdvisor.findMany({
+                    where: { clientId: id },
+                    include: {
+                        user: { select: { id: true, name: true, email: true, role: true } }
+                    }
+                })
+            ]);
+
+            return reply.send({
+                success: true,
+                data: advisors,
+                message: 'Assessores atribuídos com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao atribuir assessores:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async getAuditLog(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+            const filters = auditFiltersSchema.parse(request.query);
+
+            const client = await prisma.client.findFirst({
+                where: { id, ...clientScope(request) }
+            });
+
+            if (!client && !(await isDeletedClientOfOrganization(request, id))) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const where: any = { clientId: id, ...organizationScope(request) };
+            if (filters.entity) {
+                where.entity = filters.entity;
+            }
+            if (filters.from || filters.to) {
+                where.createdAt = {};
+                if (filters.from) where.createdAt.gte = new Date(filters.from);
+                if (filters.to) where.createdAt.lte = new Date(filters.to);
+            }
+
+            const total = await prisma.auditLog.count({ where });
+
+            const entries = await prisma.auditLog.findMany({
+                where,
+                orderBy: {
+                    createdAt: 'desc'
+                },
+                skip: (filters.page - 1) * filters.limit,
+                take: filters.limit
+            });
+
+            return reply.send({
+                success: true,
+                data: entries,
+                pagination: {
+                    page: filters.page,
+                    limit: filters.limit,
+                    total,
+                    totalPages: Math.ceil(total / filters.limit)
+                }
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao buscar histórico de auditoria:', error);
             return reply.status(500).send({
                 success: false,
                 error: 'Erro interno do servidor'
@@ -1,18 +1,63 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../models';
-import { ApiResponse } from '../types';
+import { AuditService } from '../services/AuditService';
+import { ExportService, exportQuerySchema } from '../services/ExportService';
+import { clientScope } from '../utils/access';
+import { LoanSchedule, isAmortizedLoan } from '../utils/loan';
+import { ApiResponse, AuthPayload, Event } from '../types';
 
-const createEventSchema = z.object({
+export const createEventSchema = z.object({
     clientId: z.string().cuid('ID do cliente inválido'),
     type: z.enum(['INCOME', 'EXPENSE', 'INVESTMENT', 'WITHDRAWAL', 'BONUS', 'INHERITANCE', 'LOAN']),
     description: z.string().optional(),
     value: z.number().positive('Valor deve ser positivo'),
     frequency: z.enum(['ONCE', 'MONTHLY', 'QUARTERLY', 'ANNUALLY']),
+    inflationIndexed: z.boolean().optional(),
     startDate: z.string().datetime('Data de início inválida').transform(date => new Date(date)),
-    endDate: z.string().datetime('Data de fim inválida').transform(date => new Date(date)).optional()
+    endDate: z.string().datetime('Data de fim inválida').transform(date => new Date(date)).optional(),
+    interestRate: z.number().min(0).max(1, 'Taxa do empréstimo deve estar entre 0 e 1').optional(),
+    termMonths: z.number().int().min(1).max(600, 'Prazo do empréstimo deve estar entre 1 e 600 meses').optional(),
+    amortizationSystem: z.enum(['SAC', 'PRICE']).optional()
 });
 
+type LoanTerms = Pick<Event, 'type' | 'frequency'> & {
+    endDate?: Date | null;
+    interestRate?: Event['interestRate'] | number;
+    termMonths?: number | null;
+    amortizationSystem?: string | null;
+};
+
+/**
+ * Erro nas condições do empréstimo: taxa, prazo e sistema de amortização são informados juntos,
+ * apenas em eventos LOAN com parcelas mensais, e o prazo substitui a data de fim
+ */
+export function loanTermsError(event: LoanTerms): string | undefined {
+    const terms = [event.interestRate, event.termMonths, event.amortizationSystem].filter(term => term != null);
+
+    if (terms.length === 0) {
+        return undefined;
+    }
+
+    if (event.type !== 'LOAN') {
+        return 'Taxa, prazo e sistema de amortização só se aplicam a empréstimos (LOAN)';
+    }
+
+    if (terms.length < 3) {
+        return 'Informe taxa, prazo e sistema de amortização do empréstimo';
+    }
+
+    if (event.frequency !== 'MONTHLY') {
+        return 'Empréstimos com sistema de amortização têm parcelas mensais (frequency MONTHLY)';
+    }
+
+    if (event.endDate) {
+        return 'O prazo do empréstimo define a última parcela: não informe a data de fim';
+    }
+
+    return undefined;
+}
+
 const updateEventSchema = createEventSchema.partial().omit({ clientId: true });
 
 const eventFiltersSchema = z.object({
@@ -31,8 +76,8 @@ export class EventController {
         try {
             const data = createEventSchema.parse(request.body);
 
-            const client = await prisma.client.findUnique({
-                where: { id: data.clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: data.clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -49,14 +94,35 @@ export class EventController {
                 } as ApiResponse);
             }
 
-            const event = await prisma.event.create({
-                data: {
-                    ...data,
-                    value: data.value.toString()
-                },
-                include: {
-                    client: true
-                }
+            const loanError = loanTermsError(data);
+            if (loanError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: loanError
+                } as ApiResponse);
+            }
+
+            const event = await prisma.$transaction(async (tx) => {
+                const created = await tx.event.create({
+                    data: {
+                        ...data,
+                        value: data.value.toString(),
+                        interestRate: data.interestRate?.toString()
+                    },
+                    include: {
+                        client: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'EVENT',
+                    entityId: created.id,
+                    clientId: created.clientId,
+                    action: 'CREATE',
+                    after: created
+                });
+
+                return created;
             });
 
             return reply.status(201).send({
@@ -86,7 +152,7 @@ export class EventController {
         try {
             const filters = eventFiltersSchema.parse(request.query);
 
-            const where: any = {};
+            const where: any = { client: clientScope(request) };
             if (filters.clientId) {
                 where.clientId = filters.clientId;
             }
@@ -148,8 +214,8 @@ export class EventController {
         try {
             const { id } = request.params as { id: string };
 
-            const event = await prisma.event.findUnique({
-                where: { id },
+            const event = await prisma.event.findFirst({
+                where: { id, client: clientScope(request) },
                 include: {
                     client: true
                 }
@@ -176,13 +242,61 @@ export class EventController {
         }
     }
 
+    static async getAmortization(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const event = await prisma.event.findFirst({
+                where: { id, client: clientScope(request) }
+            });
+
+            if (!event) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Evento não encontrado'
+                } as ApiResponse);
+            }
+
+            if (!isAmortizedLoan(event)) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Evento não é um empréstimo com sistema de amortização'
+                } as ApiResponse);
+            }
+
+            const schedule = LoanSchedule.fromEvent(event);
+            const totalInterest = schedule.installments.reduce((sum, installment) => sum + installment.interest, 0);
+
+            return reply.send({
+                success: true,
+                data: {
+                    principal: schedule.principal,
+                    interestRate: Number(event.interestRate),
+                    termMonths: event.termMonths,
+                    amortizationSystem: event.amortizationSystem,
+                    startDate: event.startDate,
+                    outstandingBalance: schedule.balanceAt(new Date()),
+                    totalInterest: Math.round(totalInterest * 100) / 100,
+                    installments: schedule.installments
+                }
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao gerar cronograma de amortização:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
     static async update(request: FastifyRequest, reply: FastifyReply) {
         try {
             const { id } = request.params as { id: string };
             const data = updateEventSchema.parse(request.body);
 
-            const existingEvent = await prisma.event.findUnique({
-                where: { id }
+            const existingEvent = await prisma.event.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!existingEvent) {
@@ -202,17 +316,41 @@ export class EventController {
                 } as ApiResponse);
             }
 
+            const loanError = loanTermsError({ ...existingEvent, ...data, endDate });
+            if (loanError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: loanError
+                } as ApiResponse);
+            }
+
             const updateData: any = { ...data };
             if (data.value) {
                 updateData.value = data.value.toString();
             }
+            if (data.interestRate !== undefined) {
+                updateData.interestRate = data.interestRate.toString();
+            }
 
-            const event = await prisma.event.update({
-                where: { id },
-                data: updateData,
-                include: {
-                    client: true
-                }
+            const event = await prisma.$transaction(async (tx) => {
+                const updated = await tx.event.update({
+                    where: { id },
+                    data: updateData,
+                    include: {
+                        client: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'EVENT',
+                    entityId: updated.id,
+                    clientId: updated.clientId,
+                    action: 'UPDATE',
+                    before: existingEvent,
+                    after: updated
+                });
+
+                return updated;
             });
 
             return reply.send({
@@ -242,8 +380,8 @@ export class EventController {
         try {
             const { id } = request.params as { id: string };
 
-            const event = await prisma.event.findUnique({
-                where: { id }
+            const event = await prisma.event.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!event) {
@@ -253,8 +391,18 @@ export class EventController {
                 } as ApiResponse);
             }
 
-            await prisma.event.delete({
-                where: { id }
+            await prisma.$transaction(async (tx) => {
+                await tx.event.delete({
+                    where: { id }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'EVENT',
+                    entityId: event.id,
+                    clientId: event.clientId,
+                    action: 'DELETE',
+                    before: event
+                });
             });
 
             return reply.send({
@@ -275,8 +423,8 @@ export class EventController {
         try {
             const { clientId } = request.params as { clientId: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id: clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -300,9 +448,12 @@ export class EventController {
                 .filter(event => ['INCOME', 'BONUS', 'INHERITANCE'].includes(event.type))
                 .reduce((sum, event) => sum + Number(event.value), 0);
 
+            // Empréstimos amortizados somam a parcela vigente, e não o valor financiado
             const totalExpenses = events
                 .filter(event => ['EXPENSE', 'WITHDRAWAL', 'LOAN'].includes(event.type))
-                .reduce((sum, event) => sum + Number(event.value), 0);
+                .reduce((sum, event) => sum + (isAmortizedLoan(event)
+                    ? LoanSchedule.fromEvent(event).installmentAt(new Date())
+                    : Number(event.value)), 0);
 
             const totalInvestments = events
                 .filter(event => event.type === 'INVESTMENT')
@@ -330,5 +481,55 @@ export class EventController {
             } as ApiResponse);
         }
     }
+
+    /**
+     * Exporta o cronograma de eventos do cliente em CSV ou XLSX
+     */
+    static async exportByClient(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { clientId } = request.params as { clientId: string };
+            const options = exportQuerySchema.parse(request.query);
+
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const events = await prisma.event.findMany({
+                where: { clientId },
+                orderBy: {
+                    startDate: 'asc'
+                }
+            });
+
+            const file = ExportService.render(ExportService.eventSchedule(events), options);
+
+            return reply
+                .header('Content-Type', file.contentType)
+                .header('Content-Disposition', `attachment; filename="eventos-${clientId}.${file.extension}"`)
+                .send(file.body);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao exportar eventos do cliente:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
 }
 
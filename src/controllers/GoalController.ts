@@ -1,7 +1,16 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../models';
-import { ApiResponse, PaginatedResponse } from '../types';
+import { AuditService } from '../services/AuditService';
+import { clientScope } from '../utils/access';
+import { ApiResponse, PaginatedResponse, AuthPayload } from '../types';
+import { CapitalMarketService } from '../services/CapitalMarketService';
+import {
+    GoalFeasibilityService,
+    DEFAULT_VOLATILITY,
+    DEFAULT_FEASIBILITY_SIMULATIONS,
+    MAX_GOAL_HORIZON_YEARS
+} from '../services/GoalFeasibilityService';
 
 const createGoalSchema = z.object({
     clientId: z.string().cuid('ID do cliente inválido'),
@@ -9,6 +18,10 @@ const createGoalSchema = z.object({
     description: z.string().min(5, 'Descrição deve ter pelo menos 5 caracteres'),
     targetValue: z.number().positive('Valor alvo deve ser positivo'),
     targetDate: z.string().datetime('Data alvo inválida').transform(date => new Date(date))
+        .refine(
+            date => date.getFullYear() - new Date().getFullYear() <= MAX_GOAL_HORIZON_YEARS,
+            `Data alvo deve estar em até ${MAX_GOAL_HORIZON_YEARS} anos`
+        )
 });
 
 const updateGoalSchema = createGoalSchema.partial().omit({ clientId: true });
@@ -20,14 +33,21 @@ const goalFiltersSchema = z.object({
     limit: z.number().int().min(1).max(100).optional().default(10)
 });
 
+const feasibilityQuerySchema = z.object({
+    interestRate: z.number().min(0).max(1, 'Taxa de juros deve estar entre 0 e 1').optional(),
+    volatility: z.number().min(0).max(1, 'Volatilidade deve estar entre 0 e 1').optional().default(DEFAULT_VOLATILITY),
+    simulations: z.number().int().min(100).max(10000, 'Número de simulações deve estar entre 100 e 10000').optional().default(DEFAULT_FEASIBILITY_SIMULATIONS),
+    seed: z.number().int().min(0).optional()
+});
+
 export class GoalController {
 
     static async create(request: FastifyRequest, reply: FastifyReply) {
         try {
             const data = createGoalSchema.parse(request.body);
 
-            const client = await prisma.client.findUnique({
-                where: { id: data.clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: data.clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -37,14 +57,26 @@ export class GoalController {
                 } as ApiResponse);
             }
 
-            const goal = await prisma.goal.create({
-                data: {
-                    ...data,
-                    targetValue: data.targetValue.toString()
-                },
-                include: {
-                    client: true
-                }
+            const goal = await prisma.$transaction(async (tx) => {
+                const created = await tx.goal.create({
+                    data: {
+                        ...data,
+                        targetValue: data.targetValue.toString()
+                    },
+                    include: {
+                        client: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'GOAL',
+                    entityId: created.id,
+                    clientId: created.clientId,
+                    action: 'CREATE',
+                    after: created
+                });
+
+                return created;
             });
 
             return reply.status(201).send({
@@ -74,7 +106,7 @@ export class GoalController {
         try {
             const filters = goalFiltersSchema.parse(request.query);
 
-            const where: any = {};
+            const where: any = { client: clientScope(request) };
             if (filters.clientId) {
                 where.clientId = filters.clientId;
             }
@@ -128,8 +160,8 @@ export class GoalController {
         try {
             const { id } = request.params as { id: string };
 
-            const goal = await prisma.goal.findUnique({
-                where: { id },
+            const goal = await prisma.goal.findFirst({
+                where: { id, client: clientScope(request) },
                 include: {
                     client: true
                 }
@@ -161,8 +193,8 @@ export class GoalController {
             const { id } = request.params as { id: string };
             const data = updateGoalSchema.parse(request.body);
 
-            const existingGoal = await prisma.goal.findUnique({
-                where: { id }
+            const existingGoal = await prisma.goal.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!existingGoal) {
@@ -177,12 +209,25 @@ export class GoalController {
                 updateData.targetValue = data.targetValue.toString();
             }
 
-            const goal = await prisma.goal.update({
-                where: { id },
-                data: updateData,
-                include: {
-                    client: true
-                }
+            const goal = await prisma.$transaction(async (tx) => {
+                const updated = await tx.goal.update({
+                    where: { id },
+                    data: updateData,
+                    include: {
+                        client: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'GOAL',
+                    entityId: updated.id,
+                    clientId: updated.clientId,
+                    action: 'UPDATE',
+                    before: existingGoal,
+                    after: updated
+                });
+
+                return updated;
             });
 
             return reply.send({
@@ -212,8 +257,8 @@ export class GoalController {
         try {
             const { id } = request.params as { id: string };
 
-            const goal = await prisma.goal.findUnique({
-                where: { id }
+            const goal = await prisma.goal.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!goal) {
@@ -223,8 +268,18 @@ export class GoalController {
                 } as ApiResponse);
             }
 
-            await prisma.goal.delete({
-                where: { id }
+            await prisma.$transaction(async (tx) => {
+                await tx.goal.delete({
+                    where: { id }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'GOAL',
+                    entityId: goal.id,
+                    clientId: goal.clientId,
+                    action: 'DELETE',
+                    before: goal
+                });
             });
 
             return reply.send({
@@ -245,8 +300,8 @@ export class GoalController {
         try {
             const { clientId } = request.params as { clientId: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id: clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -279,5 +334,81 @@ export class GoalController {
             } as ApiResponse);
         }
     }
-}
 
+    static async feasibility(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { clientId } = request.params as { clientId: string };
+            const query = feasibilityQuerySchema.parse(request.query);
+
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) },
+                include: {
+                    goals: {
+                        orderBy: {
+                            targetDate: 'asc'
+                        }
+                    },
+                    wallets: true,
+                    events: true
+                }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const initialValue = client.wallets.reduce((sum, wallet) =>
+                sum + Number(wallet.currentValue), 0
+            );
+
+            const eventsWithClient = client.events.map(event => ({
+                ...event,
+                client: client
+            }));
+
+            const interestRate = query.interestRate
+                ?? (await CapitalMarketService.current((request.user as AuthPayload).organizationId)).defaultReturn;
+
+            const goals = GoalFeasibilityService.analyze(client.goals, {
+                initialValue,
+                interestRate,
+                volatility: query.volatility,
+                events: eventsWithClient,
+                simulations: query.simulations,
+                seed: query.seed
+            });
+
+            return reply.send({
+                success: true,
+                data: {
+                    clientId,
+                    initialValue,
+                    assumptions: {
+                        interestRate,
+                        volatility: query.volatility,
+                        simulations: query.simulations
+                    },
+                    goals
+                }
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao avaliar viabilidade das metas:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+}
@@ -0,0 +1,138 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { OutgoingHttpHeaders } from 'http';
+import { z } from 'zod';
+import { clientScope } from '../utils/access';
+import { parseCsv } from '../utils/csv';
+import { ImportService, MAX_IMPORT_ROWS } from '../services/ImportService';
+import { ApiResponse, AuthPayload, SSEMessage } from '../types';
+
+const importQuerySchema = z.object({
+    type: z.enum(['clients', 'events', 'wallets']),
+    atomic: z.boolean().optional().default(false)
+});
+
+export class ImportController {
+
+    static async create(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const query = importQuerySchema.parse(request.query);
+
+            const { headers, rows } = parseCsv(request.body as string);
+
+            if (rows.length === 0) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Arquivo CSV sem registros'
+                } as ApiResponse);
+            }
+
+            if (rows.length > MAX_IMPORT_ROWS) {
+                return reply.status(400).send({
+                    success: false,
+                    error: `Arquivo excede o limite de ${MAX_IMPORT_ROWS} linhas`
+                } as ApiResponse);
+            }
+
+            const missingColumns = ImportService.missingColumns(query.type, headers);
+            if (missingColumns.length > 0) {
+                return reply.status(400).send({
+                    success: false,
+                    error: `Colunas obrigatórias ausentes: ${missingColumns.join(', ')}`
+                } as ApiResponse);
+            }
+
+            const summary = ImportService.start({
+                type: query.type,
+                atomic: query.atomic,
+                rows,
+                owner: request.user as AuthPayload,
+                scope: clientScope(request)
+            });
+
+            return reply.status(202).send({
+                success: true,
+                data: summary,
+                message: 'Importação iniciada'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao iniciar importação:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async findById(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const summary = ImportService.find(id, request.user as AuthPayload);
+
+            if (!summary) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Importação não encontrada'
+                } as ApiResponse);
+            }
+
+            return reply.send({
+                success: true,
+                data: summary
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao buscar importação:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    /**
+     * Transmite o progresso da importação via Server-Sent Events
+     * A conexão é encerrada pelo servidor após o evento "complete"
+     */
+    static async stream(request: FastifyRequest, reply: FastifyReply) {
+        const { id } = request.params as { id: string };
+
+        if (!ImportService.find(id, request.user as AuthPayload)) {
+            return reply.status(404).send({
+                success: false,
+                error: 'Importação não encontrada'
+            } as ApiResponse);
+        }
+
+        // Após o hijack o Fastify não escreve mais a resposta: os cabeçalhos já definidos (CORS, rate limit) são repassados
+        reply
+            .header('Content-Type', 'text/event-stream')
+            .header('Cache-Control', 'no-cache')
+            .header('Connection', 'keep-alive');
+        reply.hijack();
+        reply.raw.writeHead(200, reply.getHeaders() as OutgoingHttpHeaders);
+
+        let unsubscribe = () => {};
+        const send = (message: SSEMessage) => {
+            reply.raw.write(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+
+            if (message.type === 'complete') {
+                unsubscribe();
+                reply.raw.end();
+            }
+        };
+
+        unsubscribe = ImportService.subscribe(id, send);
+        request.raw.on('close', () => unsubscribe());
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,350 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../models';
+import { clientScope } from '../utils/access';
+import { ApiResponse, PaginatedResponse } from '../types';
+import {
+    InsuranceNeedsService,
+    DEFAULT_SUPPORT_YEARS,
+    DEFAULT_RETIREMENT_AGE
+} from '../services/InsuranceNeedsService';
+
+const createInsuranceSchema = z.object({
+    clientId: z.string().cuid('ID do cliente inválido'),
+    type: z.enum(['LIFE', 'DISABILITY', 'HEALTH', 'PROPERTY', 'LIABILITY']),
+    coverage: z.number().positive('Cobertura deve ser positiva'),
+    premium: z.number().min(0, 'Prêmio deve ser positivo'),
+    description: z.string().optional()
+});
+
+const updateInsuranceSchema = createInsuranceSchema.partial().omit({ clientId: true });
+
+const insuranceFiltersSchema = z.object({
+    clientId: z.string().cuid().optional(),
+    type: z.string().optional(),
+    page: z.number().int().min(1).optional().default(1),
+    limit: z.number().int().min(1).max(100).optional().default(10)
+});
+
+const needsQuerySchema = z.object({
+    supportYears: z.number().int().min(1).max(50, 'Anos de sustento deve estar entre 1 e 50').optional().default(DEFAULT_SUPPORT_YEARS),
+    retirementAge: z.number().int().min(30).max(100, 'Idade de aposentadoria deve estar entre 30 e 100').optional().default(DEFAULT_RETIREMENT_AGE)
+});
+
+export class InsuranceController {
+
+    static async create(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = createInsuranceSchema.parse(request.body);
+
+            const client = await prisma.client.findFirst({
+                where: { id: data.clientId, ...clientScope(request) }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const insurance = await prisma.insurance.create({
+                data: {
+                    ...data,
+                    coverage: data.coverage.toString(),
+                    premium: data.premium.toString()
+                },
+                include: {
+                    client: true
+                }
+            });
+
+            return reply.status(201).send({
+                success: true,
+                data: insurance,
+                message: 'Seguro criado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao criar seguro:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async findAll(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const filters = insuranceFiltersSchema.parse(request.query);
+
+            const where: any = { client: clientScope(request) };
+            if (filters.clientId) {
+                where.clientId = filters.clientId;
+            }
+            if (filters.type) {
+                where.type = filters.type;
+            }
+
+            const total = await prisma.insurance.count({ where });
+
+            const insurances = await prisma.insurance.findMany({
+                where,
+                include: {
+                    client: true
+                },
+                orderBy: {
+                    coverage: 'desc'
+                },
+                skip: (filters.page - 1) * filters.limit,
+                take: filters.limit
+            });
+
+            return reply.send({
+                success: true,
+                data: insurances,
+                pagination: {
+                    page: filters.page,
+                    limit: filters.limit,
+                    total,
+                    totalPages: Math.ceil(total / filters.limit)
+                }
+            } as unknown as PaginatedResponse<typeof insurances>);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao listar seguros:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async findById(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const insurance = await prisma.insurance.findFirst({
+                where: { id, client: clientScope(request) },
+                include: {
+                    client: true
+                }
+            });
+
+            if (!insurance) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Seguro não encontrado'
+                } as ApiResponse);
+            }
+
+            return reply.send({
+                success: true,
+                data: insurance
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao buscar seguro:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async update(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+            const data = updateInsuranceSchema.parse(request.body);
+
+            const existingInsurance = await prisma.insurance.findFirst({
+                where: { id, client: clientScope(request) }
+            });
+
+            if (!existingInsurance) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Seguro não encontrado'
+                } as ApiResponse);
+            }
+
+            const updateData: any = { ...data };
+            if (data.coverage) updateData.coverage = data.coverage.toString();
+            if (data.premium !== undefined) updateData.premium = data.premium.toString();
+
+            const insurance = await prisma.insurance.update({
+                where: { id },
+                data: updateData,
+                include: {
+                    client: true
+                }
+            });
+
+            return reply.send({
+                success: true,
+                data: insurance,
+                message: 'Seguro atualizado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao atualizar seguro:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async delete(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const insurance = await prisma.insurance.findFirst({
+                where: { id, client: clientScope(request) }
+            });
+
+            if (!insurance) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Seguro não encontrado'
+                } as ApiResponse);
+            }
+
+            await prisma.insurance.delete({
+                where: { id }
+            });
+
+            return reply.send({
+                success: true,
+                message: 'Seguro deletado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao deletar seguro:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async findByClient(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { clientId } = request.params as { clientId: string };
+
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const insurances = await prisma.insurance.findMany({
+                where: { clientId },
+                include: {
+                    client: true
+                },
+                orderBy: {
+                    coverage: 'desc'
+                }
+            });
+
+            return reply.send({
+                success: true,
+                data: insurances
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao buscar seguros do cliente:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async needsAnalysis(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { clientId } = request.params as { clientId: string };
+            const query = needsQuerySchema.parse(request.query);
+
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) },
+                include: {
+                    events: true,
+                    goals: true,
+                    wallets: true,
+                    insurances: true
+                }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const analysis = InsuranceNeedsService.analyze({
+                age: client.age,
+                events: client.events,
+                goals: client.goals,
+                wallets: client.wallets,
+                insurances: client.insurances,
+                supportYears: query.supportYears,
+                retirementAge: query.retirementAge
+            });
+
+            return reply.send({
+                success: true,
+                data: {
+                    clientId,
+                    ...analysis
+                }
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao analisar necessidade de seguro:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+}
@@ -0,0 +1,182 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../models';
+import { ApiResponse, AuthPayload } from '../types';
+import { MfaService } from '../services/MfaService';
+import { SessionService } from '../services/SessionService';
+import { matchTotpStep } from '../utils/totp';
+
+const mfaCodeSchema = z.object({
+    code: z.string().min(1, 'Código é obrigatório')
+});
+
+export class MfaController {
+
+    static async setup(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const authUser = request.user as AuthPayload;
+
+            const user = await prisma.user.findUnique({
+                where: { id: authUser.userId }
+            });
+
+            if (!user) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Usuário não encontrado'
+                } as ApiResponse);
+            }
+
+            if (user.mfaEnabled) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'Autenticação em dois fatores já está ativa'
+                } as ApiResponse);
+            }
+
+            const enrollment = MfaService.createEnrollment(user.email);
+
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { mfaSecret: enrollment.secret }
+            });
+
+            return reply.send({
+                success: true,
+                data: enrollment,
+                message: 'Cadastre o segredo no aplicativo autenticador e confirme com um código'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao iniciar configuração de 2FA:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async enable(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = mfaCodeSchema.parse(request.body);
+            const authUser = request.user as AuthPayload;
+
+            const user = await prisma.user.findUnique({
+                where: { id: authUser.userId },
+                include: { organization: true }
+            });
+
+            if (!user) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Usuário não encontrado'
+                } as ApiResponse);
+            }
+
+            if (user.mfaEnabled) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'Autenticação em dois fatores já está ativa'
+                } as ApiResponse);
+            }
+
+            const step = user.mfaSecret ? matchTotpStep(user.mfaSecret, data.code) : null;
+            if (step === null) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Código de autenticação inválido'
+                } as ApiResponse);
+            }
+
+            const { codes, hashes } = MfaService.generateRecoveryCodes();
+
+            const updatedUser = await prisma.user.update({
+                where: { id: user.id },
+                data: { mfaEnabled: true, mfaRecoveryCodes: hashes, mfaLastUsedStep: step },
+                include: { organization: true }
+            });
+
+            // A sessão atual acabou de provar o segundo fator
+            const session = await SessionService.markMfaSatisfied(authUser.sessionId);
+            const token = SessionService.signAccessToken(request, updatedUser, session);
+
+            return reply.send({
+                success: true,
+                data: { recoveryCodes: codes, token },
+                message: 'Autenticação em dois fatores ativada. Guarde os códigos de recuperação em local seguro'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+            console.error('Erro ao ativar 2FA:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async disable(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = mfaCodeSchema.parse(request.body);
+            const authUser = request.user as AuthPayload;
+
+            const user = await prisma.user.findUnique({
+                where: { id: authUser.userId },
+                include: { organization: true }
+            });
+
+            if (!user || !user.mfaEnabled) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Autenticação em dois fatores não está ativa'
+                } as ApiResponse);
+            }
+
+            if (user.organization.requireMfa) {
+                return reply.status(403).send({
+                    success: false,
+                    error: 'A organização exige autenticação em dois fatores'
+                } as ApiResponse);
+            }
+
+            if (!(await MfaService.verify(user, data.code))) {
+                return reply.status(401).send({
+                    success: false,
+                    error: 'Código de autenticação inválido'
+                } as ApiResponse);
+            }
+
+            await prisma.user.update({
+                where: { id: user.id },
+                data: { mfaEnabled: false, mfaSecret: null, mfaRecoveryCodes: [], mfaLastUsedStep: null }
+            });
+
+            return reply.send({
+                success: true,
+                message: 'Autenticação em dois fatores desativada'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+            console.error('Erro ao desativar 2FA:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+}
\ No newline at end of file
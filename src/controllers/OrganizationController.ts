@@ -0,0 +1,75 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { prisma } from '../models';
+import { ApiResponse, AuthPayload } from '../types';
+
+const updateOrganizationSchema = z.object({
+    name: z.string().min(3, 'Nome deve ter pelo menos 3 caracteres').optional(),
+    requireMfa: z.boolean().optional()
+});
+
+export class OrganizationController {
+
+    static async getCurrent(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { organizationId } = request.user as AuthPayload;
+
+            const organization = await prisma.organization.findUnique({
+                where: { id: organizationId }
+            });
+
+            if (!organization) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Organização não encontrada'
+                } as ApiResponse);
+            }
+
+            return reply.send({
+                success: true,
+                data: organization
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao buscar organização:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async updateCurrent(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { organizationId } = request.user as AuthPayload;
+            const data = updateOrganizationSchema.parse(request.body);
+
+            const organization = await prisma.organization.update({
+                where: { id: organizationId },
+                data
+            });
+
+            return reply.send({
+                success: true,
+                data: organization,
+                message: 'Organização atualizada com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao atualizar organização:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+}
\ No newline at end of file
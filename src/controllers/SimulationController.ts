@@ -1,18 +1,111 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../models';
-import { ApiResponse } from '../types';
-import { WealthProjectionService } from '../services/WealthProjectionService';
+import { clientScope } from '../utils/access';
+import { WRITE_ROLES } from '../middleware/auth';
+import {
+    ApiResponse,
+    AuthPayload,
+    CapitalMarketAssumptions,
+    Event,
+    InflationRate,
+    Insurance,
+    InsurancePolicy,
+    LifeEventScenario,
+    MonteCarloConfig,
+    PortfolioParams,
+    PremiumFrequency,
+    ProjectionPoint,
+    RetirementPlan,
+    ScenarioParameters,
+    Simulation,
+    SimulationSnapshot,
+    TaxParams,
+    Wallet,
+    WealthProjectionParams
+} from '../types';
+import { WealthProjectionService, DEFAULT_MONTE_CARLO_SIMULATIONS, ENGINE_VERSION } from '../services/WealthProjectionService';
+import { ExportService, exportQuerySchema } from '../services/ExportService';
+import { ScenarioService, MAX_COMPARED_SCENARIOS } from '../services/ScenarioService';
+import { SimulationSnapshotService } from '../services/SimulationSnapshotService';
+import { TaxService } from '../services/TaxService';
+import { DecumulationService } from '../services/DecumulationService';
+import { CapitalMarketService, DEFAULT_REBALANCE_FREQUENCY } from '../services/CapitalMarketService';
+import { createEventSchema } from './EventController';
+
+const monteCarloSchema = z.object({
+    expectedReturn: z.number().min(-1).max(1, 'Retorno esperado deve estar entre -1 e 1').optional(),
+    volatility: z.number().min(0).max(1, 'Volatilidade deve estar entre 0 e 1'),
+    seed: z.number().int().min(0).optional(),
+    simulations: z.number().int().min(100).max(10000, 'Número de simulações deve estar entre 100 e 10000').optional().default(DEFAULT_MONTE_CARLO_SIMULATIONS),
+    targetValue: z.number().min(0, 'Valor alvo deve ser positivo').optional()
+});
+
+const inflationRateSchema = z.union([
+    z.number().min(-0.5).max(1, 'Inflação deve estar entre -0.5 e 1'),
+    z.array(z.number().min(-0.5).max(1, 'Inflação deve estar entre -0.5 e 1')).min(1).max(51)
+]);
+
+const premiumFrequencySchema = z.enum(['MONTHLY', 'QUARTERLY', 'ANNUALLY']);
+
+const lifeEventSchema = z.object({
+    type: z.enum(['DEATH', 'DISABILITY']),
+    year: z.number().int('Ano do cenário inválido')
+});
+
+const taxSchema = z.object({
+    allocations: z.array(z.object({
+        regime: z.enum(['REGRESSIVE', 'COME_COTAS', 'EXEMPT', 'CAPITAL_GAINS', 'REAL_ESTATE_FUND']),
+        weight: z.number().positive('Peso do regime deve ser positivo')
+    })).min(1, 'Informe ao menos um regime').optional(),
+    initialHoldingMonths: z.number().int().min(0, 'Prazo das aplicações deve ser positivo').optional()
+});
+
+const retirementSchema = z.object({
+    retirementAge: z.number().int().min(18).max(120, 'Idade de aposentadoria deve estar entre 18 e 120 anos'),
+    desiredIncome: z.number().min(0, 'Renda desejada deve ser positiva'),
+    strategy: z.enum(['FIXED_REAL', 'PERCENTAGE', 'GUARDRAILS']).optional().default('FIXED_REAL'),
+    withdrawalRate: z.number().positive().max(1, 'Taxa de retirada deve estar entre 0 e 1').optional(),
+    guardrails: z.object({
+        upperLimit: z.number().positive().max(1),
+        lowerLimit: z.number().positive().max(1),
+        adjustment: z.number().positive().max(1)
+    }).partial().optional(),
+    lifeExpectancy: z.number().int().max(120, 'Expectativa de vida deve ser de no máximo 120 anos').optional()
+}).refine(
+    retirement => retirement.lifeExpectancy === undefined || retirement.lifeExpectancy > retirement.retirementAge,
+    { message: 'Expectativa de vida deve ser maior que a idade de aposentadoria', path: ['lifeExpectancy'] }
+);
+
+const portfolioSchema = z.object({
+    rebalanceFrequency: z.enum(['NONE', 'MONTHLY', 'QUARTERLY', 'SEMIANNUALLY', 'ANNUALLY']).optional().default(DEFAULT_REBALANCE_FREQUENCY),
+    assumptions: z.array(z.object({
+        assetClass: z.string().min(1, 'Classe de ativo é obrigatória'),
+        expectedReturn: z.number().min(-1).max(1, 'Retorno esperado deve estar entre -1 e 1'),
+        volatility: z.number().min(0).max(1, 'Volatilidade deve estar entre 0 e 1')
+    })).optional()
+});
 
 const createSimulationSchema = z.object({
     clientId: z.string().cuid('ID do cliente inválido'),
     name: z.string().min(3, 'Nome deve ter pelo menos 3 caracteres'),
     initialValue: z.number().min(0, 'Valor inicial deve ser positivo'),
-    interestRate: z.number().min(0).max(1, 'Taxa de juros deve estar entre 0 e 1 (0% a 100%)'),
-    projectionYears: z.number().int().min(1).max(50, 'Anos de projeção deve estar entre 1 e 50')
+    interestRate: z.number().min(0).max(1, 'Taxa de juros deve estar entre 0 e 1 (0% a 100%)').optional(),
+    projectionYears: z.number().int().min(1).max(50, 'Anos de projeção deve estar entre 1 e 50'),
+    inflationRate: inflationRateSchema.optional(),
+    premiumFrequency: premiumFrequencySchema.optional(),
+    tax: taxSchema.optional(),
+    retirement: retirementSchema.optional(),
+    portfolio: portfolioSchema.optional(),
+    monteCarlo: monteCarloSchema.optional()
 });
 
-const updateSimulationSchema = createSimulationSchema.partial().omit({ clientId: true });
+// null remove a inflação ou o Monte Carlo salvos, voltando à projeção nominal ou determinística
+const updateSimulationSchema = createSimulationSchema.partial().omit({ clientId: true }).extend({
+    inflationRate: inflationRateSchema.nullable().optional(),
+    monteCarlo: monteCarloSchema.nullable().optional()
+});
 
 const simulationFiltersSchema = z.object({
     clientId: z.string().cuid().optional(),
@@ -23,20 +116,304 @@ const simulationFiltersSchema = z.object({
 const projectionRequestSchema = z.object({
     clientId: z.string().cuid('ID do cliente inválido'),
     initialValue: z.number().min(0, 'Valor inicial deve ser positivo'),
-    interestRate: z.number().min(0).max(1, 'Taxa de juros deve estar entre 0 e 1').optional().default(0.04),
-    projectionYears: z.number().int().min(1).max(50, 'Anos de projeção deve estar entre 1 e 50').optional().default(40)
+    interestRate: z.number().min(0).max(1, 'Taxa de juros deve estar entre 0 e 1').optional(),
+    projectionYears: z.number().int().min(1).max(50, 'Anos de projeção deve estar entre 1 e 50').optional().default(40),
+    inflationRate: inflationRateSchema.optional(),
+    premiumFrequency: premiumFrequencySchema.optional(),
+    tax: taxSchema.optional(),
+    retirement: retirementSchema.optional(),
+    portfolio: portfolioSchema.optional(),
+    lifeEvent: lifeEventSchema.optional(),
+    monteCarlo: monteCarloSchema.optional()
+});
+
+const scenarioParametersSchema = createSimulationSchema
+    .omit({ clientId: true, name: true })
+    .partial()
+    .extend({ lifeEvent: lifeEventSchema.optional() });
+
+const scenarioEventsSchema = z.object({
+    remove: z.array(z.string()).optional(),
+    update: z.array(createEventSchema.omit({ clientId: true }).partial().extend({
+        id: z.string(),
+        endDate: z.string().datetime('Data de fim inválida').transform(date => new Date(date)).nullable().optional()
+    })).optional(),
+    add: z.array(createEventSchema.omit({ clientId: true })).optional()
+});
+
+const compareSimulationsSchema = z.object({
+    baseSimulationId: z.string().cuid('ID da simulação inválido'),
+    scenarios: z.array(z.object({
+        name: z.string().min(3, 'Nome do cenário deve ter pelo menos 3 caracteres'),
+        parameters: scenarioParametersSchema.optional().default({}),
+        events: scenarioEventsSchema.optional()
+    }))
+        .min(1, 'Informe ao menos um cenário')
+        .max(MAX_COMPARED_SCENARIOS, `Compare no máximo ${MAX_COMPARED_SCENARIOS} cenários por vez`),
+    persist: z.boolean().optional().default(false)
 });
 
+type MonteCarloInput = z.infer<typeof monteCarloSchema>;
+type TaxInput = z.infer<typeof taxSchema>;
+type RetirementInput = z.infer<typeof retirementSchema>;
+type PortfolioInput = z.infer<typeof portfolioSchema>;
+
+const RETIREMENT_AGE_ERROR = 'Idade de aposentadoria deve ser maior ou igual à idade atual do cliente';
+
+interface ScenarioInput {
+    initialValue: number;
+    interestRate: number;
+    projectionYears: number;
+    inflationRate?: InflationRate;
+    premiumFrequency?: PremiumFrequency;
+    lifeEvent?: LifeEventScenario;
+    monteCarlo?: MonteCarloInput;
+    tax?: TaxParams;
+    retirement?: RetirementPlan;
+    portfolio?: PortfolioParams;
+    assumptionsVersion?: number;
+}
+
+function toInsurancePolicies(insurances: Omit<Insurance, 'client'>[]): InsurancePolicy[] {
+    return insurances.map(insurance => ({
+        type: insurance.type,
+        coverage: Number(insurance.coverage),
+        premium: Number(insurance.premium)
+    }));
+}
+
+/**
+ * Tributação informada na requisição; sem a divisão entre os regimes, ela é estimada
+ * pelas classes de ativo da carteira do cliente
+ */
+function resolveTax(tax: TaxInput | undefined, wallets: Omit<Wallet, 'client'>[]): TaxParams | undefined {
+    if (!tax) {
+        return undefined;
+    }
+
+    return {
+        allocations: tax.allocations ?? TaxService.allocationsFromWallets(wallets),
+        ...(tax.initialHoldingMonths !== undefined && { initialHoldingMonths: tax.initialHoldingMonths })
+    };
+}
+
+/**
+ * Aposentadoria informada na requisição, a partir da idade atual do cliente
+ */
+function resolveRetirement(retirement: RetirementInput | undefined, currentAge: number): RetirementPlan | undefined {
+    return retirement && { ...retirement, currentAge };
+}
+
+/**
+ * Premissas por classe de ativo da carteira: as da requisição, depois as da organização
+ */
+function portfolioAssumptions(portfolio: PortfolioInput, market: CapitalMarketAssumptions) {
+    return [...(portfolio.assumptions ?? []), ...market.assetClasses];
+}
+
+/**
+ * Erro da carteira informada na requisição: cliente sem carteira cadastrada ou classes de ativo
+ * sem premissas de mercado (nem na tabela padrão, nem nas informadas)
+ */
+function portfolioError(portfolio: PortfolioInput | undefined, wallets: Omit<Wallet, 'client'>[], market: CapitalMarketAssumptions): string | undefined {
+    if (!portfolio) {
+        return undefined;
+    }
+
+    if (wallets.length === 0) {
+        return 'Cliente não possui carteira cadastrada';
+    }
+
+    const unknownAssetClasses = CapitalMarketService.unknownAssetClasses(wallets, portfolioAssumptions(portfolio, market));
+    return unknownAssetClasses.length > 0
+        ? `Classes de ativo sem premissas de mercado: ${unknownAssetClasses.join(', ')}`
+        : undefined;
+}
+
+/**
+ * Carteira da projeção pela alocação atual e planejada das carteiras do cliente, com as
+ * correlações da organização entre as classes presentes
+ */
+function resolvePortfolio(portfolio: PortfolioInput | undefined, wallets: Omit<Wallet, 'client'>[], market: CapitalMarketAssumptions): PortfolioParams | undefined {
+    if (!portfolio) {
+        return undefined;
+    }
+
+    const allocations = CapitalMarketService.allocationsFromWallets(wallets, portfolioAssumptions(portfolio, market));
+    const correlations = CapitalMarketService.correlationsFor(allocations, market.correlations);
+
+    return {
+        allocations,
+        rebalanceFrequency: portfolio.rebalanceFrequency,
+        ...(correlations.length > 0 && { correlations })
+    };
+}
+
+/**
+ * Parâmetros da simulação salva para recálculo com os dados atuais do cliente: a aposentadoria
+ * parte da idade atual, e não da idade gravada quando a simulação foi salva
+ */
+function currentSimulationInput(simulation: Omit<Simulation, 'client'>, currentAge: number): ScenarioInput {
+    const input = simulationInput(simulation);
+    return { ...input, retirement: resolveRetirement(input.retirement, currentAge) };
+}
+
+/**
+ * Executa a projeção determinística ou, quando configurado, a simulação
+ * de Monte Carlo (retorno esperado padrão = taxa de juros informada)
+ */
+function buildProjection(params: WealthProjectionParams, monteCarlo?: MonteCarloInput) {
+    if (!monteCarlo) {
+        return {
+            projectionData: WealthProjectionService.simulateWealthCurve(params),
+            monteCarlo: null
+        };
+    }
+
+    const config: MonteCarloConfig = {
+        ...monteCarlo,
+        expectedReturn: monteCarlo.expectedReturn ?? params.interestRate
+    };
+
+    const result = WealthProjectionService.simulateMonteCarlo({ ...params, ...config });
+
+    return {
+        projectionData: result.projectionData,
+        monteCarlo: {
+            ...config,
+            seed: result.seed,
+            simulations: result.simulations,
+            successProbability: result.successProbability
+        }
+    };
+}
+
+/**
+ * Valor tipado (configurações, curva, snapshot) para gravação em coluna Json;
+ * null e undefined deixam a coluna vazia
+ */
+function toJson<T extends object>(value: T): Prisma.InputJsonValue;
+function toJson<T extends object>(value: T | null | undefined): Prisma.InputJsonValue | undefined;
+function toJson<T extends object>(value: T | null | undefined): Prisma.InputJsonValue | undefined {
+    return (value ?? undefined) as Prisma.InputJsonValue | undefined;
+}
+
+/**
+ * Parâmetros de cálculo da simulação salva: os do snapshot de entradas ou, em simulações
+ * anteriores aos snapshots, os gravados nas colunas
+ */
+function simulationInput(simulation: Omit<Simulation, 'client'>): ScenarioInput {
+    const snapshot = simulation.inputSnapshot as unknown as SimulationSnapshot | null;
+
+    if (snapshot) {
+        const { parameters } = snapshot;
+        return {
+            initialValue: parameters.initialValue,
+            interestRate: parameters.interestRate,
+            projectionYears: parameters.projectionYears,
+            inflationRate: parameters.inflationRate ?? undefined,
+            premiumFrequency: parameters.premiumFrequency ?? undefined,
+            lifeEvent: parameters.lifeEvent ?? undefined,
+            monteCarlo: (parameters.monteCarlo as MonteCarloInput | null) ?? undefined,
+            tax: parameters.tax ?? undefined,
+            retirement: parameters.retirement ?? undefined,
+            portfolio: parameters.portfolio ?? undefined,
+            assumptionsVersion: parameters.assumptionsVersion ?? undefined
+        };
+    }
+
+    return {
+        initialValue: Number(simulation.initialValue),
+        interestRate: Number(simulation.interestRate),
+        projectionYears: simulation.projectionYears,
+        inflationRate: (simulation.inflationRate as InflationRate | null) ?? undefined,
+        premiumFrequency: simulation.premiumFrequency ?? undefined,
+        monteCarlo: (simulation.monteCarloConfig as MonteCarloInput | null) ?? undefined,
+        tax: (simulation.taxConfig as unknown as TaxParams | null) ?? undefined,
+        retirement: (simulation.retirementConfig as unknown as RetirementPlan | null) ?? undefined,
+        portfolio: (simulation.portfolioConfig as unknown as PortfolioParams | null) ?? undefined,
+        assumptionsVersion: simulation.assumptionsVersion ?? undefined
+    };
+}
+
+/**
+ * Configuração de Monte Carlo do cenário: herda a da base com a mesma semente, para que a diferença
+ * reflita apenas as alterações. Um retorno esperado igual à taxa da base veio da própria taxa e
+ * acompanha a taxa do cenário quando ela é alterada
+ */
+function scenarioMonteCarlo(base: ScenarioInput, parameters: Partial<Pick<ScenarioInput, 'interestRate' | 'monteCarlo'>>): MonteCarloInput | undefined {
+    if (parameters.monteCarlo) {
+        return { ...parameters.monteCarlo, seed: parameters.monteCarlo.seed ?? base.monteCarlo?.seed };
+    }
+
+    if (!base.monteCarlo) {
+        return undefined;
+    }
+
+    const followsRate = parameters.interestRate !== undefined && base.monteCarlo.expectedReturn === base.interestRate;
+    return { ...base.monteCarlo, expectedReturn: followsRate ? undefined : base.monteCarlo.expectedReturn };
+}
+
+/**
+ * Parâmetros do motor para um cenário; os seguros entram quando há periodicidade de prêmio ou sinistro
+ */
+function scenarioParams(input: ScenarioInput, events: Event[], insurances: Omit<Insurance, 'client'>[]): WealthProjectionParams {
+    const premiumFrequency = input.premiumFrequency || input.lifeEvent ? input.premiumFrequency ?? 'MONTHLY' : null;
+
+    return {
+        initialValue: input.initialValue,
+        interestRate: input.interestRate,
+        events,
+        projectionYears: input.projectionYears,
+        inflationRate: input.inflationRate,
+        lifeEvent: input.lifeEvent,
+        tax: input.tax,
+        retirement: input.retirement,
+        portfolio: input.portfolio,
+        ...(premiumFrequency && {
+            insurances: toInsurancePolicies(insurances),
+            premiumFrequency
+        })
+    };
+}
+
+/**
+ * Projeta um cenário da comparação
+ */
+function projectScenario(input: ScenarioInput, events: Event[], insurances: Omit<Insurance, 'client'>[]) {
+    const params = scenarioParams(input, events, insurances);
+    const { projectionData, monteCarlo } = buildProjection(params, input.monteCarlo);
+
+    const parameters: ScenarioParameters = {
+        initialValue: input.initialValue,
+        interestRate: input.interestRate,
+        projectionYears: input.projectionYears,
+        inflationRate: input.inflationRate ?? null,
+        premiumFrequency: params.premiumFrequency ?? null,
+        lifeEvent: input.lifeEvent ?? null,
+        monteCarlo,
+        tax: input.tax ?? null,
+        retirement: input.retirement ?? null,
+        portfolio: input.portfolio ?? null,
+        assumptionsVersion: input.assumptionsVersion ?? null,
+        eventsCount: events.length
+    };
+
+    return { projectionData, monteCarlo, parameters };
+}
+
 export class SimulationController {
 
     static async create(request: FastifyRequest, reply: FastifyReply) {
         try {
             const data = createSimulationSchema.parse(request.body);
 
-            const client = await prisma.client.findUnique({
-                where: { id: data.clientId },
+            const client = await prisma.client.findFirst({
+                where: { id: data.clientId, ...clientScope(request) },
                 include: {
-                    events: true
+                    events: true,
+                    insurances: true,
+                    wallets: true
                 }
             });
 
@@ -52,19 +429,81 @@ export class SimulationController {
                 client: client
             }));
 
-            const projectionData = WealthProjectionService.simulateWealthCurve({
+            const tax = resolveTax(data.tax, client.wallets);
+            const retirement = resolveRetirement(data.retirement, client.age);
+
+            if (retirement && retirement.retirementAge < retirement.currentAge) {
+                return reply.status(400).send({
+                    success: false,
+                    error: RETIREMENT_AGE_ERROR
+                } as ApiResponse);
+            }
+
+            const market = await CapitalMarketService.current((request.user as AuthPayload).organizationId);
+            const portfolioIssue = portfolioError(data.portfolio, client.wallets, market);
+            if (portfolioIssue) {
+                return reply.status(400).send({
+                    success: false,
+                    error: portfolioIssue
+                } as ApiResponse);
+            }
+
+            // Com carteira, a taxa da simulação é o retorno esperado da alocação
+            const portfolio = resolvePortfolio(data.portfolio, client.wallets, market);
+            const inflationRate = data.inflationRate ?? market.inflationRate ?? undefined;
+            const interestRate = portfolio ? CapitalMarketService.expectedReturn(portfolio.allocations) : data.interestRate;
+
+            if (interestRate === undefined) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Informe a taxa de juros ou a carteira da simulação'
+                } as ApiResponse);
+            }
+
+            const { projectionData, monteCarlo } = buildProjection({
                 initialValue: data.initialValue,
-                interestRate: data.interestRate,
+                interestRate,
                 events: eventsWithClient,
-                projectionYears: data.projectionYears
-            });
+                projectionYears: data.projectionYears,
+                inflationRate,
+                tax,
+                retirement,
+                portfolio,
+                ...(data.premiumFrequency && {
+                    insurances: toInsurancePolicies(client.insurances),
+                    premiumFrequency: data.premiumFrequency
+                })
+            }, data.monteCarlo);
 
             const simulation = await prisma.simulation.create({
                 data: {
-                    ...data,
+                    clientId: data.clientId,
+                    name: data.name,
+                    projectionYears: data.projectionYears,
                     initialValue: data.initialValue.toString(),
-                    interestRate: data.interestRate.toString(),
-                    projectionData: projectionData as any
+                    interestRate: interestRate.toString(),
+                    projectionData: toJson(projectionData),
+                    monteCarloConfig: monteCarlo ?? undefined,
+                    inflationRate,
+                    premiumFrequency: data.premiumFrequency,
+                    taxConfig: toJson(tax),
+                    retirementConfig: toJson(retirement),
+                    portfolioConfig: toJson(portfolio),
+                    assumptionsVersion: market.version,
+                    inputSnapshot: toJson(SimulationSnapshotService.capture({
+                        initialValue: data.initialValue,
+                        interestRate,
+                        projectionYears: data.projectionYears,
+                        inflationRate: inflationRate ?? null,
+                        premiumFrequency: data.premiumFrequency ?? null,
+                        lifeEvent: null,
+                        monteCarlo,
+                        tax: tax ?? null,
+                        retirement: retirement ?? null,
+                        portfolio: portfolio ?? null,
+                        assumptionsVersion: market.version
+                    }, client.events, client.insurances)),
+                    engineVersion: ENGINE_VERSION
                 },
                 include: {
                     client: true
@@ -98,7 +537,7 @@ export class SimulationController {
         try {
             const filters = simulationFiltersSchema.parse(request.query);
 
-            const where: any = {};
+            const where: any = { client: clientScope(request) };
             if (filters.clientId) {
                 where.clientId = filters.clientId;
             }
@@ -149,8 +588,8 @@ export class SimulationController {
         try {
             const { id } = request.params as { id: string };
 
-            const simulation = await prisma.simulation.findUnique({
-                where: { id },
+            const simulation = await prisma.simulation.findFirst({
+                where: { id, client: clientScope(request) },
                 include: {
                     client: true
                 }
@@ -182,12 +621,14 @@ export class SimulationController {
             const { id } = request.params as { id: string };
             const data = updateSimulationSchema.parse(request.body);
 
-            const existingSimulation = await prisma.simulation.findUnique({
-                where: { id },
+            const existingSimulation = await prisma.simulation.findFirst({
+                where: { id, client: clientScope(request) },
                 include: {
                     client: {
                         include: {
-                            events: true
+                            events: true,
+                            insurances: true,
+                            wallets: true
                         }
                     }
                 }
@@ -201,11 +642,47 @@ export class SimulationController {
             }
 
             let projectionData = existingSimulation.projectionData;
+            let monteCarloConfig = existingSimulation.monteCarloConfig as MonteCarloInput | null;
+            let inputSnapshot: SimulationSnapshot | null = null;
+            const tax = resolveTax(data.tax, existingSimulation.client.wallets)
+                ?? (existingSimulation.taxConfig as unknown as TaxParams | null) ?? undefined;
+            const retirement = resolveRetirement(data.retirement, existingSimulation.client.age)
+                ?? (existingSimulation.retirementConfig as unknown as RetirementPlan | null) ?? undefined;
+
+            if (data.retirement && retirement && retirement.retirementAge < retirement.currentAge) {
+                return reply.status(400).send({
+                    success: false,
+                    error: RETIREMENT_AGE_ERROR
+                } as ApiResponse);
+            }
+
+            const market = await CapitalMarketService.current((request.user as AuthPayload).organizationId);
+            const portfolioIssue = portfolioError(data.portfolio, existingSimulation.client.wallets, market);
+            if (portfolioIssue) {
+                return reply.status(400).send({
+                    success: false,
+                    error: portfolioIssue
+                } as ApiResponse);
+            }
+
+            // Uma nova carteira é precificada pelas premissas vigentes; a anterior mantém sua versão
+            const portfolio = resolvePortfolio(data.portfolio, existingSimulation.client.wallets, market)
+                ?? (existingSimulation.portfolioConfig as unknown as PortfolioParams | null) ?? undefined;
+            const assumptionsVersion = data.portfolio ? market.version : existingSimulation.assumptionsVersion;
+            const newInterestRate = portfolio
+                ? CapitalMarketService.expectedReturn(portfolio.allocations)
+                : data.interestRate ?? Number(existingSimulation.interestRate);
 
-            if (data.initialValue || data.interestRate || data.projectionYears) {
-                const newInitialValue = data.initialValue || Number(existingSimulation.initialValue);
-                const newInterestRate = data.interestRate || Number(existingSimulation.interestRate);
-                const newProjectionYears = data.projectionYears || existingSimulation.projectionYears;
+            if (data.initialValue !== undefined || data.interestRate !== undefined || data.projectionYears !== undefined || data.monteCarlo !== undefined || data.inflationRate !== undefined || data.premiumFrequency || data.tax || data.retirement || data.portfolio) {
+                const newInitialValue = data.initialValue ?? Number(existingSimulation.initialValue);
+                const newProjectionYears = data.projectionYears ?? existingSimulation.projectionYears;
+                const premiumFrequency = data.premiumFrequency ?? existingSimulation.premiumFrequency;
+                const inflationRate = data.inflationRate === null
+                    ? undefined
+                    : data.inflationRate ?? (existingSimulation.inflationRate as InflationRate | null) ?? undefined;
+                const monteCarlo = data.monteCarlo === null
+                    ? undefined
+                    : data.monteCarlo ?? monteCarloConfig ?? undefined;
 
 
                 const eventsWithClient = existingSimulation.client.events.map(event => ({
@@ -213,18 +690,58 @@ export class SimulationController {
                     client: existingSimulation.client
                 }));
 
-                projectionData = WealthProjectionService.simulateWealthCurve({
+                const projection = buildProjection({
                     initialValue: newInitialValue,
                     interestRate: newInterestRate,
                     events: eventsWithClient,
-                    projectionYears: newProjectionYears
-                }) as any;
+                    projectionYears: newProjectionYears,
+                    inflationRate,
+                    tax,
+                    retirement,
+                    portfolio,
+                    ...(premiumFrequency && {
+                        insurances: toInsurancePolicies(existingSimulation.client.insurances),
+                        premiumFrequency
+                    })
+                }, monteCarlo);
+
+                projectionData = projection.projectionData as any;
+                monteCarloConfig = projection.monteCarlo;
+                inputSnapshot = SimulationSnapshotService.capture({
+                    initialValue: newInitialValue,
+                    interestRate: newInterestRate,
+                    projectionYears: newProjectionYears,
+                    inflationRate: inflationRate ?? null,
+                    premiumFrequency: premiumFrequency ?? null,
+                    lifeEvent: null,
+                    monteCarlo: projection.monteCarlo,
+                    tax: tax ?? null,
+                    retirement: retirement ?? null,
+                    portfolio: portfolio ?? null,
+                    assumptionsVersion
+                }, existingSimulation.client.events, existingSimulation.client.insurances);
             }
 
             const updateData: any = { ...data };
-            if (data.initialValue) updateData.initialValue = data.initialValue.toString();
-            if (data.interestRate) updateData.interestRate = data.interestRate.toString();
+            delete updateData.monteCarlo;
+            delete updateData.tax;
+            delete updateData.retirement;
+            delete updateData.portfolio;
+            if (data.tax) updateData.taxConfig = tax;
+            if (data.retirement) updateData.retirementConfig = retirement;
+            if (data.portfolio) {
+                updateData.portfolioConfig = portfolio;
+                updateData.assumptionsVersion = assumptionsVersion;
+            }
+            if (data.initialValue !== undefined) updateData.initialValue = data.initialValue.toString();
+            if (data.interestRate !== undefined || data.portfolio) updateData.interestRate = newInterestRate.toString();
+            if (data.inflationRate === null) updateData.inflationRate = Prisma.DbNull;
             updateData.projectionData = projectionData;
+            updateData.monteCarloConfig = data.monteCarlo === null ? Prisma.DbNull : monteCarloConfig ?? undefined;
+            if (inputSnapshot) {
+                updateData.inputSnapshot = inputSnapshot;
+                updateData.engineVersion = ENGINE_VERSION;
+            }
 
             const simulation = await prisma.simulation.update({
                 where: { id },
@@ -257,12 +774,114 @@ export class SimulationController {
         }
     }
 
+    /**
+     * Recalcula a simulação com os eventos e seguros atuais do cliente e a versão atual do motor,
+     * mantendo os parâmetros e a semente originais. O resultado é gravado como nova versão
+     * (a original não é alterada), junto com o que mudou nas entradas e na curva
+     */
+    static async recompute(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const existingSimulation = await prisma.simulation.findFirst({
+                where: { id, client: clientScope(request) },
+                include: {
+                    client: {
+                        include: {
+                            events: true,
+                            insurances: true
+                        }
+                    }
+                }
+            });
+
+            if (!existingSimulation) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Simulação não encontrada'
+                } as ApiResponse);
+            }
+
+            const { client } = existingSimulation;
+            const eventsWithClient = client.events.map(event => ({
+                ...event,
+                client: client
+            }));
+
+            const run = projectScenario(currentSimulationInput(existingSimulation, client.age), eventsWithClient, client.insurances);
+            const inputSnapshot = SimulationSnapshotService.capture(run.parameters, client.events, client.insurances);
+            const previousSnapshot = existingSimulation.inputSnapshot as unknown as SimulationSnapshot | null;
+
+            const simulation = await prisma.simulation.create({
+                data: {
+                    clientId: existingSimulation.clientId,
+                    name: existingSimulation.name,
+                    projectionYears: run.parameters.projectionYears,
+                    initialValue: run.parameters.initialValue.toString(),
+                    interestRate: run.parameters.interestRate.toString(),
+                    projectionData: toJson(run.projectionData),
+                    monteCarloConfig: run.monteCarlo ?? undefined,
+                    inflationRate: run.parameters.inflationRate ?? undefined,
+                    premiumFrequency: run.parameters.premiumFrequency ?? undefined,
+                    taxConfig: toJson(run.parameters.tax),
+                    retirementConfig: toJson(run.parameters.retirement),
+                    portfolioConfig: toJson(run.parameters.portfolio),
+                    assumptionsVersion: run.parameters.assumptionsVersion,
+                    inputSnapshot: toJson(inputSnapshot),
+                    engineVersion: ENGINE_VERSION,
+                    version: existingSimulation.version + 1,
+                    parentId: existingSimulation.id
+                },
+                include: {
+                    client: true
+                }
+            });
+
+            const comparison = ScenarioService.compare(
+                {
+                    name: existingSimulation.name,
+                    simulationId: existingSimulation.id,
+                    parameters: run.parameters,
+                    projectionData: existingSimulation.projectionData as unknown as ProjectionPoint[]
+                },
+                [{ name: simulation.name, simulationId: simulation.id, ...run }]
+            );
+            const [recomputed] = comparison.scenarios;
+
+            return reply.status(201).send({
+                success: true,
+                data: {
+                    simulation,
+                    // Simulações anteriores aos snapshots não permitem comparar as entradas
+                    changes: previousSnapshot
+                        ? SimulationSnapshotService.diff(previousSnapshot, inputSnapshot, existingSimulation.engineVersion)
+                        : null,
+                    metrics: {
+                        previous: comparison.base.metrics,
+                        current: recomputed.metrics,
+                        delta: recomputed.metricsDelta
+                    },
+                    years: comparison.years,
+                    deltas: recomputed.deltas
+                },
+                message: 'Simulação recalculada com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao recalcular simulação:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
     static async delete(request: FastifyRequest, reply: FastifyReply) {
         try {
             const { id } = request.params as { id: string };
 
-            const simulation = await prisma.simulation.findUnique({
-                where: { id }
+            const simulation = await prisma.simulation.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!simulation) {
@@ -294,8 +913,8 @@ export class SimulationController {
         try {
             const { clientId } = request.params as { clientId: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id: clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -333,10 +952,12 @@ export class SimulationController {
         try {
             const data = projectionRequestSchema.parse(request.body);
 
-            const client = await prisma.client.findUnique({
-                where: { id: data.clientId },
+            const client = await prisma.client.findFirst({
+                where: { id: data.clientId, ...clientScope(request) },
                 include: {
-                    events: true
+                    events: true,
+                    insurances: true,
+                    wallets: true
                 }
             });
 
@@ -347,26 +968,83 @@ export class SimulationController {
                 } as ApiResponse);
             }
 
+            const currentYear = new Date().getFullYear();
+            if (data.lifeEvent && (data.lifeEvent.year < currentYear || data.lifeEvent.year > currentYear + data.projectionYears)) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Ano do cenário deve estar dentro do horizonte da projeção'
+                } as ApiResponse);
+            }
+
+            const retirement = resolveRetirement(data.retirement, client.age);
+            if (retirement && retirement.retirementAge < retirement.currentAge) {
+                return reply.status(400).send({
+                    success: false,
+                    error: RETIREMENT_AGE_ERROR
+                } as ApiResponse);
+            }
+
+            const market = await CapitalMarketService.current((request.user as AuthPayload).organizationId);
+            const portfolioIssue = portfolioError(data.portfolio, client.wallets, market);
+            if (portfolioIssue) {
+                return reply.status(400).send({
+                    success: false,
+                    error: portfolioIssue
+                } as ApiResponse);
+            }
+
             const eventsWithClient = client.events.map(event => ({
                 ...event,
                 client: client
             }));
 
-            const projectionData = WealthProjectionService.simulateWealthCurve({
+            const includeInsurances = Boolean(data.premiumFrequency || data.lifeEvent);
+            const portfolio = resolvePortfolio(data.portfolio, client.wallets, market);
+
+            // Sem taxa nem carteira, valem o retorno e a inflação das premissas da organização
+            const projectionParams: WealthProjectionParams = {
                 initialValue: data.initialValue,
-                interestRate: data.interestRate,
+                interestRate: portfolio ? CapitalMarketService.expectedReturn(portfolio.allocations) : data.interestRate ?? market.defaultReturn,
                 events: eventsWithClient,
-                projectionYears: data.projectionYears
-            });
+                projectionYears: data.projectionYears,
+                inflationRate: data.inflationRate ?? market.inflationRate ?? undefined,
+                tax: resolveTax(data.tax, client.wallets),
+                retirement,
+                portfolio,
+                ...(includeInsurances && {
+                    insurances: toInsurancePolicies(client.insurances),
+                    premiumFrequency: data.premiumFrequency ?? 'MONTHLY'
+                })
+            };
+
+            const { projectionData, monteCarlo } = buildProjection(projectionParams, data.monteCarlo);
+
+            // Mesma semente do cenário base para que a diferença reflita apenas o sinistro
+            const scenarioProjectionData = data.lifeEvent
+                ? buildProjection(
+                    { ...projectionParams, lifeEvent: data.lifeEvent },
+                    data.monteCarlo && monteCarlo ? { ...data.monteCarlo, seed: monteCarlo.seed } : undefined
+                ).projectionData
+                : null;
 
             return reply.send({
                 success: true,
                 data: {
                     projectionData,
+                    scenarioProjectionData,
+                    monteCarlo,
+                    retirement: retirement ? DecumulationService.analyze({ ...projectionParams, retirement }) : null,
                     parameters: {
                         initialValue: data.initialValue,
-                        interestRate: data.interestRate,
+                        interestRate: projectionParams.interestRate,
                         projectionYears: data.projectionYears,
+                        inflationRate: projectionParams.inflationRate,
+                        premiumFrequency: includeInsurances ? projectionParams.premiumFrequency : null,
+                        lifeEvent: data.lifeEvent ?? null,
+                        tax: projectionParams.tax ?? null,
+                        retirement: retirement ?? null,
+                        portfolio: portfolio ?? null,
+                        assumptionsVersion: market.version,
                         eventsCount: client.events.length
                     }
                 }
@@ -388,5 +1066,304 @@ export class SimulationController {
             } as ApiResponse);
         }
     }
-}
 
+    /**
+     * Compara uma simulação base com cenários alternativos (parâmetros e eventos alterados)
+     * A base é recalculada com os eventos atuais do cliente, de modo que as diferenças reflitam
+     * apenas as alterações; os cenários só são salvos como simulações quando persist = true
+     */
+    static async compare(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = compareSimulationsSchema.parse(request.body);
+
+            if (data.persist && !WRITE_ROLES.includes((request.user as AuthPayload).role)) {
+                return reply.status(403).send({
+                    success: false,
+                    error: 'Permissão insuficiente'
+                } as ApiResponse);
+            }
+
+            const baseSimulation = await prisma.simulation.findFirst({
+                where: { id: data.baseSimulationId, client: clientScope(request) },
+                include: {
+                    client: {
+                        include: {
+                            events: true,
+                            insurances: true,
+                            wallets: true
+                        }
+                    }
+                }
+            });
+
+            if (!baseSimulation) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Simulação não encontrada'
+                } as ApiResponse);
+            }
+
+            const { client } = baseSimulation;
+            const eventsWithClient = client.events.map(event => ({
+                ...event,
+                client: client
+            }));
+
+            const unknownEventIds = [...new Set(data.scenarios.flatMap(scenario =>
+                scenario.events ? ScenarioService.unknownEventIds(eventsWithClient, scenario.events) : []
+            ))];
+
+            if (unknownEventIds.length > 0) {
+                return reply.status(400).send({
+                    success: false,
+                    error: `Eventos não encontrados: ${unknownEventIds.join(', ')}`
+                } as ApiResponse);
+            }
+
+            const baseInput = currentSimulationInput(baseSimulation, client.age);
+            const market = await CapitalMarketService.current((request.user as AuthPayload).organizationId);
+
+            const invalidPortfolio = data.scenarios.find(scenario => portfolioError(scenario.parameters.portfolio, client.wallets, market));
+
+            if (invalidPortfolio) {
+                return reply.status(400).send({
+                    success: false,
+                    error: `Cenário "${invalidPortfolio.name}": ${portfolioError(invalidPortfolio.parameters.portfolio, client.wallets, market)}`
+                } as ApiResponse);
+            }
+
+            const scenarioInputs = data.scenarios.map(scenario => {
+                const portfolio = resolvePortfolio(scenario.parameters.portfolio, client.wallets, market) ?? baseInput.portfolio;
+
+                return {
+                    ...baseInput,
+                    ...scenario.parameters,
+                    interestRate: portfolio
+                        ? CapitalMarketService.expectedReturn(portfolio.allocations)
+                        : scenario.parameters.interestRate ?? baseInput.interestRate,
+                    monteCarlo: scenarioMonteCarlo(baseInput, scenario.parameters),
+                    tax: resolveTax(scenario.parameters.tax, client.wallets) ?? baseInput.tax,
+                    retirement: resolveRetirement(scenario.parameters.retirement, client.age) ?? baseInput.retirement,
+                    portfolio,
+                    assumptionsVersion: scenario.parameters.portfolio ? market.version ?? undefined : baseInput.assumptionsVersion
+                };
+            });
+
+            const currentYear = new Date().getFullYear();
+            const outOfHorizon = data.scenarios.find((scenario, index) => {
+                const { lifeEvent, projectionYears } = scenarioInputs[index];
+                return lifeEvent && (lifeEvent.year < currentYear || lifeEvent.year > currentYear + projectionYears);
+            });
+
+            if (outOfHorizon) {
+                return reply.status(400).send({
+                    success: false,
+                    error: `Cenário "${outOfHorizon.name}": ano do cenário deve estar dentro do horizonte da projeção`
+                } as ApiResponse);
+            }
+
+            const earlyRetirement = data.scenarios.find((scenario, index) => {
+                const { retirement } = scenarioInputs[index];
+                return scenario.parameters.retirement && retirement && retirement.retirementAge < retirement.currentAge;
+            });
+
+            if (earlyRetirement) {
+                return reply.status(400).send({
+                    success: false,
+                    error: `Cenário "${earlyRetirement.name}": idade de aposentadoria deve ser maior ou igual à idade atual do cliente`
+                } as ApiResponse);
+            }
+
+            const base = projectScenario(baseInput, eventsWithClient, client.insurances);
+            const runs = scenarioInputs.map((input, index) => {
+                const events = ScenarioService.applyEventOverrides(eventsWithClient, data.scenarios[index].events, client);
+                return { ...projectScenario(input, events, client.insurances), events };
+            });
+
+            const saved = data.persist
+                ? await prisma.$transaction(runs.map((run, index) => prisma.simulation.create({
+                    data: {
+                        clientId: baseSimulation.clientId,
+                        name: data.scenarios[index].name,
+                        projectionYears: run.parameters.projectionYears,
+                        initialValue: run.parameters.initialValue.toString(),
+                        interestRate: run.parameters.interestRate.toString(),
+                        projectionData: toJson(run.projectionData),
+                        monteCarloConfig: run.monteCarlo ?? undefined,
+                        inflationRate: run.parameters.inflationRate ?? undefined,
+                        premiumFrequency: run.parameters.premiumFrequency ?? undefined,
+                        taxConfig: toJson(run.parameters.tax),
+                        retirementConfig: toJson(run.parameters.retirement),
+                        portfolioConfig: toJson(run.parameters.portfolio),
+                        assumptionsVersion: run.parameters.assumptionsVersion,
+                        inputSnapshot: toJson(SimulationSnapshotService.capture(run.parameters, run.events, client.insurances)),
+                        engineVersion: ENGINE_VERSION
+                    }
+                })))
+                : [];
+
+            const comparison = ScenarioService.compare(
+                { name: baseSimulation.name, simulationId: baseSimulation.id, ...base },
+                runs.map((run, index) => ({
+                    name: data.scenarios[index].name,
+                    simulationId: saved[index]?.id ?? null,
+                    ...run
+                }))
+            );
+
+            return reply.send({
+                success: true,
+                data: comparison,
+                ...(data.persist && { message: 'Cenários salvos com sucesso' })
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao comparar cenários:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async getMetrics(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const simulation = await prisma.simulation.findFirst({
+                where: { id, client: clientScope(request) },
+                include: {
+                    client: {
+                        include: {
+                            wallets: true,
+                            goals: true,
+                            events: true,
+                            insurances: true
+                        }
+                    }
+                }
+            });
+
+            if (!simulation) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Simulação não encontrada'
+                } as ApiResponse);
+            }
+
+            const projectionData = simulation.projectionData as unknown as ProjectionPoint[];
+            const metrics = WealthProjectionService.calculatePortfolioMetrics(
+                projectionData,
+                Number(simulation.initialValue)
+            );
+
+            const { client } = simulation;
+
+            const currentPatrimony = client.wallets.reduce((sum, wallet) =>
+                sum + Number(wallet.currentValue), 0
+            );
+
+            const eventsWithClient = client.events.map(event => ({
+                ...event,
+                client: client
+            }));
+
+            const goals = client.goals.map(goal => {
+                const point = projectionData.find(p => p.year === goal.targetDate.getFullYear())
+                    ?? projectionData[projectionData.length - 1];
+                const projectedValue = point ? point.projectedValue : 0;
+
+                return {
+                    goalId: goal.id,
+                    description: goal.description,
+                    targetValue: Number(goal.targetValue),
+                    targetDate: goal.targetDate,
+                    projectedValue,
+                    reached: projectedValue >= Number(goal.targetValue)
+                };
+            });
+
+            // Análise da aposentadoria recalculada com os eventos atuais, como no recálculo da simulação
+            const input = currentSimulationInput(simulation, client.age);
+            const retirement = input.retirement
+                ? DecumulationService.analyze({
+                    ...scenarioParams(input, eventsWithClient, client.insurances),
+                    retirement: input.retirement
+                })
+                : null;
+
+            return reply.send({
+                success: true,
+                data: {
+                    simulationId: simulation.id,
+                    metrics,
+                    currentPatrimony,
+                    cashFlow: WealthProjectionService.getMonthlyCashFlow(eventsWithClient),
+                    goals,
+                    retirement
+                }
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao calcular métricas da simulação:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    /**
+     * Exporta a curva ano a ano da simulação em CSV ou XLSX
+     */
+    static async exportProjection(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+            const options = exportQuerySchema.parse(request.query);
+
+            const simulation = await prisma.simulation.findFirst({
+                where: { id, client: clientScope(request) }
+            });
+
+            if (!simulation) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Simulação não encontrada'
+                } as ApiResponse);
+            }
+
+            const file = ExportService.render(
+                ExportService.simulationCurve(simulation.projectionData as unknown as ProjectionPoint[]),
+                options
+            );
+
+            return reply
+                .header('Content-Type', file.contentType)
+                .header('Content-Disposition', `attachment; filename="simulacao-${simulation.id}.${file.extension}"`)
+                .send(file.body);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao exportar simulação:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+}
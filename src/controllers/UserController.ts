@@ -0,0 +1,142 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../models';
+import { ApiResponse, AuthPayload } from '../types';
+import { organizationScope } from '../utils/access';
+import { SessionService } from '../services/SessionService';
+import { LoginThrottleService } from '../services/LoginThrottleService';
+
+const createUserSchema = z.object({
+    email: z.string().email('Email inválido'),
+    password: z.string().min(6, 'Senha deve ter pelo menos 6 caracteres'),
+    name: z.string().min(1, 'Nome é obrigatório'),
+    role: z.enum(['ADVISOR', 'VIEWER']).optional().default('VIEWER')
+});
+
+export class UserController {
+
+    /**
+     * Cadastra um usuário na organização do administrador autenticado
+     * Não há cadastro público: a organização nunca vem do corpo da requisição
+     */
+    static async create(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const data = createUserSchema.parse(request.body);
+            const { organizationId } = request.user as AuthPayload;
+
+            const existingUser = await prisma.user.findUnique({
+                where: {
+                    organizationId_email: {
+                        organizationId,
+                        email: data.email
+                    }
+                }
+            });
+
+            if (existingUser) {
+                return reply.status(409).send({
+                    success: false,
+                    error: 'Email já registrado'
+                } as ApiResponse);
+            }
+
+            const hashedPassword = await bcrypt.hash(data.password, 10);
+            const user = await prisma.user.create({
+                data: {
+                    organizationId,
+                    email: data.email,
+                    password: hashedPassword,
+                    name: data.name,
+                    role: data.role
+                },
+                select: { id: true, organizationId: true, email: true, role: true, name: true }
+            });
+
+            return reply.status(201).send({
+                success: true,
+                data: user,
+                message: 'Usuário cadastrado com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Dados inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+            console.error('Erro ao cadastrar usuário:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async revokeSessions(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await prisma.user.findFirst({
+                where: { id, ...organizationScope(request) }
+            });
+
+            if (!user) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Usuário não encontrado'
+                } as ApiResponse);
+            }
+
+            const revokedSessions = await SessionService.revokeAllForUser(user.id);
+
+            return reply.send({
+                success: true,
+                data: { userId: user.id, revokedSessions },
+                message: 'Sessões revogadas com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao revogar sessões:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+    static async unlock(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { id } = request.params as { id: string };
+
+            const user = await prisma.user.findFirst({
+                where: { id, ...organizationScope(request) }
+            });
+
+            if (!user) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Usuário não encontrado'
+                } as ApiResponse);
+            }
+
+            await LoginThrottleService.unlock(user.id);
+
+            return reply.send({
+                success: true,
+                data: { userId: user.id },
+                message: 'Conta desbloqueada com sucesso'
+            } as ApiResponse);
+
+        } catch (error) {
+            console.error('Erro ao desbloquear usuário:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
+
+}
\ No newline at end of file
@@ -1,9 +1,12 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { prisma } from '../models';
-import { ApiResponse } from '../types';
+import { AuditService } from '../services/AuditService';
+import { ExportService, exportQuerySchema } from '../services/ExportService';
+import { clientScope } from '../utils/access';
+import { ApiResponse, AuthPayload } from '../types';
 
-const createWalletSchema = z.object({
+export const createWalletSchema = z.object({
     clientId: z.string().cuid('ID do cliente inválido'),
     assetClass: z.string().min(2, 'Classe de ativo deve ter pelo menos 2 caracteres'),
     percentage: z.number().min(0).max(100, 'Percentual deve estar entre 0 e 100'),
@@ -27,8 +30,8 @@ export class WalletController {
         try {
             const data = createWalletSchema.parse(request.body);
 
-            const client = await prisma.client.findUnique({
-                where: { id: data.clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: data.clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -52,17 +55,29 @@ export class WalletController {
                 } as ApiResponse);
             }
 
-            const wallet = await prisma.wallet.create({
-                data: {
-                    ...data,
-                    percentage: data.percentage.toString(),
-                    currentValue: data.currentValue.toString(),
-                    totalPatrimony: data.totalPatrimony.toString(),
-                    alignmentPercent: data.alignmentPercent.toString()
-                },
-                include: {
-                    client: true
-                }
+            const wallet = await prisma.$transaction(async (tx) => {
+                const created = await tx.wallet.create({
+                    data: {
+                        ...data,
+                        percentage: data.percentage.toString(),
+                        currentValue: data.currentValue.toString(),
+                        totalPatrimony: data.totalPatrimony.toString(),
+                        alignmentPercent: data.alignmentPercent.toString()
+                    },
+                    include: {
+                        client: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'WALLET',
+                    entityId: created.id,
+                    clientId: created.clientId,
+                    action: 'CREATE',
+                    after: created
+                });
+
+                return created;
             });
 
             return reply.status(201).send({
@@ -92,7 +107,7 @@ export class WalletController {
         try {
             const filters = walletFiltersSchema.parse(request.query);
 
-            const where: any = {};
+            const where: any = { client: clientScope(request) };
             if (filters.clientId) {
                 where.clientId = filters.clientId;
             }
@@ -146,8 +161,8 @@ export class WalletController {
         try {
             const { id } = request.params as { id: string };
 
-            const wallet = await prisma.wallet.findUnique({
-                where: { id },
+            const wallet = await prisma.wallet.findFirst({
+                where: { id, client: clientScope(request) },
                 include: {
                     client: true
                 }
@@ -179,8 +194,8 @@ export class WalletController {
             const { id } = request.params as { id: string };
             const data = updateWalletSchema.parse(request.body);
 
-            const existingWallet = await prisma.wallet.findUnique({
-                where: { id }
+            const existingWallet = await prisma.wallet.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!existingWallet) {
@@ -213,12 +228,25 @@ export class WalletController {
             if (data.totalPatrimony) updateData.totalPatrimony = data.totalPatrimony.toString();
             if (data.alignmentPercent) updateData.alignmentPercent = data.alignmentPercent.toString();
 
-            const wallet = await prisma.wallet.update({
-                where: { id },
-                data: updateData,
-                include: {
-                    client: true
-                }
+            const wallet = await prisma.$transaction(async (tx) => {
+                const updated = await tx.wallet.update({
+                    where: { id },
+                    data: updateData,
+                    include: {
+                        client: true
+                    }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'WALLET',
+                    entityId: updated.id,
+                    clientId: updated.clientId,
+                    action: 'UPDATE',
+                    before: existingWallet,
+                    after: updated
+                });
+
+                return updated;
             });
 
             return reply.send({
@@ -248,8 +276,8 @@ export class WalletController {
         try {
             const { id } = request.params as { id: string };
 
-            const wallet = await prisma.wallet.findUnique({
-                where: { id }
+            const wallet = await prisma.wallet.findFirst({
+                where: { id, client: clientScope(request) }
             });
 
             if (!wallet) {
@@ -259,8 +287,18 @@ export class WalletController {
                 } as ApiResponse);
             }
 
-            await prisma.wallet.delete({
-                where: { id }
+            await prisma.$transaction(async (tx) => {
+                await tx.wallet.delete({
+                    where: { id }
+                });
+
+                await AuditService.record(tx, request.user as AuthPayload, {
+                    entity: 'WALLET',
+                    entityId: wallet.id,
+                    clientId: wallet.clientId,
+                    action: 'DELETE',
+                    before: wallet
+                });
             });
 
             return reply.send({
@@ -281,8 +319,8 @@ export class WalletController {
         try {
             const { clientId } = request.params as { clientId: string };
 
-            const client = await prisma.client.findUnique({
-                where: { id: clientId }
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
             });
 
             if (!client) {
@@ -335,5 +373,55 @@ export class WalletController {
             } as ApiResponse);
         }
     }
+
+    /**
+     * Exporta a alocação da carteira do cliente em CSV ou XLSX
+     */
+    static async exportByClient(request: FastifyRequest, reply: FastifyReply) {
+        try {
+            const { clientId } = request.params as { clientId: string };
+            const options = exportQuerySchema.parse(request.query);
+
+            const client = await prisma.client.findFirst({
+                where: { id: clientId, ...clientScope(request) }
+            });
+
+            if (!client) {
+                return reply.status(404).send({
+                    success: false,
+                    error: 'Cliente não encontrado'
+                } as ApiResponse);
+            }
+
+            const wallets = await prisma.wallet.findMany({
+                where: { clientId },
+                orderBy: {
+                    percentage: 'desc'
+                }
+            });
+
+            const file = ExportService.render(ExportService.walletAllocation(wallets), options);
+
+            return reply
+                .header('Content-Type', file.contentType)
+                .header('Content-Disposition', `attachment; filename="carteira-${clientId}.${file.extension}"`)
+                .send(file.body);
+
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                return reply.status(400).send({
+                    success: false,
+                    error: 'Parâmetros inválidos',
+                    data: error.message
+                } as ApiResponse);
+            }
+
+            console.error('Erro ao exportar carteira do cliente:', error);
+            return reply.status(500).send({
+                success: false,
+                error: 'Erro interno do servidor'
+            } as ApiResponse);
+        }
+    }
 }
 
@@ -1,10 +1,14 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { AuthPayload } from '../types';
+import { SessionService } from '../services/SessionService';
 
 declare module '@fastify/jwt' {
     interface FastifyRequestUser extends AuthPayload {}
 }
 
+export const ADMIN_ROLE = 'ADMIN';
+export const WRITE_ROLES = [ADMIN_ROLE, 'ADVISOR'];
+
 export async function authMiddleware(request: FastifyRequest, reply: FastifyReply) {
     try {
         const authHeader = request.headers.authorization;
@@ -15,10 +19,15 @@ export async function authMiddleware(request: FastifyRequest, reply: FastifyRepl
             });
         }
 
-        const token = authHeader.substring(7);
-
         const decoded = await request.jwtVerify<AuthPayload>();
 
+        if (!decoded.organizationId || !decoded.sessionId || !(await SessionService.isActive(decoded.sessionId))) {
+            return reply.status(401).send({
+                success: false,
+                error: 'Token inválido ou expirado'
+            });
+        }
+
         request.user = decoded;
 
     } catch (error) {
@@ -64,3 +73,29 @@ export function requireRole(roles: string[]) {
     };
 }
 
+export const requireWriteAccess = requireRole(WRITE_ROLES);
+export const requireAdmin = requireRole([ADMIN_ROLE]);
+
+export async function requireMfa(request: FastifyRequest, reply: FastifyReply) {
+    const user = request.user as AuthPayload;
+    if (!user?.mfa) {
+        return reply.status(403).send({
+            success: false,
+            error: 'Autenticação em dois fatores requerida'
+        });
+    }
+}
+
+/**
+ * Bloqueia sessões sem segundo fator quando o usuário tem 2FA ativo ou a organização o exige
+ * As rotas de cadastro do 2FA (/auth/mfa/*) ficam fora deste hook para permitir a adesão
+ */
+export async function enforceMfaPolicy(request: FastifyRequest, reply: FastifyReply) {
+    const user = request.user as AuthPayload;
+    if (user?.mfaRequired && !user.mfa) {
+        return reply.status(403).send({
+            success: false,
+            error: 'Autenticação em dois fatores requerida'
+        });
+    }
+}
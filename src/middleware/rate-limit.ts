@@ -0,0 +1,54 @@
+import { FastifyRequest, FastifyReply, FastifyError } from 'fastify';
+
+export interface RateLimitOptions {
+    max: number;
+    windowMs: number;
+}
+
+export const RATE_LIMIT_MAX = Number(process.env.RATE_LIMIT_MAX || 300);
+export const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS || 60 * 1000);
+export const AUTH_RATE_LIMIT_MAX = Number(process.env.AUTH_RATE_LIMIT_MAX || 30);
+
+type RateLimitWindow = { count: number; resetAt: number };
+
+const SWEEP_THRESHOLD = 10000;
+
+export function tooManyRequests(): FastifyError {
+    const error = new Error('Too Many Requests') as FastifyError;
+    error.statusCode = 429;
+    return error;
+}
+
+/**
+ * Limitador de requisições por IP em janela fixa (memória local do processo)
+ * Ao exceder o limite, lança um erro 429 tratado pelo errorHandler
+ */
+export function createRateLimiter(options: RateLimitOptions) {
+    const windows = new Map<string, RateLimitWindow>();
+
+    return async function rateLimit(request: FastifyRequest, reply: FastifyReply) {
+        const now = Date.now();
+
+        if (windows.size > SWEEP_THRESHOLD) {
+            for (const [key, window] of windows) {
+                if (window.resetAt <= now) windows.delete(key);
+            }
+        }
+
+        let window = windows.get(request.ip);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + options.windowMs };
+            windows.set(request.ip, window);
+        }
+
+        window.count++;
+
+        reply.header('X-RateLimit-Limit', options.max);
+        reply.header('X-RateLimit-Remaining', Math.max(0, options.max - window.count));
+
+        if (window.count > options.max) {
+            reply.header('Retry-After', Math.ceil((window.resetAt - now) / 1000));
+            throw tooManyRequests();
+        }
+    };
+}
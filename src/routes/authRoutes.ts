@@ -1,51 +1,69 @@
 import { FastifyInstance } from 'fastify';
 import { AuthController } from '../controllers/AuthController';
-import { authMiddleware } from '../middleware/auth';
+import { MfaController } from '../controllers/MfaController';
+import { authMiddleware, requireMfa } from '../middleware/auth';
 
 export async function authRoutes(fastify: FastifyInstance) {
 
     const tags = ['Auth'];
 
-    fastify.post('/auth/register', {
+    fastify.post('/auth/login', {
         schema: {
             tags,
-            summary: 'Registrar novo usuário',
-            description: 'Cria uma nova conta de usuário com email, senha e role.',
+            summary: 'Login de usuário',
+            description: 'Autentica um usuário e retorna um token JWT. Com 2FA ativo, retorna um mfaToken para a segunda etapa (POST /auth/login/mfa).',
             body: {
                 type: 'object',
-                required: ['email', 'password'],
+                required: ['organizationSlug', 'email', 'password'],
                 properties: {
+                    organizationSlug: { type: 'string', minLength: 1, description: 'Identificador da organização (family office)' },
                     email: { type: 'string', format: 'email', description: 'Email do usuário' },
-                    password: { type: 'string', minLength: 6, description: 'Senha do usuário (mínimo 6 caracteres)' },
-                    role: { type: 'string', enum: ['ADVISOR', 'VIEWER'], default: 'VIEWER', description: 'Role do usuário (ADVISOR ou VIEWER)' }
+                    password: { type: 'string', description: 'Senha do usuário' }
                 }
             },
             response: {
-                201: {
+                200: {
                     type: 'object',
                     properties: {
                         success: { type: 'boolean' },
-                        data: { type: 'object' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                mfaRequired: { type: 'boolean', description: 'Indica se o login exige a segunda etapa (2FA)' },
+                                mfaToken: { type: 'string', description: 'Token temporário para POST /auth/login/mfa' },
+                                token: { type: 'string', description: 'Token JWT de acesso (curta duração)' },
+                                refreshToken: { type: 'string', description: 'Refresh token para renovar o acesso' },
+                                user: {
+                                    type: 'object',
+                                    properties: {
+                                        id: { type: 'string' },
+                                        organizationId: { type: 'string' },
+                                        email: { type: 'string' },
+                                        role: { type: 'string' }
+                                    }
+                                }
+                            }
+                        },
                         message: { type: 'string' }
                     }
                 },
-                400: { $ref: 'ErrorResponse' },
-                409: { $ref: 'ErrorResponse' }
+                401: { $ref: 'ErrorResponse' },
+                400: { $ref: 'ErrorResponse' }
             }
         }
-    }, AuthController.register);
+    }, AuthController.login);
 
-    fastify.post('/auth/login', {
+    fastify.post('/auth/login/mfa', {
         schema: {
             tags,
-            summary: 'Login de usuário',
-            description: 'Autentica um usuário e retorna um token JWT.',
+            summary: 'Segunda etapa do login (2FA)',
+            description: 'Valida o código TOTP (ou um código de recuperação) e conclui o login iniciado em POST /auth/login.',
             body: {
                 type: 'object',
-                required: ['email', 'password'],
+                required: ['mfaToken', 'code'],
                 properties: {
-                    email: { type: 'string', format: 'email', description: 'Email do usuário' },
-                    password: { type: 'string', description: 'Senha do usuário' }
+                    mfaToken: { type: 'string', minLength: 1, description: 'Token temporário retornado pelo login' },
+                    code: { type: 'string', minLength: 1, description: 'Código do aplicativo autenticador ou código de recuperação' }
                 }
             },
             response: {
@@ -56,11 +74,14 @@ export async function authRoutes(fastify: FastifyInstance) {
                         data: {
                             type: 'object',
                             properties: {
-                                token: { type: 'string', description: 'Token JWT de autenticação' },
+                                mfaRequired: { type: 'boolean' },
+                                token: { type: 'string', description: 'Token JWT de acesso (curta duração)' },
+                                refreshToken: { type: 'string', description: 'Refresh token para renovar o acesso' },
                                 user: {
                                     type: 'object',
                                     properties: {
                                         id: { type: 'string' },
+                                        organizationId: { type: 'string' },
                                         email: { type: 'string' },
                                         role: { type: 'string' }
                                     }
@@ -70,11 +91,234 @@ export async function authRoutes(fastify: FastifyInstance) {
                         message: { type: 'string' }
                     }
                 },
-                401: { $ref: 'ErrorResponse' },
+                400: { $ref: 'ErrorResponse' },
+                401: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, AuthController.loginMfa);
+
+    fastify.post('/auth/refresh', {
+        schema: {
+            tags,
+            summary: 'Renovar token de acesso',
+            description: 'Troca um refresh token válido por um novo par de tokens. O refresh token apresentado é invalidado (rotação).',
+            body: {
+                type: 'object',
+                required: ['refreshToken'],
+                properties: {
+                    refreshToken: { type: 'string', minLength: 1, description: 'Refresh token emitido no login ou na última renovação' }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                token: { type: 'string', description: 'Novo token JWT de acesso' },
+                                refreshToken: { type: 'string', description: 'Novo refresh token' }
+                            }
+                        },
+                        message: { type: 'string' }
+                    }
+                },
+                400: { $ref: 'ErrorResponse' },
+                401: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, AuthController.refresh);
+
+    fastify.post('/auth/logout', {
+        preHandler: [authMiddleware],
+        schema: {
+            tags,
+            summary: 'Encerrar sessão',
+            description: 'Revoga a sessão atual; o token de acesso e o refresh token deixam de ser aceitos.',
+            security: [{ bearerAuth: [] }],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' }
+                    }
+                },
+                401: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, AuthController.logout);
+
+    fastify.post('/auth/password/change', {
+        preHandler: [authMiddleware],
+        schema: {
+            tags,
+            summary: 'Alterar senha',
+            description: 'Altera a senha do usuário autenticado. As demais sessões do usuário são revogadas.',
+            security: [{ bearerAuth: [] }],
+            body: {
+                type: 'object',
+                required: ['currentPassword', 'newPassword'],
+                properties: {
+                    currentPassword: { type: 'string', description: 'Senha atual' },
+                    newPassword: { type: 'string', minLength: 6, description: 'Nova senha (mínimo 6 caracteres)' }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' }
+                    }
+                },
+                400: { $ref: 'ErrorResponse' },
+                401: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, AuthController.changePassword);
+
+    fastify.post('/auth/password/forgot', {
+        schema: {
+            tags,
+            summary: 'Solicitar redefinição de senha',
+            description: 'Envia por email um link de redefinição de uso único. A resposta é a mesma para emails cadastrados ou não.',
+            body: {
+                type: 'object',
+                required: ['organizationSlug', 'email'],
+                properties: {
+                    organizationSlug: { type: 'string', minLength: 1, description: 'Identificador da organização (family office)' },
+                    email: { type: 'string', format: 'email', description: 'Email do usuário' }
+                }
+            },
+            response: {
+                202: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' }
+                    }
+                },
                 400: { $ref: 'ErrorResponse' }
             }
         }
-    }, AuthController.login);
+    }, AuthController.forgotPassword);
+
+    fastify.post('/auth/password/reset', {
+        schema: {
+            tags,
+            summary: 'Redefinir senha',
+            description: 'Define uma nova senha a partir do token recebido por email. Todas as sessões do usuário são revogadas.',
+            body: {
+                type: 'object',
+                required: ['token', 'newPassword'],
+                properties: {
+                    token: { type: 'string', minLength: 1, description: 'Token de redefinição recebido por email' },
+                    newPassword: { type: 'string', minLength: 6, description: 'Nova senha (mínimo 6 caracteres)' }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' }
+                    }
+                },
+                400: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, AuthController.resetPassword);
+
+    const mfaCodeBody = {
+        type: 'object',
+        required: ['code'],
+        properties: {
+            code: { type: 'string', minLength: 1, description: 'Código do aplicativo autenticador' }
+        }
+    };
+
+    fastify.post('/auth/mfa/setup', {
+        preHandler: [authMiddleware],
+        schema: {
+            tags,
+            summary: 'Iniciar configuração do 2FA',
+            description: 'Gera um segredo TOTP e a URI otpauth:// para cadastro no aplicativo autenticador.',
+            security: [{ bearerAuth: [] }],
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                secret: { type: 'string', description: 'Segredo TOTP em base32' },
+                                otpauthUrl: { type: 'string', description: 'URI para geração do QR code' }
+                            }
+                        },
+                        message: { type: 'string' }
+                    }
+                },
+                401: { $ref: 'ErrorResponse' },
+                409: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, MfaController.setup);
+
+    fastify.post('/auth/mfa/enable', {
+        preHandler: [authMiddleware],
+        schema: {
+            tags,
+            summary: 'Ativar 2FA',
+            description: 'Confirma o cadastro com um código válido, ativa o 2FA e retorna os códigos de recuperação (exibidos uma única vez).',
+            security: [{ bearerAuth: [] }],
+            body: mfaCodeBody,
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        data: {
+                            type: 'object',
+                            properties: {
+                                recoveryCodes: { type: 'array', items: { type: 'string' } },
+                                token: { type: 'string', description: 'Novo token de acesso com o segundo fator satisfeito' }
+                            }
+                        },
+                        message: { type: 'string' }
+                    }
+                },
+                400: { $ref: 'ErrorResponse' },
+                401: { $ref: 'ErrorResponse' },
+                409: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, MfaController.enable);
+
+    fastify.post('/auth/mfa/disable', {
+        preHandler: [authMiddleware, requireMfa],
+        schema: {
+            tags,
+            summary: 'Desativar 2FA',
+            description: 'Desativa o 2FA mediante um código válido. Não permitido quando a organização exige 2FA.',
+            security: [{ bearerAuth: [] }],
+            body: mfaCodeBody,
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        success: { type: 'boolean' },
+                        message: { type: 'string' }
+                    }
+                },
+                400: { $ref: 'ErrorResponse' },
+                401: { $ref: 'ErrorResponse' },
+                403: { $ref: 'ErrorResponse' }
+            }
+        }
+    }, MfaController.disable);
 
     fastify.get('/auth/profile', {
         preHandler: [authMiddleware],
@@ -92,9 +336,13 @@ export async function authRoutes(fastify: FastifyInstance) {
                             type: 'object',
                             properties: {
                                 userId: { type: 'string' },
+                                organizationId: { type: 'string' },
+                                sessionId: { type: 'string' },
                                 email: { type: 'string' },
                                 name: { type: 'string' },
-                                role: { type: 'string' }
+                                role: { type: 'string' },
+                                mfa: { type: 'boolean' },
+                                mfaRequired: { type: 'boolean' }
                             }
                         },
                         message: { type: 'string' }
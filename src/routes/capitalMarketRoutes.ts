@@ -0,0 +1,205 @@
+import { FastifyInstance } from 'fastify';
+import { CapitalMarketController } from '../controllers/CapitalMarketController';
+import { requireWriteAccess } from '../middleware/auth';
+
+export async function capitalMarketRoutes(fastify: FastifyInstance) {
+  const tags = ['Capital Market Assumptions'];
+
+  const assetClassSchema = {
+    type: 'object',
+    required: ['assetClass', 'expectedReturn', 'volatility'],
+    properties: {
+      assetClass: { type: 'string', minLength: 1, description: 'Classe de ativo (ex.: Renda Fixa, Ações)' },
+      expectedReturn: { type: 'number', minimum: -0.5, maximum: 1, description: 'Retorno nominal anual esperado' },
+      volatility: { type: 'number', minimum: 0, maximum: 2, description: 'Volatilidade anual' }
+    }
+  };
+
+  const correlationSchema = {
+    type: 'object',
+    required: ['assetClasses', 'correlation'],
+    properties: {
+      assetClasses: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2, description: 'Par de classes de ativo' },
+      correlation: { type: 'number', minimum: -1, maximum: 1, description: 'Correlação entre os retornos do par' }
+    }
+  };
+
+  const assumptionsProperties = {
+    version: { type: 'integer', nullable: true },
+    defaultReturn: { type: 'number' },
+    inflationRate: { type: 'number', nullable: true },
+    assetClasses: { type: 'array', items: assetClassSchema },
+    correlations: { type: 'array', items: correlationSchema }
+  };
+
+  const assumptionSetSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      description: { type: 'string', nullable: true },
+      ...assumptionsProperties,
+      createdById: { type: 'string' },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  };
+
+  const versionParamsSchema = {
+    type: 'object',
+    required: ['version'],
+    properties: {
+      version: { type: 'integer', minimum: 1, description: 'Versão das premissas' }
+    }
+  };
+
+  const bodyProperties = {
+    description: { type: 'string', description: 'Descrição da versão (ex.: revisão trimestral)' },
+    defaultReturn: { type: 'number', minimum: 0, maximum: 1, description: 'Retorno anual das projeções sem taxa nem carteira informadas' },
+    inflationRate: { type: 'number', minimum: -0.5, maximum: 1, description: 'Inflação anual das projeções sem inflação informada' },
+    assetClasses: { type: 'array', minItems: 1, items: assetClassSchema, description: 'Premissas por classe de ativo; as demais seguem a tabela padrão' },
+    correlations: { type: 'array', items: correlationSchema, description: 'Correlações entre classes de ativo; pares não informados são independentes' }
+  };
+
+  const errorResponseSchema = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      error: { type: 'string' }
+    }
+  };
+
+  const validationErrorResponseSchema = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      error: { type: 'string' },
+      data: { type: 'string' }
+    }
+  };
+
+  fastify.get('/capital-market-assumptions', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Listar versões de premissas de mercado',
+      description: 'Lista as versões de premissas de mercado da organização, da mais recente para a mais antiga',
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: assumptionSetSchema }
+          }
+        }
+      }
+    }
+  }, CapitalMarketController.list);
+
+  fastify.get('/capital-market-assumptions/current', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Premissas de mercado vigentes',
+      description: 'Retorna a versão mais recente das premissas da organização. Sem versão cadastrada (version nula), valem o retorno padrão do sistema e a tabela padrão por classe de ativo',
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', properties: assumptionsProperties }
+          }
+        }
+      }
+    }
+  }, CapitalMarketController.getCurrent);
+
+  fastify.get('/capital-market-assumptions/:version', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Buscar versão de premissas de mercado',
+      params: versionParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: assumptionSetSchema
+          }
+        },
+        404: errorResponseSchema
+      }
+    }
+  }, CapitalMarketController.getByVersion);
+
+  fastify.post('/capital-market-assumptions', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Cadastrar premissas de mercado',
+      description: 'Grava uma nova versão de premissas da organização, que passa a valer para as próximas simulações',
+      body: {
+        type: 'object',
+        required: ['defaultReturn', 'inflationRate', 'assetClasses'],
+        properties: bodyProperties
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: assumptionSetSchema,
+            message: { type: 'string' }
+          }
+        },
+        400: validationErrorResponseSchema,
+        409: errorResponseSchema
+      }
+    }
+  }, CapitalMarketController.create);
+
+  fastify.put('/capital-market-assumptions/current', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Atualizar premissas de mercado',
+      description: 'Aplica os campos informados sobre a versão vigente e grava o resultado como uma nova versão; versões anteriores não são alteradas',
+      body: {
+        type: 'object',
+        properties: bodyProperties
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: assumptionSetSchema,
+            message: { type: 'string' }
+          }
+        },
+        400: validationErrorResponseSchema,
+        409: errorResponseSchema
+      }
+    }
+  }, CapitalMarketController.updateCurrent);
+
+  fastify.delete('/capital-market-assumptions/:version', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Remover versão de premissas de mercado',
+      description: 'Remove uma versão que não tenha sido usada em simulações',
+      params: versionParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        404: errorResponseSchema,
+        409: errorResponseSchema
+      }
+    }
+  }, CapitalMarketController.delete);
+}
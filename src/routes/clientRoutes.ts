@@ -1,10 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import { ClientController } from '../controllers/ClientController';
+import { requireWriteAccess, requireAdmin, requireMfa } from '../middleware/auth';
 
 export async function clientRoutes(fastify: FastifyInstance) {
   const tags = ['Clients'];
 
   fastify.post('/clients', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Criar novo cliente',
@@ -124,6 +126,7 @@ export async function clientRoutes(fastify: FastifyInstance) {
   }, ClientController.findById);
 
   fastify.put('/clients/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Atualizar cliente',
@@ -170,6 +173,7 @@ export async function clientRoutes(fastify: FastifyInstance) {
   }, ClientController.update);
 
   fastify.delete('/clients/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Deletar cliente',
@@ -238,5 +242,232 @@ export async function clientRoutes(fastify: FastifyInstance) {
       }
     }
   }, ClientController.getAlignment);
-}
 
+  fastify.get('/clients/:id/report.pdf', {
+    schema: {
+      tags,
+      summary: 'Relatório do cliente em PDF',
+      description: 'Gera o relatório de revisão com perfil, alocação e alinhamento, metas com viabilidade, seguros e a curva da simulação mais recente',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID do cliente' }
+        }
+      }
+    }
+  }, ClientController.getReport);
+
+  fastify.get('/clients/:id/suggestions', {
+    schema: {
+      tags,
+      summary: 'Gerar sugestões automáticas',
+      description: 'Gera sugestões de ajuste a partir da carteira, das metas e dos eventos do cliente. A meta patrimonial é a soma das metas (ou o patrimônio planejado da carteira, sem metas)',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID do cliente' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          interestRate: { type: 'number', minimum: 0, maximum: 1, description: 'Taxa de juros anual (padrão: retorno das premissas de mercado da organização)' },
+          timeHorizonYears: { type: 'integer', minimum: 1, maximum: 50, description: 'Horizonte em anos (padrão: data da meta mais distante)' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                currentPatrimony: { type: 'number' },
+                targetPatrimony: { type: 'number' },
+                timeHorizonYears: { type: 'integer' },
+                interestRate: { type: 'number' },
+                cashFlow: {
+                  type: 'object',
+                  properties: {
+                    monthlyIncome: { type: 'number' },
+                    monthlyExpenses: { type: 'number' },
+                    monthlyInvestments: { type: 'number' }
+                  }
+                },
+                suggestions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['CONGRATULATIONS', 'INCREASE_CONTRIBUTION', 'ADJUST_ALLOCATION', 'REDUCE_EXPENSES'] },
+                      description: { type: 'string' },
+                      suggestedValue: { type: 'number' },
+                      suggestedPeriod: { type: 'number' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, ClientController.getSuggestions);
+
+  fastify.put('/clients/:id/advisors', {
+    onRequest: [requireAdmin, requireMfa],
+    schema: {
+      tags,
+      summary: 'Atribuir assessores ao cliente',
+      description: 'Substitui os usuários responsáveis pelo cliente. Restrito a administradores com 2FA.',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID do cliente' }
+        }
+      },
+      body: {
+        type: 'object',
+        required: ['advisorIds'],
+        properties: {
+          advisorIds: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string' },
+            description: 'IDs dos usuários que passam a atender o cliente'
+          }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  clientId: { type: 'string' },
+                  userId: { type: 'string' },
+                  assignedAt: { type: 'string', format: 'date-time' },
+                  user: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string' },
+                      name: { type: 'string' },
+                      email: { type: 'string' },
+                      role: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            },
+            message: { type: 'string' }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            data: { type: 'array' }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, ClientController.assignAdvisors);
+
+  fastify.get('/clients/:id/audit', {
+    schema: {
+      tags,
+      summary: 'Histórico de auditoria do cliente',
+      description: 'Lista as alterações em cliente, carteira, eventos e metas (autor, data, ação e diferença antes/depois), da mais recente para a mais antiga. O histórico de clientes excluídos continua disponível para administradores',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID do cliente' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          entity: { type: 'string', enum: ['CLIENT', 'WALLET', 'EVENT', 'GOAL'], description: 'Filtrar por entidade' },
+          from: { type: 'string', format: 'date-time', description: 'Alterações a partir desta data' },
+          to: { type: 'string', format: 'date-time', description: 'Alterações até esta data' },
+          page: { type: 'integer', minimum: 1, default: 1, description: 'Página' },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 20, description: 'Itens por página' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  entity: { type: 'string' },
+                  entityId: { type: 'string' },
+                  action: { type: 'string', enum: ['CREATE', 'UPDATE', 'DELETE'] },
+                  actorId: { type: 'string' },
+                  actorEmail: { type: 'string' },
+                  changes: {
+                    type: 'object',
+                    description: 'Campos alterados no formato { campo: { before, after } }',
+                    additionalProperties: {
+                      type: 'object',
+                      properties: {
+                        before: {},
+                        after: {}
+                      }
+                    }
+                  },
+                  createdAt: { type: 'string', format: 'date-time' }
+                }
+              }
+            },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'integer' },
+                limit: { type: 'integer' },
+                total: { type: 'integer' },
+                totalPages: { type: 'integer' }
+              }
+            }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, ClientController.getAuditLog);
+}
@@ -1,10 +1,26 @@
 import { FastifyInstance } from 'fastify';
 import { EventController } from '../controllers/EventController';
+import { requireWriteAccess } from '../middleware/auth';
+
+const loanTermsBodyProperties = {
+  interestRate: { type: 'number', minimum: 0, maximum: 1, description: 'Taxa anual do empréstimo (LOAN com sistema de amortização)' },
+  termMonths: { type: 'integer', minimum: 1, maximum: 600, description: 'Prazo do empréstimo em meses' },
+  amortizationSystem: { type: 'string', enum: ['SAC', 'PRICE'], description: 'Sistema de amortização: SAC (amortização constante) ou PRICE (parcela constante)' }
+};
+
+const exportQuerystringSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['csv', 'xlsx'], default: 'csv', description: 'Formato do arquivo' },
+    locale: { type: 'string', default: 'pt-BR', description: 'Idioma para formatação de números e datas' }
+  }
+};
 
 export async function eventRoutes(fastify: FastifyInstance) {
   const tags = ['Events'];
 
   fastify.post('/events', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Criar novo evento',
@@ -20,14 +36,16 @@ export async function eventRoutes(fastify: FastifyInstance) {
             description: 'Tipo do evento'
           },
           description: { type: 'string', description: 'Descrição do evento' },
-          value: { type: 'number', minimum: 0, description: 'Valor do evento' },
+          value: { type: 'number', minimum: 0, description: 'Valor do evento (valor financiado em empréstimos com sistema de amortização)' },
           frequency: {
             type: 'string',
             enum: ['ONCE', 'MONTHLY', 'QUARTERLY', 'ANNUALLY'],
             description: 'Frequência do evento'
           },
-          startDate: { type: 'string', format: 'date-time', description: 'Data de início' },
-          endDate: { type: 'string', format: 'date-time', description: 'Data de fim (opcional)' }
+          inflationIndexed: { type: 'boolean', default: false, description: 'Corrigir valor recorrente pela inflação da projeção' },
+          startDate: { type: 'string', format: 'date-time', description: 'Data de início (contratação, em empréstimos)' },
+          endDate: { type: 'string', format: 'date-time', description: 'Data de fim (opcional)' },
+          ...loanTermsBodyProperties
         }
       },
       response: {
@@ -97,6 +115,7 @@ export async function eventRoutes(fastify: FastifyInstance) {
   }, EventController.findById);
 
   fastify.put('/events/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Atualizar evento',
@@ -120,8 +139,10 @@ export async function eventRoutes(fastify: FastifyInstance) {
             type: 'string',
             enum: ['ONCE', 'MONTHLY', 'QUARTERLY', 'ANNUALLY']
           },
+          inflationIndexed: { type: 'boolean' },
           startDate: { type: 'string', format: 'date-time' },
-          endDate: { type: 'string', format: 'date-time' }
+          endDate: { type: 'string', format: 'date-time' },
+          ...loanTermsBodyProperties
         }
       },
       response: {
@@ -137,7 +158,70 @@ export async function eventRoutes(fastify: FastifyInstance) {
     }
   }, EventController.update);
 
+  fastify.get('/events/:id/amortization', {
+    schema: {
+      tags,
+      summary: 'Cronograma de amortização',
+      description: 'Parcelas (juros e amortização) e saldo devedor de um empréstimo com sistema de amortização',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                principal: { type: 'number' },
+                interestRate: { type: 'number' },
+                termMonths: { type: 'integer' },
+                amortizationSystem: { type: 'string' },
+                startDate: { type: 'string', format: 'date-time' },
+                outstandingBalance: { type: 'number', description: 'Saldo devedor atual' },
+                totalInterest: { type: 'number' },
+                installments: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      month: { type: 'integer', description: 'Número da parcela (1 = mês seguinte à contratação)' },
+                      installment: { type: 'number' },
+                      interest: { type: 'number' },
+                      amortization: { type: 'number' },
+                      balance: { type: 'number' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, EventController.getAmortization);
+
   fastify.delete('/events/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Deletar evento',
@@ -198,5 +282,21 @@ export async function eventRoutes(fastify: FastifyInstance) {
       }
     }
   }, EventController.findByClient);
+
+  fastify.get('/clients/:clientId/events/export', {
+    schema: {
+      tags,
+      summary: 'Exportar eventos do cliente',
+      description: 'Exporta o cronograma de eventos em CSV ou XLSX',
+      params: {
+        type: 'object',
+        required: ['clientId'],
+        properties: {
+          clientId: { type: 'string' }
+        }
+      },
+      querystring: exportQuerystringSchema
+    }
+  }, EventController.exportByClient);
 }
 
@@ -1,10 +1,12 @@
 import { FastifyInstance } from 'fastify';
 import { GoalController } from '../controllers/GoalController';
+import { requireWriteAccess } from '../middleware/auth';
 
 export async function goalRoutes(fastify: FastifyInstance) {
   const tags = ['Goals'];
 
   fastify.post('/goals', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Criar nova meta',
@@ -88,6 +90,7 @@ export async function goalRoutes(fastify: FastifyInstance) {
   }, GoalController.findById);
 
   fastify.put('/goals/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Atualizar meta',
@@ -124,6 +127,7 @@ export async function goalRoutes(fastify: FastifyInstance) {
   }, GoalController.update);
 
   fastify.delete('/goals/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Deletar meta',
@@ -168,5 +172,69 @@ export async function goalRoutes(fastify: FastifyInstance) {
       }
     }
   }, GoalController.findByClient);
-}
 
+  fastify.get('/clients/:clientId/goals/feasibility', {
+    schema: {
+      tags,
+      summary: 'Avaliar viabilidade das metas',
+      description: 'Projeta os eventos e a carteira do cliente até a data de cada meta, retornando valor projetado, déficit, probabilidade de sucesso e aporte mensal adicional necessário',
+      params: {
+        type: 'object',
+        required: ['clientId'],
+        properties: {
+          clientId: { type: 'string' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          interestRate: { type: 'number', minimum: 0, maximum: 1, description: 'Taxa de juros anual (padrão: retorno das premissas de mercado da organização)' },
+          volatility: { type: 'number', minimum: 0, maximum: 1, default: 0.1, description: 'Volatilidade anual para a probabilidade de sucesso' },
+          simulations: { type: 'integer', minimum: 100, maximum: 10000, default: 500, description: 'Número de trajetórias de Monte Carlo' },
+          seed: { type: 'integer', minimum: 0, description: 'Semente para reprodutibilidade' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                clientId: { type: 'string' },
+                initialValue: { type: 'number' },
+                assumptions: {
+                  type: 'object',
+                  properties: {
+                    interestRate: { type: 'number' },
+                    volatility: { type: 'number' },
+                    simulations: { type: 'integer' }
+                  }
+                },
+                goals: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      goalId: { type: 'string' },
+                      type: { type: 'string' },
+                      description: { type: 'string' },
+                      targetValue: { type: 'number' },
+                      targetDate: { type: 'string', format: 'date-time' },
+                      projectedValue: { type: 'number' },
+                      shortfall: { type: 'number' },
+                      successProbability: { type: 'number' },
+                      requiredMonthlyContribution: { type: 'number' },
+                      feasible: { type: 'boolean' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, GoalController.feasibility);
+}
@@ -0,0 +1,122 @@
+import { FastifyInstance } from 'fastify';
+import { ImportController } from '../controllers/ImportController';
+import { requireWriteAccess } from '../middleware/auth';
+
+export async function importRoutes(fastify: FastifyInstance) {
+  const tags = ['Imports'];
+
+  const importSummarySchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['clients', 'events', 'wallets'] },
+      atomic: { type: 'boolean' },
+      status: { type: 'string', enum: ['processing', 'completed', 'failed'] },
+      progress: {
+        type: 'object',
+        properties: {
+          total: { type: 'integer' },
+          processed: { type: 'integer' },
+          errors: { type: 'array', items: { type: 'string' } },
+          percentage: { type: 'number' }
+        }
+      },
+      imported: { type: 'integer' },
+      createdAt: { type: 'string', format: 'date-time' },
+      finishedAt: { type: 'string', format: 'date-time', nullable: true }
+    }
+  };
+
+  const notFoundSchema = {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      error: { type: 'string' }
+    }
+  };
+
+  fastify.addContentTypeParser('text/csv', { parseAs: 'string' }, (request, body, done) => {
+    done(null, body);
+  });
+
+  fastify.post('/imports', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Importar CSV',
+      description: 'Importa clientes, eventos ou entradas de carteira a partir de um CSV (Content-Type text/csv, separador "," ou ";"). Cada linha é validada com as mesmas regras da criação individual. Eventos e carteiras identificam o cliente pela coluna clientId ou clientEmail. O processamento é assíncrono: acompanhe por GET /imports/:id ou pelo stream SSE em GET /imports/:id/events.',
+      consumes: ['text/csv'],
+      querystring: {
+        type: 'object',
+        required: ['type'],
+        properties: {
+          type: { type: 'string', enum: ['clients', 'events', 'wallets'], description: 'Tipo de registro do arquivo' },
+          atomic: { type: 'boolean', default: false, description: 'Gravar somente se nenhuma linha falhar' }
+        }
+      },
+      body: { type: 'string', description: 'Conteúdo do arquivo CSV, com cabeçalho' },
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: importSummarySchema,
+            message: { type: 'string' }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            data: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, ImportController.create);
+
+  fastify.get('/imports/:id', {
+    schema: {
+      tags,
+      summary: 'Consultar importação',
+      description: 'Retorna o status, o progresso e os erros por linha de uma importação iniciada pelo usuário',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID da importação' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: importSummarySchema
+          }
+        },
+        404: notFoundSchema
+      }
+    }
+  }, ImportController.findById);
+
+  fastify.get('/imports/:id/events', {
+    schema: {
+      tags,
+      summary: 'Acompanhar importação (SSE)',
+      description: 'Stream Server-Sent Events com os eventos "progress" (progresso), "error" (erro em uma linha) e "complete" (resumo final, encerra o stream). Ao conectar, os erros já ocorridos e o progresso atual são reenviados.',
+      produces: ['text/event-stream'],
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID da importação' }
+        }
+      },
+      response: {
+        404: notFoundSchema
+      }
+    }
+  }, ImportController.stream);
+}
@@ -4,7 +4,14 @@ import { goalRoutes } from './goalRoutes';
 import { walletRoutes } from './walletRoutes';
 import { eventRoutes } from './eventRoutes';
 import { simulationRoutes } from './simulationRoutes';
+import { insuranceRoutes } from './insuranceRoutes';
+import { userRoutes } from './userRoutes';
+import { organizationRoutes } from './organizationRoutes';
+import { capitalMarketRoutes } from './capitalMarketRoutes';
+import { importRoutes } from './importRoutes';
 import { authRoutes } from './authRoutes';
+import { authMiddleware, enforceMfaPolicy } from '../middleware/auth';
+import { createRateLimiter, AUTH_RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS } from '../middleware/rate-limit';
 
 export async function registerRoutes(fastify: FastifyInstance) {
   await fastify.register(async function (fastify) {
@@ -44,13 +51,28 @@ export async function registerRoutes(fastify: FastifyInstance) {
       };
     });
 
-    await fastify.register(authRoutes);
+    // Limite mais restrito para as rotas públicas de autenticação
+    await fastify.register(async function (fastify) {
+      fastify.addHook('onRequest', createRateLimiter({ max: AUTH_RATE_LIMIT_MAX, windowMs: RATE_LIMIT_WINDOW_MS }));
 
-    await fastify.register(clientRoutes);
-    await fastify.register(goalRoutes);
-    await fastify.register(walletRoutes);
-    await fastify.register(eventRoutes);
-    await fastify.register(simulationRoutes);
+      await fastify.register(authRoutes);
+    });
+
+    await fastify.register(async function (fastify) {
+      fastify.addHook('onRequest', authMiddleware);
+      fastify.addHook('onRequest', enforceMfaPolicy);
+
+      await fastify.register(clientRoutes);
+      await fastify.register(goalRoutes);
+      await fastify.register(walletRoutes);
+      await fastify.register(eventRoutes);
+      await fastify.register(simulationRoutes);
+      await fastify.register(insuranceRoutes);
+      await fastify.register(userRoutes);
+      await fastify.register(organizationRoutes);
+      await fastify.register(capitalMarketRoutes);
+      await fastify.register(importRoutes);
+    });
 
   }, { prefix: '/api/v1' });
 
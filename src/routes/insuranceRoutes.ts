@@ -0,0 +1,228 @@
+import { FastifyInstance } from 'fastify';
+import { InsuranceController } from '../controllers/InsuranceController';
+import { requireWriteAccess } from '../middleware/auth';
+
+export async function insuranceRoutes(fastify: FastifyInstance) {
+  const tags = ['Insurances'];
+
+  fastify.post('/insurances', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Criar novo seguro',
+      description: 'Cadastra uma nova apólice de seguro para um cliente',
+      body: {
+        type: 'object',
+        required: ['clientId', 'type', 'coverage', 'premium'],
+        properties: {
+          clientId: { type: 'string', description: 'ID do cliente' },
+          type: {
+            type: 'string',
+            enum: ['LIFE', 'DISABILITY', 'HEALTH', 'PROPERTY', 'LIABILITY'],
+            description: 'Tipo do seguro'
+          },
+          coverage: { type: 'number', minimum: 0, description: 'Valor de cobertura' },
+          premium: { type: 'number', minimum: 0, description: 'Valor do prêmio' },
+          description: { type: 'string', description: 'Descrição da apólice' }
+        }
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, InsuranceController.create);
+
+  fastify.get('/insurances', {
+    schema: {
+      tags,
+      summary: 'Listar seguros',
+      description: 'Lista seguros com filtros e paginação',
+      querystring: {
+        type: 'object',
+        properties: {
+          clientId: { type: 'string', description: 'Filtrar por cliente' },
+          type: { type: 'string', description: 'Filtrar por tipo de seguro' },
+          page: { type: 'integer', minimum: 1, default: 1 },
+          limit: { type: 'integer', minimum: 1, maximum: 100, default: 10 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array' },
+            pagination: { type: 'object' }
+          }
+        }
+      }
+    }
+  }, InsuranceController.findAll);
+
+  fastify.get('/insurances/:id', {
+    schema: {
+      tags,
+      summary: 'Buscar seguro por ID',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object' }
+          }
+        }
+      }
+    }
+  }, InsuranceController.findById);
+
+  fastify.put('/insurances/:id', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Atualizar seguro',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          type: {
+            type: 'string',
+            enum: ['LIFE', 'DISABILITY', 'HEALTH', 'PROPERTY', 'LIABILITY']
+          },
+          coverage: { type: 'number', minimum: 0 },
+          premium: { type: 'number', minimum: 0 },
+          description: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, InsuranceController.update);
+
+  fastify.delete('/insurances/:id', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Deletar seguro',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, InsuranceController.delete);
+
+  fastify.get('/clients/:clientId/insurances', {
+    schema: {
+      tags,
+      summary: 'Buscar seguros por cliente',
+      params: {
+        type: 'object',
+        required: ['clientId'],
+        properties: {
+          clientId: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array' }
+          }
+        }
+      }
+    }
+  }, InsuranceController.findByClient);
+
+  fastify.get('/clients/:clientId/insurances/needs', {
+    schema: {
+      tags,
+      summary: 'Análise de necessidade de seguro',
+      description: 'Calcula a cobertura recomendada de LIFE e DISABILITY a partir das despesas recorrentes, dívidas em aberto, metas de educação e patrimônio atual, comparando com as apólices existentes',
+      params: {
+        type: 'object',
+        required: ['clientId'],
+        properties: {
+          clientId: { type: 'string' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          supportYears: { type: 'integer', minimum: 1, maximum: 50, default: 10, description: 'Anos de sustento da família em caso de falecimento' },
+          retirementAge: { type: 'integer', minimum: 30, maximum: 100, default: 65, description: 'Idade de aposentadoria (horizonte de invalidez)' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                clientId: { type: 'string' },
+                annualExpenses: { type: 'number' },
+                outstandingDebt: { type: 'number' },
+                educationCosts: { type: 'number' },
+                currentPatrimony: { type: 'number' },
+                needs: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      type: { type: 'string', enum: ['LIFE', 'DISABILITY'] },
+                      horizonYears: { type: 'integer' },
+                      recommendedCoverage: { type: 'number' },
+                      existingCoverage: { type: 'number' },
+                      coverageGap: { type: 'number' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, InsuranceController.needsAnalysis);
+}
@@ -0,0 +1,77 @@
+import { FastifyInstance } from 'fastify';
+import { OrganizationController } from '../controllers/OrganizationController';
+import { requireAdmin, requireMfa } from '../middleware/auth';
+
+export async function organizationRoutes(fastify: FastifyInstance) {
+  const tags = ['Organizations'];
+
+  const organizationSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      slug: { type: 'string' },
+      requireMfa: { type: 'boolean' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  };
+
+  fastify.get('/organizations/current', {
+    schema: {
+      tags,
+      summary: 'Organização atual',
+      description: 'Retorna a organização (family office) do usuário autenticado',
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: organizationSchema
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, OrganizationController.getCurrent);
+
+  fastify.put('/organizations/current', {
+    onRequest: [requireAdmin, requireMfa],
+    schema: {
+      tags,
+      summary: 'Atualizar organização atual',
+      description: 'Atualiza nome e políticas de segurança da organização. Restrito a administradores com 2FA.',
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 3, description: 'Nome da organização' },
+          requireMfa: { type: 'boolean', description: 'Exigir autenticação em dois fatores de todos os usuários' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: organizationSchema,
+            message: { type: 'string' }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            data: { type: 'array' }
+          }
+        }
+      }
+    }
+  }, OrganizationController.updateCurrent);
+}
@@ -1,24 +1,325 @@
 import { FastifyInstance } from 'fastify';
 import { SimulationController } from '../controllers/SimulationController';
+import { requireWriteAccess } from '../middleware/auth';
+
+const monteCarloBodySchema = {
+  type: 'object',
+  required: ['volatility'],
+  description: 'Configuração do modo estocástico (Monte Carlo)',
+  properties: {
+    expectedReturn: { type: 'number', minimum: -1, maximum: 1, description: 'Retorno esperado anual (padrão: taxa de juros)' },
+    volatility: { type: 'number', minimum: 0, maximum: 1, description: 'Volatilidade anual (desvio padrão)' },
+    seed: { type: 'integer', minimum: 0, description: 'Semente para reprodutibilidade' },
+    simulations: { type: 'integer', minimum: 100, maximum: 10000, default: 1000, description: 'Número de trajetórias' },
+    targetValue: { type: 'number', minimum: 0, description: 'Valor alvo para cálculo de probabilidade' }
+  }
+};
+
+const inflationRateBodySchema = {
+  anyOf: [
+    { type: 'number', minimum: -0.5, maximum: 1 },
+    { type: 'array', minItems: 1, maxItems: 51, items: { type: 'number', minimum: -0.5, maximum: 1 } }
+  ],
+  description: 'Inflação anual: taxa fixa ou série ano a ano (ex.: IPCA)'
+};
+
+const premiumFrequencyBodySchema = {
+  type: 'string',
+  enum: ['MONTHLY', 'QUARTERLY', 'ANNUALLY'],
+  description: 'Periodicidade de débito dos prêmios de seguro do cliente (quando informada, os seguros entram na projeção)'
+};
+
+const lifeEventBodySchema = {
+  type: 'object',
+  required: ['type', 'year'],
+  description: 'Cenário de falecimento/invalidez do provedor: paga a cobertura e encerra os eventos INCOME a partir do ano informado',
+  properties: {
+    type: { type: 'string', enum: ['DEATH', 'DISABILITY'] },
+    year: { type: 'integer', description: 'Ano do sinistro' }
+  }
+};
+
+const taxRegimes = ['REGRESSIVE', 'COME_COTAS', 'EXEMPT', 'CAPITAL_GAINS', 'REAL_ESTATE_FUND'];
+
+const taxBodySchema = {
+  type: 'object',
+  description: 'Tributação dos rendimentos: quando informada, a projeção retorna também a curva após IR. ' +
+    'Sem allocations, a divisão entre os regimes é estimada pelas classes de ativo da carteira do cliente',
+  properties: {
+    allocations: {
+      type: 'array',
+      minItems: 1,
+      description: 'Divisão da carteira entre os regimes de IR',
+      items: {
+        type: 'object',
+        required: ['regime', 'weight'],
+        properties: {
+          regime: { type: 'string', enum: taxRegimes },
+          weight: { type: 'number', exclusiveMinimum: 0, description: 'Peso do regime (normalizado pela soma)' }
+        }
+      }
+    },
+    initialHoldingMonths: { type: 'integer', minimum: 0, description: 'Prazo médio (em meses) já decorrido das aplicações atuais' }
+  }
+};
+
+const taxResponseSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    allocations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          regime: { type: 'string' },
+          weight: { type: 'number' }
+        }
+      }
+    },
+    initialHoldingMonths: { type: 'integer' }
+  }
+};
+
+const withdrawalStrategies = ['FIXED_REAL', 'PERCENTAGE', 'GUARDRAILS'];
+
+const guardrailsProperties = {
+  upperLimit: { type: 'number', exclusiveMinimum: 0, maximum: 1, default: 0.2, description: 'Corta a retirada quando a taxa supera a inicial em mais deste percentual' },
+  lowerLimit: { type: 'number', exclusiveMinimum: 0, maximum: 1, default: 0.2, description: 'Aumenta a retirada quando a taxa fica abaixo da inicial em mais deste percentual' },
+  adjustment: { type: 'number', exclusiveMinimum: 0, maximum: 1, default: 0.1, description: 'Percentual do corte ou aumento' }
+};
+
+const retirementBodySchema = {
+  type: 'object',
+  required: ['retirementAge', 'desiredIncome'],
+  description: 'Fase de usufruto: a partir da idade de aposentadoria (pela idade atual do cliente) cessam a renda e os aportes, ' +
+    'e a carteira passa a pagar as retiradas conforme a estratégia',
+  properties: {
+    retirementAge: { type: 'integer', minimum: 18, maximum: 120, description: 'Idade de aposentadoria' },
+    desiredIncome: { type: 'number', minimum: 0, description: 'Renda mensal desejada em moeda de hoje' },
+    strategy: {
+      type: 'string',
+      enum: withdrawalStrategies,
+      default: 'FIXED_REAL',
+      description: 'FIXED_REAL: renda desejada corrigida pela inflação; PERCENTAGE: percentual do patrimônio a cada ano; ' +
+        'GUARDRAILS: renda desejada com cortes e aumentos quando a taxa de retirada sai da faixa'
+    },
+    withdrawalRate: { type: 'number', exclusiveMinimum: 0, maximum: 1, description: 'Taxa anual de retirada da estratégia PERCENTAGE (padrão 4%)' },
+    guardrails: { type: 'object', properties: guardrailsProperties },
+    lifeExpectancy: { type: 'integer', maximum: 120, description: 'Expectativa de vida (padrão 100 anos)' }
+  }
+};
+
+const retirementPlanSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    currentAge: { type: 'integer' },
+    retirementAge: { type: 'integer' },
+    desiredIncome: { type: 'number' },
+    strategy: { type: 'string' },
+    withdrawalRate: { type: 'number' },
+    guardrails: { type: 'object', properties: guardrailsProperties },
+    lifeExpectancy: { type: 'integer' }
+  }
+};
+
+const retirementAnalysisSchema = {
+  type: 'object',
+  nullable: true,
+  description: 'Análise da aposentadoria na projeção determinística, até a expectativa de vida',
+  properties: {
+    strategy: { type: 'string' },
+    retirementAge: { type: 'integer' },
+    retirementYear: { type: 'integer' },
+    lifeExpectancy: { type: 'integer' },
+    desiredIncome: { type: 'number' },
+    portfolioAtRetirement: { type: 'number' },
+    initialMonthlyWithdrawal: { type: 'number', description: 'Retirada mensal média do primeiro ano, pela estratégia' },
+    sustainableWithdrawal: { type: 'number', description: 'Maior renda mensal em moeda de hoje que dura até a expectativa de vida' },
+    depletionAge: { type: 'integer', nullable: true, description: 'Idade em que o patrimônio se esgota' },
+    depletionYear: { type: 'integer', nullable: true }
+  }
+};
+
+const portfolioBodySchema = {
+  type: 'object',
+  description: 'Carteira do cliente: cada classe de ativo rende pelas próprias premissas de mercado (retorno esperado e volatilidade), ' +
+    'no lugar da taxa de juros e da configuração de Monte Carlo, e a taxa da simulação passa a ser o retorno esperado da alocação',
+  properties: {
+    rebalanceFrequency: {
+      type: 'string',
+      enum: ['NONE', 'MONTHLY', 'QUARTERLY', 'SEMIANNUALLY', 'ANNUALLY'],
+      default: 'ANNUALLY',
+      description: 'Periodicidade do rebalanceamento aos pesos-alvo (percentual planejado de cada classe)'
+    },
+    assumptions: {
+      type: 'array',
+      description: 'Premissas de mercado por classe de ativo; substituem as da tabela padrão',
+      items: {
+        type: 'object',
+        required: ['assetClass', 'expectedReturn', 'volatility'],
+        properties: {
+          assetClass: { type: 'string', minLength: 1 },
+          expectedReturn: { type: 'number', minimum: -1, maximum: 1, description: 'Retorno esperado anual' },
+          volatility: { type: 'number', minimum: 0, maximum: 1, description: 'Volatilidade anual' }
+        }
+      }
+    }
+  }
+};
+
+const portfolioResponseSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    allocations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          assetClass: { type: 'string' },
+          expectedReturn: { type: 'number' },
+          volatility: { type: 'number' },
+          weight: { type: 'number', description: 'Peso atual (valor atual da classe)' },
+          targetWeight: { type: 'number', description: 'Peso-alvo (percentual planejado da classe)' }
+        }
+      }
+    },
+    rebalanceFrequency: { type: 'string' }
+  }
+};
+
+const eventTypeBodySchema = {
+  type: 'string',
+  enum: ['INCOME', 'EXPENSE', 'INVESTMENT', 'WITHDRAWAL', 'BONUS', 'INHERITANCE', 'LOAN']
+};
+
+const loanTermsBodyProperties = {
+  interestRate: { type: 'number', minimum: 0, maximum: 1 },
+  termMonths: { type: 'integer', minimum: 1, maximum: 600 },
+  amortizationSystem: { type: 'string', enum: ['SAC', 'PRICE'] }
+};
+
+const eventFrequencyBodySchema = {
+  type: 'string',
+  enum: ['ONCE', 'MONTHLY', 'QUARTERLY', 'ANNUALLY']
+};
+
+const portfolioMetricsSchema = {
+  type: 'object',
+  nullable: true,
+  properties: {
+    finalValue: { type: 'number' },
+    totalGain: { type: 'number' },
+    totalGainPercent: { type: 'number' },
+    cagr: { type: 'number', description: 'CAGR em %' },
+    projectionYears: { type: 'integer' }
+  }
+};
+
+const comparisonPointSchema = {
+  type: 'object',
+  properties: {
+    year: { type: 'integer' },
+    projectedValue: { type: 'number', nullable: true },
+    realValue: { type: 'number', nullable: true }
+  }
+};
+
+const comparedProjectionProperties = {
+  name: { type: 'string' },
+  simulationId: { type: 'string', nullable: true },
+  parameters: {
+    type: 'object',
+    properties: {
+      initialValue: { type: 'number' },
+      interestRate: { type: 'number' },
+      projectionYears: { type: 'integer' },
+      inflationRate: { anyOf: [...inflationRateBodySchema.anyOf, { type: 'null' }] },
+      premiumFrequency: { type: 'string', nullable: true },
+      lifeEvent: {
+        type: 'object',
+        nullable: true,
+        properties: {
+          type: { type: 'string' },
+          year: { type: 'integer' }
+        }
+      },
+      monteCarlo: {
+        type: 'object',
+        nullable: true,
+        properties: {
+          expectedReturn: { type: 'number' },
+          volatility: { type: 'number' },
+          seed: { type: 'integer' },
+          simulations: { type: 'integer' },
+          targetValue: { type: 'number' },
+          successProbability: { type: 'number' }
+        }
+      },
+      tax: taxResponseSchema,
+      retirement: retirementPlanSchema,
+      portfolio: portfolioResponseSchema,
+      assumptionsVersion: { type: 'integer', nullable: true },
+      eventsCount: { type: 'integer' }
+    }
+  },
+  metrics: portfolioMetricsSchema,
+  projectionData: { type: 'array', items: comparisonPointSchema }
+};
+
+const projectionPointSchema = {
+  type: 'object',
+  properties: {
+    year: { type: 'integer' },
+    projectedValue: { type: 'number' },
+    realValue: { type: 'number' },
+    afterTaxValue: { type: 'number', description: 'Valor líquido de IR caso toda a carteira fosse resgatada' },
+    afterTaxRealValue: { type: 'number' },
+    withdrawal: { type: 'number', description: 'Total retirado no ano na fase de usufruto' },
+    assets: { type: 'number', description: 'Ativos antes de descontar o saldo devedor dos empréstimos amortizados' },
+    outstandingDebt: { type: 'number', description: 'Saldo devedor dos empréstimos amortizados ao fim do ano' },
+    p10: { type: 'number' },
+    p50: { type: 'number' },
+    p90: { type: 'number' },
+    probabilityAboveTarget: { type: 'number' }
+  }
+};
+
+const exportQuerystringSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['csv', 'xlsx'], default: 'csv', description: 'Formato do arquivo' },
+    locale: { type: 'string', default: 'pt-BR', description: 'Idioma para formatação de números e datas' }
+  }
+};
 
 export async function simulationRoutes(fastify: FastifyInstance) {
 
   const tags = ['Simulations'];
 
   fastify.post('/simulations', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Criar nova simulação',
       description: 'Cria uma nova simulação de projeção patrimonial',
       body: {
         type: 'object',
-        required: ['clientId', 'name', 'initialValue', 'interestRate', 'projectionYears'],
+        required: ['clientId', 'name', 'initialValue', 'projectionYears'],
         properties: {
           clientId: { type: 'string', description: 'ID do cliente' },
           name: { type: 'string', minLength: 3, description: 'Nome da simulação' },
           initialValue: { type: 'number', minimum: 0, description: 'Valor inicial' },
-          interestRate: { type: 'number', minimum: 0, maximum: 1, description: 'Taxa de juros anual (0-1)' },
-          projectionYears: { type: 'integer', minimum: 1, maximum: 50, description: 'Anos de projeção' }
+          interestRate: { type: 'number', minimum: 0, maximum: 1, description: 'Taxa de juros anual (0-1); obrigatória sem portfolio' },
+          projectionYears: { type: 'integer', minimum: 1, maximum: 50, description: 'Anos de projeção' },
+          inflationRate: inflationRateBodySchema,
+          premiumFrequency: premiumFrequencyBodySchema,
+          tax: taxBodySchema,
+          retirement: retirementBodySchema,
+          portfolio: portfolioBodySchema,
+          monteCarlo: monteCarloBodySchema
         }
       },
       response: {
@@ -26,7 +327,7 @@ export async function simulationRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' },
+            data: { type: 'object', additionalProperties: true },
             message: { type: 'string' }
           }
         }
@@ -60,6 +361,126 @@ export async function simulationRoutes(fastify: FastifyInstance) {
     }
   }, SimulationController.findAll);
 
+  fastify.post('/simulations/compare', {
+    schema: {
+      tags,
+      summary: 'Comparar cenários',
+      description: 'Recalcula a simulação base e cenários alternativos (parâmetros e eventos alterados) com os eventos atuais do cliente. ' +
+        'Retorna as curvas alinhadas por ano, as diferenças ano a ano em relação à base e as métricas de cada cenário. ' +
+        'Nada é salvo, exceto com persist = true (requer permissão de escrita), que grava cada cenário como simulação',
+      body: {
+        type: 'object',
+        required: ['baseSimulationId', 'scenarios'],
+        properties: {
+          baseSimulationId: { type: 'string', description: 'ID da simulação base' },
+          scenarios: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 5,
+            items: {
+              type: 'object',
+              required: ['name'],
+              properties: {
+                name: { type: 'string', minLength: 3, description: 'Nome do cenário' },
+                parameters: {
+                  type: 'object',
+                  description: 'Parâmetros que substituem os da simulação base',
+                  properties: {
+                    initialValue: { type: 'number', minimum: 0 },
+                    interestRate: { type: 'number', minimum: 0, maximum: 1 },
+                    projectionYears: { type: 'integer', minimum: 1, maximum: 50 },
+                    inflationRate: inflationRateBodySchema,
+                    premiumFrequency: premiumFrequencyBodySchema,
+                    tax: taxBodySchema,
+                    retirement: retirementBodySchema,
+                    portfolio: portfolioBodySchema,
+                    lifeEvent: lifeEventBodySchema,
+                    monteCarlo: monteCarloBodySchema
+                  }
+                },
+                events: {
+                  type: 'object',
+                  description: 'Alterações nos eventos do cliente válidas apenas para o cenário',
+                  properties: {
+                    remove: { type: 'array', items: { type: 'string' }, description: 'IDs dos eventos ignorados' },
+                    update: {
+                      type: 'array',
+                      description: 'Eventos alterados (ex.: antecipar a data de fim da renda para simular a aposentadoria)',
+                      items: {
+                        type: 'object',
+                        required: ['id'],
+                        properties: {
+                          id: { type: 'string' },
+                          type: eventTypeBodySchema,
+                          description: { type: 'string' },
+                          value: { type: 'number', minimum: 0 },
+                          frequency: eventFrequencyBodySchema,
+                          inflationIndexed: { type: 'boolean' },
+                          startDate: { type: 'string', format: 'date-time' },
+                          endDate: { type: 'string', format: 'date-time', nullable: true },
+                          ...loanTermsBodyProperties
+                        }
+                      }
+                    },
+                    add: {
+                      type: 'array',
+                      description: 'Eventos incluídos no cenário',
+                      items: {
+                        type: 'object',
+                        required: ['type', 'value', 'frequency', 'startDate'],
+                        properties: {
+                          type: eventTypeBodySchema,
+                          description: { type: 'string' },
+                          value: { type: 'number', minimum: 0 },
+                          frequency: eventFrequencyBodySchema,
+                          inflationIndexed: { type: 'boolean' },
+                          startDate: { type: 'string', format: 'date-time' },
+                          endDate: { type: 'string', format: 'date-time' },
+                          ...loanTermsBodyProperties
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          persist: { type: 'boolean', default: false, description: 'Salvar os cenários como simulações do cliente' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                years: { type: 'array', items: { type: 'integer' } },
+                base: {
+                  type: 'object',
+                  properties: comparedProjectionProperties
+                },
+                scenarios: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      ...comparedProjectionProperties,
+                      metricsDelta: portfolioMetricsSchema,
+                      deltas: { type: 'array', items: comparisonPointSchema }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }, SimulationController.compare);
+
   fastify.get('/simulations/:id', {
     schema: {
       tags,
@@ -76,14 +497,86 @@ export async function simulationRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' }
+            data: { type: 'object', additionalProperties: true }
           }
         }
       }
     }
   }, SimulationController.findById);
 
+  fastify.get('/simulations/:id/metrics', {
+    schema: {
+      tags,
+      summary: 'Métricas da simulação',
+      description: 'Calcula métricas de performance da curva salva (CAGR, ganho total) e confronta a projeção com a carteira, as metas e o fluxo de caixa atual do cliente. ' +
+        'Com aposentadoria configurada, retorna também a renda sustentável e a idade em que o patrimônio se esgota',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                simulationId: { type: 'string' },
+                metrics: portfolioMetricsSchema,
+                currentPatrimony: { type: 'number' },
+                cashFlow: {
+                  type: 'object',
+                  properties: {
+                    monthlyIncome: { type: 'number' },
+                    monthlyExpenses: { type: 'number' },
+                    monthlyInvestments: { type: 'number' }
+                  }
+                },
+                goals: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      goalId: { type: 'string' },
+                      description: { type: 'string' },
+                      targetValue: { type: 'number' },
+                      targetDate: { type: 'string', format: 'date-time' },
+                      projectedValue: { type: 'number' },
+                      reached: { type: 'boolean' }
+                    }
+                  }
+                },
+                retirement: retirementAnalysisSchema
+              }
+            }
+          }
+        }
+      }
+    }
+  }, SimulationController.getMetrics);
+
+  fastify.get('/simulations/:id/export', {
+    schema: {
+      tags,
+      summary: 'Exportar curva da simulação',
+      description: 'Exporta a projeção ano a ano (valores nominais, reais e faixas Monte Carlo, quando houver) em CSV ou XLSX',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      querystring: exportQuerystringSchema
+    }
+  }, SimulationController.exportProjection);
+
   fastify.put('/simulations/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Atualizar simulação',
@@ -100,7 +593,21 @@ export async function simulationRoutes(fastify: FastifyInstance) {
           name: { type: 'string', minLength: 3 },
           initialValue: { type: 'number', minimum: 0 },
           interestRate: { type: 'number', minimum: 0, maximum: 1 },
-          projectionYears: { type: 'integer', minimum: 1, maximum: 50 }
+          projectionYears: { type: 'integer', minimum: 1, maximum: 50 },
+          // null vem antes das demais opções para não ser convertido em número
+          inflationRate: {
+            anyOf: [{ type: 'null' }, ...inflationRateBodySchema.anyOf],
+            description: `${inflationRateBodySchema.description}; null remove a inflação`
+          },
+          premiumFrequency: premiumFrequencyBodySchema,
+          tax: taxBodySchema,
+          retirement: retirementBodySchema,
+          portfolio: portfolioBodySchema,
+          monteCarlo: {
+            ...monteCarloBodySchema,
+            type: ['object', 'null'],
+            description: `${monteCarloBodySchema.description}; null volta à projeção determinística`
+          }
         }
       },
       response: {
@@ -108,7 +615,7 @@ export async function simulationRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             success: { type: 'boolean' },
-            data: { type: 'object' },
+            data: { type: 'object', additionalProperties: true },
             message: { type: 'string' }
           }
         }
@@ -116,7 +623,36 @@ export async function simulationRoutes(fastify: FastifyInstance) {
     }
   }, SimulationController.update);
 
+  fastify.post('/simulations/:id/recompute', {
+    onRequest: [requireWriteAccess],
+    schema: {
+      tags,
+      summary: 'Recalcular simulação com dados atuais',
+      description: 'Recalcula a simulação com os eventos e seguros atuais do cliente e a versão atual do motor, mantendo parâmetros e semente. ' +
+        'Grava o resultado como nova versão (version + 1, parentId = simulação original) e retorna as mudanças nas entradas ' +
+        '(versão do motor, eventos e seguros incluídos, removidos ou alterados), nas métricas e na curva ano a ano',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' }
+        }
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object', additionalProperties: true },
+            message: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, SimulationController.recompute);
+
   fastify.delete('/simulations/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Deletar simulação',
@@ -166,15 +702,22 @@ export async function simulationRoutes(fastify: FastifyInstance) {
     schema: {
       tags,
       summary: 'Gerar projeção patrimonial',
-      description: 'Gera uma projeção patrimonial em tempo real sem salvar',
+      description: 'Gera uma projeção patrimonial em tempo real sem salvar. Com monteCarlo, retorna faixas P10/P50/P90 por ano; com lifeEvent, retorna também a curva do cenário de sinistro; com retirement, retorna a análise da aposentadoria',
       body: {
         type: 'object',
         required: ['clientId', 'initialValue'],
         properties: {
           clientId: { type: 'string', description: 'ID do cliente' },
           initialValue: { type: 'number', minimum: 0, description: 'Valor inicial' },
-          interestRate: { type: 'number', minimum: 0, maximum: 1, default: 0.04, description: 'Taxa de juros anual (padrão 4%)' },
-          projectionYears: { type: 'integer', minimum: 1, maximum: 50, default: 40, description: 'Anos de projeção (padrão até 2060)' }
+          interestRate: { type: 'number', minimum: 0, maximum: 1, description: 'Taxa de juros anual (padrão: retorno das premissas de mercado da organização)' },
+          projectionYears: { type: 'integer', minimum: 1, maximum: 50, default: 40, description: 'Anos de projeção (padrão até 2060)' },
+          inflationRate: inflationRateBodySchema,
+          premiumFrequency: premiumFrequencyBodySchema,
+          tax: taxBodySchema,
+          retirement: retirementBodySchema,
+          portfolio: portfolioBodySchema,
+          lifeEvent: lifeEventBodySchema,
+          monteCarlo: monteCarloBodySchema
         }
       },
       response: {
@@ -187,20 +730,47 @@ export async function simulationRoutes(fastify: FastifyInstance) {
               properties: {
                 projectionData: {
                   type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      year: { type: 'integer' },
-                      projectedValue: { type: 'number' }
-                    }
+                  items: projectionPointSchema
+                },
+                scenarioProjectionData: {
+                  type: 'array',
+                  nullable: true,
+                  description: 'Curva com o cenário de sinistro aplicado (quando lifeEvent é informado)',
+                  items: projectionPointSchema
+                },
+                monteCarlo: {
+                  type: 'object',
+                  nullable: true,
+                  properties: {
+                    expectedReturn: { type: 'number' },
+                    volatility: { type: 'number' },
+                    seed: { type: 'integer' },
+                    simulations: { type: 'integer' },
+                    targetValue: { type: 'number' },
+                    successProbability: { type: 'number' }
                   }
                 },
+                retirement: retirementAnalysisSchema,
                 parameters: {
                   type: 'object',
                   properties: {
                     initialValue: { type: 'number' },
                     interestRate: { type: 'number' },
                     projectionYears: { type: 'integer' },
+                    inflationRate: inflationRateBodySchema,
+                    premiumFrequency: { type: 'string', nullable: true },
+                    lifeEvent: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        type: { type: 'string' },
+                        year: { type: 'integer' }
+                      }
+                    },
+                    tax: taxResponseSchema,
+                    retirement: retirementPlanSchema,
+                    portfolio: portfolioResponseSchema,
+                    assumptionsVersion: { type: 'integer', nullable: true },
                     eventsCount: { type: 'integer' }
                   }
                 }
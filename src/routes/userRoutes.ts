@@ -0,0 +1,115 @@
+import { FastifyInstance } from 'fastify';
+import { UserController } from '../controllers/UserController';
+import { requireAdmin, requireMfa } from '../middleware/auth';
+
+export async function userRoutes(fastify: FastifyInstance) {
+  const tags = ['Users'];
+
+  fastify.post('/users', {
+    onRequest: [requireAdmin, requireMfa],
+    schema: {
+      tags,
+      summary: 'Cadastrar usuário',
+      description: 'Cria um usuário na organização do administrador autenticado. Restrito a administradores com 2FA.',
+      body: {
+        type: 'object',
+        required: ['email', 'password', 'name'],
+        properties: {
+          email: { type: 'string', format: 'email', description: 'Email do usuário' },
+          password: { type: 'string', minLength: 6, description: 'Senha inicial do usuário (mínimo 6 caracteres)' },
+          name: { type: 'string', minLength: 1, description: 'Nome do usuário' },
+          role: { type: 'string', enum: ['ADVISOR', 'VIEWER'], default: 'VIEWER', description: 'Role do usuário (ADVISOR ou VIEWER)' }
+        }
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'object' },
+            message: { type: 'string' }
+          }
+        },
+        400: { $ref: 'ErrorResponse' },
+        409: { $ref: 'ErrorResponse' }
+      }
+    }
+  }, UserController.create);
+
+  fastify.delete('/users/:id/sessions', {
+    onRequest: [requireAdmin, requireMfa],
+    schema: {
+      tags,
+      summary: 'Revogar sessões do usuário',
+      description: 'Revoga todas as sessões ativas do usuário (tokens de acesso e refresh tokens). Restrito a administradores com 2FA.',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID do usuário' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                userId: { type: 'string' },
+                revokedSessions: { type: 'integer' }
+              }
+            },
+            message: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, UserController.revokeSessions);
+
+  fastify.post('/users/:id/unlock', {
+    onRequest: [requireAdmin, requireMfa],
+    schema: {
+      tags,
+      summary: 'Desbloquear conta do usuário',
+      description: 'Remove o bloqueio temporário por excesso de tentativas de login e zera o contador de falhas. Restrito a administradores com 2FA.',
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', description: 'ID do usuário' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                userId: { type: 'string' }
+              }
+            },
+            message: { type: 'string' }
+          }
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, UserController.unlock);
+}
@@ -1,11 +1,21 @@
 import { FastifyInstance } from 'fastify';
 import { WalletController } from '../controllers/WalletController';
+import { requireWriteAccess } from '../middleware/auth';
+
+const exportQuerystringSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['csv', 'xlsx'], default: 'csv', description: 'Formato do arquivo' },
+    locale: { type: 'string', default: 'pt-BR', description: 'Idioma para formatação de números e datas' }
+  }
+};
 
 export async function walletRoutes(fastify: FastifyInstance) {
 
   const tags = ['Wallets'];
 
   fastify.post('/wallets', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Criar entrada de carteira',
@@ -86,6 +96,7 @@ export async function walletRoutes(fastify: FastifyInstance) {
   }, WalletController.findById);
 
   fastify.put('/wallets/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Atualizar entrada de carteira',
@@ -120,6 +131,7 @@ export async function walletRoutes(fastify: FastifyInstance) {
   }, WalletController.update);
 
   fastify.delete('/wallets/:id', {
+    onRequest: [requireWriteAccess],
     schema: {
       tags,
       summary: 'Deletar entrada de carteira',
@@ -179,5 +191,21 @@ export async function walletRoutes(fastify: FastifyInstance) {
       }
     }
   }, WalletController.findByClient);
+
+  fastify.get('/clients/:clientId/wallet/export', {
+    schema: {
+      tags,
+      summary: 'Exportar carteira do cliente',
+      description: 'Exporta a alocação por classe de ativo em CSV ou XLSX',
+      params: {
+        type: 'object',
+        required: ['clientId'],
+        properties: {
+          clientId: { type: 'string' }
+        }
+      },
+      querystring: exportQuerystringSchema
+    }
+  }, WalletController.exportByClient);
 }
 
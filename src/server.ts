@@ -6,6 +6,7 @@ import swaggerUi from '@fastify/swagger-ui';
 
 import { registerRoutes } from './routes';
 import { errorHandler } from './middleware/error-handler';
+import { createRateLimiter, RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_MS } from './middleware/rate-limit';
 import { connectToDatabase, disconnectFromDatabase } from './models';
 
 const fastify = Fastify({
@@ -24,6 +25,8 @@ const fastify = Fastify({
 
 fastify.setErrorHandler(errorHandler);
 
+fastify.addHook('onRequest', createRateLimiter({ max: RATE_LIMIT_MAX, windowMs: RATE_LIMIT_WINDOW_MS }));
+
 fastify.register(cors, {
     origin: process.env.NODE_ENV === 'production'
         ? [process.env.FRONTEND_URL || 'http://localhost:3000']
@@ -36,7 +39,7 @@ fastify.register(cors, {
 fastify.register(jwt, {
     secret: process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production',
     sign: {
-        expiresIn: process.env.JWT_EXPIRES_IN || '24h'
+        expiresIn: process.env.JWT_EXPIRES_IN || '15m'
     }
 });
 
@@ -79,7 +82,12 @@ fastify.register(swagger, {
             { name: 'Goals', description: 'Gerenciamento de metas' },
             { name: 'Wallets', description: 'Gerenciamento de carteiras' },
             { name: 'Events', description: 'Gerenciamento de eventos financeiros' },
-            { name: 'Simulations', description: 'Simulações e projeções patrimoniais' }
+            { name: 'Simulations', description: 'Simulações e projeções patrimoniais' },
+            { name: 'Insurances', description: 'Gerenciamento de seguros' },
+            { name: 'Users', description: 'Administração de usuários e sessões' },
+            { name: 'Imports', description: 'Importação de dados em lote (CSV)' },
+            { name: 'Organizations', description: 'Organizações (family offices) e políticas de segurança' },
+            { name: 'Capital Market Assumptions', description: 'Premissas de mercado versionadas da organização' }
         ]
     }
 });
@@ -0,0 +1,92 @@
+import { AuditAction, AuditEntity, Prisma } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { AuthPayload } from '../types';
+
+type AuditValue = string | number | boolean | null;
+type AuditSnapshot = Record<string, unknown> | null | undefined;
+
+export type AuditChanges = Record<string, { before: AuditValue; after: AuditValue }>;
+
+export type AuditActor = Pick<AuthPayload, 'userId' | 'organizationId' | 'email'>;
+
+export interface AuditEntry {
+  entity: AuditEntity;
+  entityId: string;
+  clientId: string;
+  action: AuditAction;
+  before?: AuditSnapshot;
+  after?: AuditSnapshot;
+}
+
+// Campos controlados pelo banco, que não representam alteração feita pelo usuário
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+export class AuditService {
+  /**
+   * Compara dois estados da entidade e devolve apenas os campos alterados
+   * Datas e decimais são normalizados para texto; campos ausentes equivalem a null
+   */
+  static diff(before: AuditSnapshot, after: AuditSnapshot): AuditChanges {
+    const changes: AuditChanges = {};
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) {
+        continue;
+      }
+
+      const previous = this.normalize(before?.[field]);
+      const current = this.normalize(after?.[field]);
+
+      // Relações incluídas na consulta não fazem parte do estado auditado
+      if (previous === undefined || current === undefined) {
+        continue;
+      }
+
+      if (previous !== current) {
+        changes[field] = { before: previous, after: current };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Registra a alteração na trilha de auditoria
+   * Deve receber o cliente da transação para que a alteração e o registro sejam atômicos
+   */
+  static async record(db: Prisma.TransactionClient, actor: AuditActor, entry: AuditEntry) {
+    return db.auditLog.create({
+      data: {
+        organizationId: actor.organizationId,
+        clientId: entry.clientId,
+        entity: entry.entity,
+        entityId: entry.entityId,
+        action: entry.action,
+        actorId: actor.userId,
+        actorEmail: actor.email,
+        changes: this.diff(entry.before, entry.after)
+      }
+    });
+  }
+
+  private static normalize(value: unknown): AuditValue | undefined {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (Decimal.isDecimal(value)) {
+      return value.toString();
+    }
+
+    if (typeof value === 'object') {
+      return undefined;
+    }
+
+    return value as AuditValue;
+  }
+}
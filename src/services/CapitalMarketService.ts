@@ -0,0 +1,171 @@
+import { CapitalMarketAssumptionSet } from '@prisma/client';
+import { prisma } from '../models';
+import {
+  AssetAllocation,
+  AssetClassCorrelation,
+  CapitalMarketAssumption,
+  CapitalMarketAssumptions,
+  RebalanceFrequency,
+  Wallet
+} from '../types';
+import { cholesky, correlationMatrix, sameAssetClass } from '../utils/portfolio';
+import { DEFAULT_ANNUAL_RATE } from './WealthProjectionService';
+
+// Premissas de mercado padrão (retorno nominal e volatilidade anuais, em reais) por classe de ativo
+export const DEFAULT_CAPITAL_MARKET_ASSUMPTIONS: CapitalMarketAssumption[] = [
+  { assetClass: 'Caixa', expectedReturn: 0.095, volatility: 0.01 },
+  { assetClass: 'Poupança', expectedReturn: 0.07, volatility: 0.005 },
+  { assetClass: 'Renda Fixa', expectedReturn: 0.1, volatility: 0.03 },
+  { assetClass: 'Multimercado', expectedReturn: 0.11, volatility: 0.08 },
+  { assetClass: 'Previdência', expectedReturn: 0.1, volatility: 0.06 },
+  { assetClass: 'Fundos Imobiliários', expectedReturn: 0.12, volatility: 0.15 },
+  { assetClass: 'Ações', expectedReturn: 0.14, volatility: 0.25 },
+  { assetClass: 'Internacional', expectedReturn: 0.12, volatility: 0.18 },
+  { assetClass: 'Criptomoedas', expectedReturn: 0.2, volatility: 0.7 }
+];
+
+export const DEFAULT_REBALANCE_FREQUENCY: RebalanceFrequency = 'ANNUALLY';
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export class CapitalMarketService {
+  /**
+   * Premissas da classe de ativo (sem diferenciar acentos e maiúsculas); as informadas
+   * (na requisição ou na versão da organização) têm precedência sobre a tabela padrão
+   */
+  static assumptionFor(assetClass: string, assumptions: CapitalMarketAssumption[] = []): CapitalMarketAssumption | undefined {
+    return [...assumptions, ...DEFAULT_CAPITAL_MARKET_ASSUMPTIONS].find(assumption => sameAssetClass(assumption.assetClass, assetClass));
+  }
+
+  /**
+   * Classes de ativo da carteira sem premissas de mercado
+   */
+  static unknownAssetClasses(wallets: Pick<Wallet, 'assetClass'>[], assumptions: CapitalMarketAssumption[] = []): string[] {
+    return wallets
+      .filter(wallet => !this.assumptionFor(wallet.assetClass, assumptions))
+      .map(wallet => wallet.assetClass);
+  }
+
+  /**
+   * Alocação da carteira do cliente: peso atual pelo valor atual de cada classe e peso-alvo
+   * pelo percentual planejado (na falta de um deles, vale o outro)
+   */
+  static allocationsFromWallets(
+    wallets: Pick<Wallet, 'assetClass' | 'percentage' | 'currentValue'>[],
+    assumptions: CapitalMarketAssumption[] = []
+  ): AssetAllocation[] {
+    const totalValue = wallets.reduce((sum, wallet) => sum + Number(wallet.currentValue), 0);
+    const totalPercentage = wallets.reduce((sum, wallet) => sum + Number(wallet.percentage), 0);
+
+    return wallets
+      .filter(wallet => Number(wallet.currentValue) > 0 || Number(wallet.percentage) > 0)
+      .map(wallet => {
+        const assumption = this.assumptionFor(wallet.assetClass, assumptions)!;
+        const weight = totalValue > 0 ? Number(wallet.currentValue) / totalValue : Number(wallet.percentage) / totalPercentage;
+        const targetWeight = totalPercentage > 0 ? Number(wallet.percentage) / totalPercentage : weight;
+
+        return {
+          assetClass: wallet.assetClass,
+          expectedReturn: assumption.expectedReturn,
+          volatility: assumption.volatility,
+          weight: round(weight, 4),
+          targetWeight: round(targetWeight, 4)
+        };
+      });
+  }
+
+  /**
+   * Retorno esperado da carteira nos pesos-alvo
+   */
+  static expectedReturn(allocations: AssetAllocation[]): number {
+    return round(allocations.reduce((sum, allocation) => sum + allocation.targetWeight * allocation.expectedReturn, 0), 4);
+  }
+
+  /**
+   * Volatilidade da carteira nos pesos-alvo; classes sem correlação informada são independentes
+   */
+  static volatility(allocations: AssetAllocation[], correlations: AssetClassCorrelation[] = []): number {
+    const matrix = correlationMatrix(allocations.map(allocation => allocation.assetClass), correlations);
+    const variance = allocations.reduce((sum, a, i) => sum + allocations.reduce((inner, b, j) =>
+      inner + a.targetWeight * a.volatility * b.targetWeight * b.volatility * matrix[i][j], 0), 0);
+
+    return round(Math.sqrt(variance), 4);
+  }
+
+  /**
+   * Correlações entre as classes de ativo presentes na alocação
+   */
+  static correlationsFor(allocations: AssetAllocation[], correlations: AssetClassCorrelation[]): AssetClassCorrelation[] {
+    const inAllocation = (assetClass: string) => allocations.some(allocation => sameAssetClass(allocation.assetClass, assetClass));
+    return correlations.filter(({ assetClasses: [a, b] }) => inAllocation(a) && inAllocation(b));
+  }
+
+  /**
+   * Premissas vigentes da organização (última versão); sem versão cadastrada, valem os padrões do sistema
+   */
+  static async current(organizationId: string): Promise<CapitalMarketAssumptions> {
+    const set = await prisma.capitalMarketAssumptionSet.findFirst({
+      where: { organizationId },
+      orderBy: { version: 'desc' }
+    });
+
+    if (!set) {
+      return { version: null, defaultReturn: DEFAULT_ANNUAL_RATE, inflationRate: null, assetClasses: [], correlations: [] };
+    }
+
+    return this.fromSet(set);
+  }
+
+  static fromSet(set: CapitalMarketAssumptionSet): CapitalMarketAssumptions {
+    return {
+      version: set.version,
+      defaultReturn: Number(set.defaultReturn),
+      inflationRate: Number(set.inflationRate),
+      assetClasses: set.assetClasses as unknown as CapitalMarketAssumption[],
+      correlations: set.correlations as unknown as AssetClassCorrelation[]
+    };
+  }
+
+  /**
+   * Erro de consistência de uma versão de premissas: classes de ativo repetidas, correlações com
+   * classes sem premissas (nem na versão, nem na tabela padrão), repetidas ou de uma classe com ela mesma, e matriz de correlação
+   * que não seja positiva semidefinida
+   */
+  static validationError(assetClasses: CapitalMarketAssumption[], correlations: AssetClassCorrelation[]): string | undefined {
+    const names = assetClasses.map(assumption => assumption.assetClass);
+    const duplicated = names.find((name, index) => names.findIndex(other => sameAssetClass(other, name)) !== index);
+    if (duplicated) {
+      return `Classe de ativo duplicada: ${duplicated}`;
+    }
+
+    for (const [index, { assetClasses: [a, b] }] of correlations.entries()) {
+      const unknown = [a, b].find(name => !this.assumptionFor(name, assetClasses));
+      if (unknown) {
+        return `Correlação com classe de ativo não cadastrada: ${unknown}`;
+      }
+
+      if (sameAssetClass(a, b)) {
+        return `Correlação de uma classe de ativo com ela mesma: ${a}`;
+      }
+
+      const repeated = correlations.slice(0, index).some(({ assetClasses: [c, d] }) =>
+        (sameAssetClass(a, c) && sameAssetClass(b, d)) || (sameAssetClass(a, d) && sameAssetClass(b, c))
+      );
+      if (repeated) {
+        return `Correlação duplicada: ${a} e ${b}`;
+      }
+    }
+
+    const correlated = correlations
+      .flatMap(correlation => correlation.assetClasses)
+      .filter((name, index, all) => all.findIndex(other => sameAssetClass(other, name)) === index);
+    if (!cholesky(correlationMatrix(correlated, correlations))) {
+      return 'Correlações inconsistentes entre as classes de ativo';
+    }
+
+    return undefined;
+  }
+}
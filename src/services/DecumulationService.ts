@@ -0,0 +1,76 @@
+import { RetirementAnalysis, RetirementPlan, WealthProjectionParams } from '../types';
+import { WealthProjectionService } from './WealthProjectionService';
+
+export const DEFAULT_LIFE_EXPECTANCY = 100;
+
+// Busca da renda sustentável: limite de dobras do teto e de iterações da bisseção
+const MAX_SEARCH_DOUBLINGS = 40;
+const SEARCH_ITERATIONS = 50;
+
+export class DecumulationService {
+  /**
+   * Analisa a fase de usufruto até a expectativa de vida, na projeção determinística:
+   * - Patrimônio no início da aposentadoria e retirada mensal do primeiro ano pela estratégia
+   * - Idade (e ano) em que o patrimônio se esgota, se antes da expectativa de vida
+   * - Renda sustentável: maior renda mensal constante em moeda de hoje que dura até a expectativa de vida
+   */
+  static analyze(params: WealthProjectionParams & { retirement: RetirementPlan }): RetirementAnalysis {
+    const { retirement } = params;
+    const lifeExpectancy = retirement.lifeExpectancy ?? DEFAULT_LIFE_EXPECTANCY;
+    const horizon = Math.max(0, lifeExpectancy - retirement.currentAge);
+    const retirementIndex = retirement.retirementAge - retirement.currentAge;
+
+    const projection = WealthProjectionService.simulateWealthCurve({ ...params, projectionYears: horizon });
+
+    const depletionIndex = projection.findIndex((point, index) => index >= retirementIndex && point.projectedValue <= 0);
+    const firstYearWithdrawal = projection[retirementIndex]?.withdrawal ?? 0;
+
+    return {
+      strategy: retirement.strategy,
+      retirementAge: retirement.retirementAge,
+      retirementYear: new Date().getFullYear() + retirementIndex,
+      lifeExpectancy,
+      desiredIncome: retirement.desiredIncome,
+      portfolioAtRetirement: retirementIndex > 0 ? projection[retirementIndex - 1].projectedValue : params.initialValue,
+      initialMonthlyWithdrawal: Math.round((firstYearWithdrawal / 12) * 100) / 100,
+      sustainableWithdrawal: this.sustainableWithdrawal({ ...params, projectionYears: horizon }),
+      depletionAge: depletionIndex >= 0 ? retirement.currentAge + depletionIndex : null,
+      depletionYear: depletionIndex >= 0 ? projection[depletionIndex].year : null
+    };
+  }
+
+  /**
+   * Maior renda mensal real (retirada fixa em moeda de hoje) que mantém patrimônio positivo
+   * até o fim do horizonte, por bisseção
+   */
+  static sustainableWithdrawal(params: WealthProjectionParams & { retirement: RetirementPlan }): number {
+    const lasts = (desiredIncome: number) => {
+      const curve = WealthProjectionService.simulateWealthCurve({
+        ...params,
+        retirement: { ...params.retirement, strategy: 'FIXED_REAL', desiredIncome }
+      });
+      return curve[curve.length - 1].projectedValue > 0;
+    };
+
+    if (!lasts(0)) return 0;
+
+    let low = 0;
+    let high = 1000;
+    for (let doubling = 0; doubling < MAX_SEARCH_DOUBLINGS && lasts(high); doubling++) {
+      low = high;
+      high *= 2;
+    }
+
+    for (let iteration = 0; iteration < SEARCH_ITERATIONS; iteration++) {
+      const middle = (low + high) / 2;
+      if (lasts(middle)) {
+        low = middle;
+      }
+      else {
+        high = middle;
+      }
+    }
+
+    return Math.floor(low * 100) / 100;
+  }
+}
@@ -0,0 +1,217 @@
+import type { Event, Wallet } from '@prisma/client';
+import { z } from 'zod';
+import { escapeCsvFormula, formatCsvRecords } from '../utils/csv';
+import { buildXlsx, XlsxCell, XlsxColumn } from '../utils/xlsx';
+import { ProjectionPoint } from '../types';
+
+export const DEFAULT_EXPORT_LOCALE = 'pt-BR';
+
+export const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx']).optional().default('csv'),
+  locale: z.string()
+    .refine(isSupportedLocale, 'Idioma não suportado')
+    .optional()
+    .default(DEFAULT_EXPORT_LOCALE)
+});
+
+export type ExportOptions = z.infer<typeof exportQuerySchema>;
+
+export interface ExportTable {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+}
+
+export interface ExportFile {
+  contentType: string;
+  extension: string;
+  body: Buffer;
+}
+
+const CONTENT_TYPES: Record<ExportOptions['format'], string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+const EVENT_TYPE_LABELS: Record<Event['type'], string> = {
+  INCOME: 'Receita',
+  EXPENSE: 'Despesa',
+  INVESTMENT: 'Aporte',
+  WITHDRAWAL: 'Resgate',
+  BONUS: 'Bônus',
+  INHERITANCE: 'Herança',
+  LOAN: 'Empréstimo'
+};
+
+const EVENT_FREQUENCY_LABELS: Record<Event['frequency'], string> = {
+  ONCE: 'Única',
+  MONTHLY: 'Mensal',
+  QUARTERLY: 'Trimestral',
+  ANNUALLY: 'Anual'
+};
+
+function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export class ExportService {
+  /**
+   * Curva ano a ano da simulação; colunas de Monte Carlo e valor real só aparecem quando calculadas
+   */
+  static simulationCurve(projectionData: ProjectionPoint[]): ExportTable {
+    const has = (field: keyof ProjectionPoint) => projectionData.some(point => point[field] !== undefined);
+
+    const fields: { field: keyof ProjectionPoint; column: XlsxColumn; scale?: number }[] = [
+      { field: 'year', column: { header: 'Ano', format: 'integer' } },
+      { field: 'projectedValue', column: { header: 'Valor projetado', format: 'decimal', width: 18 } },
+      { field: 'assets', column: { header: 'Ativos', format: 'decimal', width: 18 } },
+      { field: 'outstandingDebt', column: { header: 'Saldo devedor', format: 'decimal', width: 18 } },
+      { field: 'realValue', column: { header: 'Valor real', format: 'decimal', width: 18 } },
+      { field: 'afterTaxValue', column: { header: 'Valor após IR', format: 'decimal', width: 18 } },
+      { field: 'afterTaxRealValue', column: { header: 'Valor real após IR', format: 'decimal', width: 18 } },
+      { field: 'withdrawal', column: { header: 'Retiradas no ano', format: 'decimal', width: 18 } },
+      { field: 'p10', column: { header: 'P10', format: 'decimal', width: 18 } },
+      { field: 'p50', column: { header: 'P50', format: 'decimal', width: 18 } },
+      { field: 'p90', column: { header: 'P90', format: 'decimal', width: 18 } },
+      { field: 'probabilityAboveTarget', column: { header: 'Probabilidade acima da meta (%)', format: 'percent' }, scale: 100 }
+    ];
+    const visible = fields.filter(({ field }) => field === 'year' || field === 'projectedValue' || has(field));
+
+    return {
+      name: 'Projeção',
+      columns: visible.map(({ column }) => column),
+      rows: projectionData.map(point =>
+        visible.map(({ field, scale }) => {
+          const value = point[field];
+          return value !== undefined && scale ? Math.round(value * scale * 100) / 100 : value;
+        })
+      )
+    };
+  }
+
+  /**
+   * Alocação da carteira por classe de ativo, com linha de total ao final
+   */
+  static walletAllocation(wallets: Wallet[]): ExportTable {
+    const rows: XlsxCell[][] = wallets.map(wallet => [
+      wallet.assetClass,
+      Number(wallet.percentage),
+      Number(wallet.currentValue),
+      Number(wallet.totalPatrimony),
+      Number(wallet.alignmentPercent)
+    ]);
+
+    const totalPercentage = wallets.reduce((sum, wallet) => sum + Number(wallet.percentage), 0);
+    const totalCurrentValue = wallets.reduce((sum, wallet) => sum + Number(wallet.currentValue), 0);
+    rows.push(['Total', Math.round(totalPercentage * 100) / 100, totalCurrentValue, null, null]);
+
+    return {
+      name: 'Carteira',
+      columns: [
+        { header: 'Classe de ativo', format: 'text', width: 24 },
+        { header: 'Percentual (%)', format: 'percent' },
+        { header: 'Valor atual', format: 'decimal', width: 18 },
+        { header: 'Patrimônio total', format: 'decimal', width: 18 },
+        { header: 'Alinhamento (%)', format: 'percent' }
+      ],
+      rows
+    };
+  }
+
+  /**
+   * Cronograma de eventos do cliente em ordem de início
+   */
+  static eventSchedule(events: Event[]): ExportTable {
+    const sorted = [...events].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    return {
+      name: 'Eventos',
+      columns: [
+        { header: 'Início', format: 'date' },
+        { header: 'Fim', format: 'date' },
+        { header: 'Tipo', format: 'text' },
+        { header: 'Descrição', format: 'text', width: 32 },
+        { header: 'Frequência', format: 'text' },
+        { header: 'Valor', format: 'decimal', width: 18 },
+        { header: 'Corrigido pela inflação', format: 'text', width: 24 }
+      ],
+      rows: sorted.map(event => [
+        event.startDate,
+        event.endDate,
+        EVENT_TYPE_LABELS[event.type] ?? event.type,
+        event.description,
+        EVENT_FREQUENCY_LABELS[event.frequency] ?? event.frequency,
+        Number(event.value),
+        event.inflationIndexed ? 'Sim' : 'Não'
+      ])
+    };
+  }
+
+  /**
+   * Gera o arquivo no formato pedido
+   * No CSV, números e datas são formatados no idioma informado e o separador acompanha o separador decimal
+   * (";" quando a vírgula é decimal, como no pt-BR); no XLSX, são gravados como valores nativos
+   */
+  static render(table: ExportTable, options: ExportOptions): ExportFile {
+    const body = options.format === 'xlsx'
+      ? buildXlsx({ ...table, datePattern: this.datePattern(options.locale) })
+      : this.toCsv(table, options.locale);
+
+    return {
+      contentType: CONTENT_TYPES[options.format],
+      extension: options.format,
+      body
+    };
+  }
+
+  static toCsv(table: ExportTable, locale: string): Buffer {
+    const records = [
+      table.columns.map(column => column.header),
+      ...table.rows.map(row => table.columns.map((column, index) => this.formatValue(row[index], column, locale)))
+    ];
+
+    // O BOM faz o Excel abrir o arquivo como UTF-8
+    return Buffer.from(`\uFEFF${formatCsvRecords(records, this.csvDelimiter(locale))}`, 'utf8');
+  }
+
+  static formatValue(value: XlsxCell, column: XlsxColumn, locale: string): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return new Intl.DateTimeFormat(locale, { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' }).format(value);
+    }
+
+    if (typeof value === 'number') {
+      return column.format === 'integer'
+        ? new Intl.NumberFormat(locale, { maximumFractionDigits: 0, useGrouping: false }).format(value)
+        : new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+    }
+
+    // Textos vêm do usuário (descrições, classes de ativo) e não podem virar fórmulas na planilha
+    return escapeCsvFormula(String(value));
+  }
+
+  static csvDelimiter(locale: string): string {
+    const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal');
+    return decimal?.value === ',' ? ';' : ',';
+  }
+
+  /**
+   * Máscara de data do Excel na ordem do idioma (ex.: pt-BR "dd/mm/yyyy", en-US "mm/dd/yyyy")
+   */
+  static datePattern(locale: string): string {
+    const tokens: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = { day: 'dd', month: 'mm', year: 'yyyy' };
+
+    return new Intl.DateTimeFormat(locale, { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' })
+      .formatToParts(new Date(Date.UTC(2030, 11, 31)))
+      // Textos literais (ex.: "de") precisam de aspas na máscara
+      .map(part => tokens[part.type] ?? (/[a-z]/i.test(part.value) ? `"${part.value}"` : part.value))
+      .join('');
+  }
+}
@@ -0,0 +1,78 @@
+import { Goal, GoalFeasibility, GoalFeasibilityParams } from '../types';
+import { WealthProjectionService } from './WealthProjectionService';
+import { generateSeed } from '../utils/random';
+
+export const DEFAULT_VOLATILITY = 0.1;
+export const DEFAULT_FEASIBILITY_SIMULATIONS = 500;
+// Mesmo limite de projectionYears das simulações
+export const MAX_GOAL_HORIZON_YEARS = 50;
+
+export class GoalFeasibilityService {
+  /**
+   * Avalia a viabilidade das metas do cliente com o motor de projeção
+   * Para cada meta retorna:
+   * - Valor projetado no ano da data alvo e o déficit em relação ao alvo
+   * - Probabilidade de sucesso (Monte Carlo)
+   * - Aporte mensal adicional necessário para cobrir o déficit
+   * Cada meta é avaliada isoladamente contra o patrimônio total do cliente
+   * Metas além de MAX_GOAL_HORIZON_YEARS são avaliadas no horizonte máximo
+   */
+  static analyze(goals: Omit<Goal, 'client'>[], params: GoalFeasibilityParams): GoalFeasibility[] {
+    if (goals.length === 0) return [];
+
+    const { initialValue, interestRate, volatility, events } = params;
+    const simulations = params.simulations ?? DEFAULT_FEASIBILITY_SIMULATIONS;
+    const seed = params.seed ?? generateSeed();
+
+    const currentYear = new Date().getFullYear();
+    const yearIndexOf = (goal: Omit<Goal, 'client'>) =>
+      Math.min(MAX_GOAL_HORIZON_YEARS, Math.max(0, new Date(goal.targetDate).getFullYear() - currentYear));
+
+    const projection = WealthProjectionService.simulateWealthCurve({
+      initialValue,
+      interestRate,
+      events,
+      projectionYears: Math.max(...goals.map(yearIndexOf))
+    });
+
+    // Taxa efetiva equivalente à capitalização mensal do modo determinístico
+    const expectedReturn = Math.pow(1 + interestRate / 12, 12) - 1;
+
+    return goals.map(goal => {
+      const yearIndex = yearIndexOf(goal);
+      const targetValue = Number(goal.targetValue);
+      const projectedValue = projection[yearIndex].projectedValue;
+      const shortfall = Math.max(0, targetValue - projectedValue);
+
+      const monteCarlo = WealthProjectionService.simulateMonteCarlo({
+        initialValue,
+        events,
+        projectionYears: yearIndex,
+        expectedReturn,
+        volatility,
+        seed,
+        simulations,
+        targetValue
+      });
+
+      const requiredMonthlyContribution = WealthProjectionService.requiredMonthlyContribution(
+        shortfall,
+        interestRate,
+        (yearIndex + 1) * 12
+      );
+
+      return {
+        goalId: goal.id,
+        type: goal.type,
+        description: goal.description,
+        targetValue,
+        targetDate: goal.targetDate,
+        projectedValue,
+        shortfall: Math.round(shortfall * 100) / 100,
+        successProbability: monteCarlo.successProbability ?? 0,
+        requiredMonthlyContribution: Math.round(requiredMonthlyContribution * 100) / 100,
+        feasible: shortfall === 0
+      };
+    });
+  }
+}
@@ -0,0 +1,405 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../models';
+import { AuditService } from './AuditService';
+import { createClientSchema } from '../controllers/ClientController';
+import { createEventSchema, loanTermsError } from '../controllers/EventController';
+import { createWalletSchema } from '../controllers/WalletController';
+import { CsvRow, parseCsvBoolean, parseCsvDate, parseCsvNumber } from '../utils/csv';
+import { AuthPayload, ImportSummary, ImportType, SSEMessage } from '../types';
+
+export const MAX_IMPORT_ROWS = Number(process.env.MAX_IMPORT_ROWS || 5000);
+
+// Importações concluídas ficam disponíveis para consulta por uma hora
+const IMPORT_RETENTION_MS = 60 * 60 * 1000;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 2 * 60 * 1000;
+
+const REQUIRED_COLUMNS: Record<ImportType, string[]> = {
+  clients: ['name', 'email', 'age', 'familyProfile'],
+  events: ['type', 'value', 'frequency', 'startDate'],
+  wallets: ['assetClass', 'percentage', 'currentValue', 'totalPatrimony', 'alignmentPercent']
+};
+
+const NUMBER_COLUMNS = ['age', 'value', 'percentage', 'currentValue', 'totalPatrimony', 'alignmentPercent', 'interestRate', 'termMonths'];
+const BOOLEAN_COLUMNS = ['isActive', 'inflationIndexed'];
+const DATE_COLUMNS = ['startDate', 'endDate'];
+const ENUM_COLUMNS = ['familyProfile', 'type', 'frequency', 'amortizationSystem'];
+
+type PreparedRow =
+  | { type: 'clients'; data: z.infer<typeof createClientSchema> }
+  | { type: 'events'; data: z.infer<typeof createEventSchema> }
+  | { type: 'wallets'; data: z.infer<typeof createWalletSchema> };
+
+type ImportListener = (message: SSEMessage) => void;
+
+interface ImportJob extends ImportSummary {
+  owner: AuthPayload;
+  scope: Prisma.ClientWhereInput;
+  rows: CsvRow[];
+  rowErrors: SSEMessage[];
+  listeners: Set<ImportListener>;
+}
+
+// Estado compartilhado entre as linhas: duplicidades dentro do arquivo e clientes já resolvidos
+interface ImportContext {
+  seen: Set<string>;
+  clients: Map<string, string | null>;
+}
+
+class ImportRowError extends Error {}
+
+export class ImportService {
+  private static jobs = new Map<string, ImportJob>();
+
+  /**
+   * Colunas obrigatórias ausentes no cabeçalho do CSV
+   * Eventos e carteiras identificam o cliente por clientId ou clientEmail
+   */
+  static missingColumns(type: ImportType, headers: string[]): string[] {
+    const missing = REQUIRED_COLUMNS[type].filter(column => !headers.includes(column));
+
+    if (type !== 'clients' && !headers.includes('clientId') && !headers.includes('clientEmail')) {
+      missing.push('clientId ou clientEmail');
+    }
+
+    return missing;
+  }
+
+  /**
+   * Registra a importação e processa as linhas em segundo plano
+   * Com atomic, nada é gravado se alguma linha falhar; sem atomic, as linhas válidas são gravadas
+   */
+  static start(params: {
+    type: ImportType;
+    atomic: boolean;
+    rows: CsvRow[];
+    owner: AuthPayload;
+    scope: Prisma.ClientWhereInput;
+  }): ImportSummary {
+    const job: ImportJob = {
+      id: crypto.randomUUID(),
+      type: params.type,
+      atomic: params.atomic,
+      status: 'processing',
+      progress: { total: params.rows.length, processed: 0, errors: [], percentage: 0 },
+      imported: 0,
+      createdAt: new Date(),
+      finishedAt: null,
+      owner: params.owner,
+      scope: params.scope,
+      rows: params.rows,
+      rowErrors: [],
+      listeners: new Set()
+    };
+
+    this.jobs.set(job.id, job);
+    setImmediate(() => void this.run(job));
+
+    return this.summarize(job);
+  }
+
+  /**
+   * Importações são visíveis apenas para o usuário que as iniciou
+   */
+  static find(id: string, user: AuthPayload): ImportSummary | null {
+    const job = this.jobs.get(id);
+    if (!job || job.owner.userId !== user.userId || job.owner.organizationId !== user.organizationId) {
+      return null;
+    }
+
+    return this.summarize(job);
+  }
+
+  /**
+   * Reenvia os erros já ocorridos e o progresso atual, e passa a receber os próximos eventos
+   * A mensagem "complete" é sempre a última; depois dela não há mais eventos
+   */
+  static subscribe(id: string, listener: ImportListener): () => void {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return () => undefined;
+    }
+
+    job.rowErrors.forEach(listener);
+    listener(this.message('progress', { ...job.progress }));
+
+    if (job.status !== 'processing') {
+      listener(this.message('complete', this.summarize(job)));
+      return () => undefined;
+    }
+
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  private static async run(job: ImportJob): Promise<void> {
+    const context: ImportContext = { seen: new Set(), clients: new Map() };
+    const prepared: PreparedRow[] = [];
+
+    try {
+      for (const [index, row] of job.rows.entries()) {
+        // A linha 1 é o cabeçalho
+        const line = index + 2;
+
+        try {
+          const preparedRow = await this.prepare(job, row, context);
+
+          if (job.atomic) {
+            prepared.push(preparedRow);
+          } else {
+            await prisma.$transaction(tx => this.persist(tx, job, preparedRow));
+            job.imported++;
+          }
+        } catch (error) {
+          this.rowFailed(job, line, error);
+        }
+
+        job.progress.processed++;
+        job.progress.percentage = Math.round((job.progress.processed / job.progress.total) * 100);
+        this.emit(job, this.message('progress', { ...job.progress }));
+      }
+
+      if (job.atomic && job.progress.errors.length === 0) {
+        await prisma.$transaction(async tx => {
+          for (const row of prepared) {
+            await this.persist(tx, job, row);
+          }
+        }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+
+        job.imported = prepared.length;
+      }
+
+      job.status = job.atomic && job.progress.errors.length > 0 ? 'failed' : 'completed';
+    } catch (error) {
+      console.error('Erro ao processar importação:', error);
+      job.status = 'failed';
+      job.progress.errors.push('Erro interno ao gravar a importação');
+    }
+
+    job.finishedAt = new Date();
+    this.emit(job, this.message('complete', this.summarize(job)));
+
+    job.listeners.clear();
+    job.rows = [];
+    setTimeout(() => this.jobs.delete(job.id), IMPORT_RETENTION_MS).unref();
+  }
+
+  /**
+   * Converte os campos do CSV e valida a linha com o mesmo schema da criação individual
+   */
+  private static async prepare(job: ImportJob, row: CsvRow, context: ImportContext): Promise<PreparedRow> {
+    const values = this.coerce(row);
+
+    switch (job.type) {
+      case 'clients': {
+        const data = createClientSchema.parse(values);
+        const key = data.email.toLowerCase();
+
+        if (context.seen.has(key)) {
+          throw new ImportRowError('Email repetido no arquivo');
+        }
+
+        const existingClient = await prisma.client.findFirst({
+          where: { email: data.email, organizationId: job.owner.organizationId }
+        });
+
+        if (existingClient) {
+          throw new ImportRowError('Email já está em uso');
+        }
+
+        context.seen.add(key);
+        return { type: 'clients', data };
+      }
+
+      case 'events': {
+        const clientId = await this.resolveClient(job, values, context);
+        const data = createEventSchema.parse({ ...values, clientId });
+
+        if (data.endDate && data.endDate <= data.startDate) {
+          throw new ImportRowError('Data de fim deve ser posterior à data de início');
+        }
+
+        const loanError = loanTermsError(data);
+        if (loanError) {
+          throw new ImportRowError(loanError);
+        }
+
+        return { type: 'events', data };
+      }
+
+      case 'wallets': {
+        const clientId = await this.resolveClient(job, values, context);
+        const data = createWalletSchema.parse({ ...values, clientId });
+        const key = `${clientId}:${data.assetClass}`;
+
+        if (context.seen.has(key)) {
+          throw new ImportRowError('Classe de ativo repetida no arquivo para este cliente');
+        }
+
+        const existingWallet = await prisma.wallet.findFirst({
+          where: { clientId, assetClass: data.assetClass }
+        });
+
+        if (existingWallet) {
+          throw new ImportRowError('Já existe uma entrada para esta classe de ativo');
+        }
+
+        context.seen.add(key);
+        return { type: 'wallets', data };
+      }
+    }
+  }
+
+  private static async persist(tx: Prisma.TransactionClient, job: ImportJob, row: PreparedRow): Promise<void> {
+    switch (row.type) {
+      case 'clients': {
+        const client = await tx.client.create({
+          data: {
+            ...row.data,
+            organizationId: job.owner.organizationId,
+            advisors: {
+              create: { userId: job.owner.userId }
+            }
+          }
+        });
+
+        await AuditService.record(tx, job.owner, {
+          entity: 'CLIENT',
+          entityId: client.id,
+          clientId: client.id,
+          action: 'CREATE',
+          after: client
+        });
+        return;
+      }
+
+      case 'events': {
+        const event = await tx.event.create({
+          data: {
+            ...row.data,
+            value: row.data.value.toString(),
+            interestRate: row.data.interestRate?.toString()
+          }
+        });
+
+        await AuditService.record(tx, job.owner, {
+          entity: 'EVENT',
+          entityId: event.id,
+          clientId: event.clientId,
+          action: 'CREATE',
+          after: event
+        });
+        return;
+      }
+
+      case 'wallets': {
+        const wallet = await tx.wallet.create({
+          data: {
+            ...row.data,
+            percentage: row.data.percentage.toString(),
+            currentValue: row.data.currentValue.toString(),
+            totalPatrimony: row.data.totalPatrimony.toString(),
+            alignmentPercent: row.data.alignmentPercent.toString()
+          }
+        });
+
+        await AuditService.record(tx, job.owner, {
+          entity: 'WALLET',
+          entityId: wallet.id,
+          clientId: wallet.clientId,
+          action: 'CREATE',
+          after: wallet
+        });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Resolve o cliente da linha (por clientId ou clientEmail) dentro da carteira de quem importa
+   */
+  private static async resolveClient(job: ImportJob, values: Record<string, unknown>, context: ImportContext): Promise<string> {
+    const clientId = typeof values.clientId === 'string' ? values.clientId : undefined;
+    const clientEmail = typeof values.clientEmail === 'string' ? values.clientEmail : undefined;
+    const key = clientId ? `id:${clientId}` : `email:${clientEmail?.toLowerCase()}`;
+
+    if (!clientId && !clientEmail) {
+      throw new ImportRowError('Informe clientId ou clientEmail');
+    }
+
+    if (!context.clients.has(key)) {
+      const client = await prisma.client.findFirst({
+        where: clientId ? { id: clientId, ...job.scope } : { email: clientEmail, ...job.scope },
+        select: { id: true }
+      });
+      context.clients.set(key, client?.id ?? null);
+    }
+
+    const resolved = context.clients.get(key);
+    if (!resolved) {
+      throw new ImportRowError('Cliente não encontrado');
+    }
+
+    return resolved;
+  }
+
+  private static coerce(row: CsvRow): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    for (const [column, value] of Object.entries(row)) {
+      // Células vazias equivalem a campos não informados
+      if (value === '') continue;
+
+      if (NUMBER_COLUMNS.includes(column)) values[column] = parseCsvNumber(value);
+      else if (BOOLEAN_COLUMNS.includes(column)) values[column] = parseCsvBoolean(value);
+      else if (DATE_COLUMNS.includes(column)) values[column] = parseCsvDate(value);
+      else if (ENUM_COLUMNS.includes(column)) values[column] = value.toUpperCase();
+      else values[column] = value;
+    }
+
+    return values;
+  }
+
+  private static rowFailed(job: ImportJob, line: number, error: unknown): void {
+    let message: string;
+
+    if (error instanceof z.ZodError) {
+      message = error.issues
+        .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+        .join('; ');
+    } else if (error instanceof ImportRowError) {
+      message = error.message;
+    } else {
+      console.error('Erro ao importar linha:', error);
+      message = 'Erro ao gravar o registro';
+    }
+
+    job.progress.errors.push(`Linha ${line}: ${message}`);
+
+    const rowError = this.message('error', { line, message });
+    job.rowErrors.push(rowError);
+    this.emit(job, rowError);
+  }
+
+  private static emit(job: ImportJob, message: SSEMessage): void {
+    job.listeners.forEach(listener => listener(message));
+  }
+
+  private static message(type: SSEMessage['type'], data: unknown): SSEMessage {
+    return { type, data, timestamp: new Date() };
+  }
+
+  private static summarize(job: ImportJob): ImportSummary {
+    return {
+      id: job.id,
+      type: job.type,
+      atomic: job.atomic,
+      status: job.status,
+      progress: { ...job.progress, errors: [...job.progress.errors] },
+      imported: job.imported,
+      createdAt: job.createdAt,
+      finishedAt: job.finishedAt
+    };
+  }
+}
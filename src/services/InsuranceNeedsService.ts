@@ -0,0 +1,130 @@
+import { Event, InsuranceCoverageNeed, InsuranceNeedsAnalysis, InsuranceNeedsParams } from '../types';
+import { LoanSchedule, isAmortizedLoan } from '../utils/loan';
+
+export const DEFAULT_SUPPORT_YEARS = 10;
+export const DEFAULT_RETIREMENT_AGE = 65;
+
+const ANNUAL_OCCURRENCES: Record<string, number> = { MONTHLY: 12, QUARTERLY: 4, ANNUALLY: 1 };
+const MONTHS_BETWEEN_OCCURRENCES: Record<string, number> = { MONTHLY: 1, QUARTERLY: 3, ANNUALLY: 12 };
+
+export class InsuranceNeedsService {
+  /**
+   * Análise de necessidade de seguro de vida e invalidez
+   * Necessidade = despesas anuais x horizonte + dívidas em aberto + metas de educação - patrimônio atual
+   * - LIFE: horizonte de sustento da família (supportYears)
+   * - DISABILITY: anos restantes até a aposentadoria
+   * O gap é a diferença entre a necessidade e a cobertura já contratada
+   */
+  static analyze(params: InsuranceNeedsParams): InsuranceNeedsAnalysis {
+    const referenceDate = params.referenceDate ?? new Date();
+    const supportYears = params.supportYears ?? DEFAULT_SUPPORT_YEARS;
+    const retirementAge = params.retirementAge ?? DEFAULT_RETIREMENT_AGE;
+
+    const annualExpenses = this.getAnnualExpenses(params.events, referenceDate);
+    const outstandingDebt = this.getOutstandingDebt(params.events, referenceDate);
+
+    const educationCosts = params.goals
+      .filter(goal => goal.type === 'EDUCATION' && new Date(goal.targetDate) >= referenceDate)
+      .reduce((sum, goal) => sum + Number(goal.targetValue), 0);
+
+    const currentPatrimony = params.wallets.reduce((sum, wallet) =>
+      sum + Number(wallet.currentValue), 0
+    );
+
+    const buildNeed = (type: 'LIFE' | 'DISABILITY', horizonYears: number): InsuranceCoverageNeed => {
+      const recommendedCoverage = Math.max(
+        0,
+        annualExpenses * horizonYears + outstandingDebt + educationCosts - currentPatrimony
+      );
+
+      const existingCoverage = params.insurances
+        .filter(insurance => insurance.type === type)
+        .reduce((sum, insurance) => sum + Number(insurance.coverage), 0);
+
+      return {
+        type,
+        horizonYears,
+        recommendedCoverage: Math.round(recommendedCoverage * 100) / 100,
+        existingCoverage,
+        coverageGap: Math.round(Math.max(0, recommendedCoverage - existingCoverage) * 100) / 100
+      };
+    };
+
+    return {
+      annualExpenses: Math.round(annualExpenses * 100) / 100,
+      outstandingDebt: Math.round(outstandingDebt * 100) / 100,
+      educationCosts,
+      currentPatrimony,
+      needs: [
+        buildNeed('LIFE', supportYears),
+        buildNeed('DISABILITY', Math.max(0, retirementAge - params.age))
+      ]
+    };
+  }
+
+  /**
+   * Despesas recorrentes anualizadas vigentes na data de referência
+   * Empréstimos sem data de fim são tratados como despesa recorrente; os amortizados entram no saldo devedor
+   */
+  private static getAnnualExpenses(events: Omit<Event, 'client'>[], referenceDate: Date): number {
+    return events
+      .filter(event => this.isActive(event, referenceDate))
+      .filter(event => event.type === 'EXPENSE' || (event.type === 'LOAN' && !event.endDate && !isAmortizedLoan(event)))
+      .reduce((sum, event) => sum + Number(event.value) * (ANNUAL_OCCURRENCES[event.frequency] ?? 0), 0);
+  }
+
+  /**
+   * Saldo devedor: saldo do cronograma dos empréstimos amortizados, parcelas restantes
+   * dos demais empréstimos com prazo definido e empréstimos únicos ainda não liquidados
+   */
+  private static getOutstandingDebt(events: Omit<Event, 'client'>[], referenceDate: Date): number {
+    let outstanding = 0;
+
+    for (const event of events) {
+      if (event.type !== 'LOAN') continue;
+
+      if (isAmortizedLoan(event)) {
+        outstanding += LoanSchedule.fromEvent(event).balanceAt(referenceDate);
+        continue;
+      }
+
+      if (event.frequency === 'ONCE') {
+        if (new Date(event.startDate) >= referenceDate) {
+          outstanding += Number(event.value);
+        }
+        continue;
+      }
+
+      if (!event.endDate || new Date(event.endDate) < referenceDate) continue;
+
+      const startDate = new Date(event.startDate);
+      const endDate = new Date(event.endDate);
+      const interval = MONTHS_BETWEEN_OCCURRENCES[event.frequency];
+
+      // Próxima parcela a partir da data de referência, respeitando a periodicidade
+      const monthsElapsed = Math.max(0, this.getMonthsDifference(startDate, referenceDate));
+      const nextOccurrence = Math.ceil(monthsElapsed / interval) * interval;
+      const totalMonths = this.getMonthsDifference(startDate, endDate);
+
+      if (totalMonths < nextOccurrence) continue;
+
+      const remainingInstallments = Math.floor((totalMonths - nextOccurrence) / interval) + 1;
+      outstanding += remainingInstallments * Number(event.value);
+    }
+
+    return outstanding;
+  }
+
+  private static isActive(event: Omit<Event, 'client'>, referenceDate: Date): boolean {
+    if (event.frequency === 'ONCE') return false;
+    if (new Date(event.startDate) > referenceDate) return false;
+    if (event.endDate && new Date(event.endDate) < referenceDate) return false;
+    return true;
+  }
+
+  private static getMonthsDifference(startDate: Date, targetDate: Date): number {
+    const yearDiff = targetDate.getFullYear() - startDate.getFullYear();
+    const monthDiff = targetDate.getMonth() - startDate.getMonth();
+    return yearDiff * 12 + monthDiff;
+  }
+}
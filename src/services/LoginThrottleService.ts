@@ -0,0 +1,180 @@
+import { prisma } from '../models';
+
+export const MAX_FAILED_LOGIN_ATTEMPTS = Number(process.env.MAX_FAILED_LOGIN_ATTEMPTS || 5);
+export const MAX_FAILED_LOGIN_ATTEMPTS_PER_IP = Number(process.env.MAX_FAILED_LOGIN_ATTEMPTS_PER_IP || 20);
+export const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15);
+export const LOGIN_DELAY_BASE_MS = Number(process.env.LOGIN_DELAY_BASE_MS || 1000);
+
+const MAX_LOGIN_DELAY_MS = 30 * 1000;
+const MINUTE_IN_MS = 60 * 1000;
+const IP_SWEEP_THRESHOLD = 10000;
+
+export type ThrottledUser = {
+  id: string;
+  failedLoginAttempts: number;
+  lastFailedLoginAt: Date | null;
+  lockedUntil: Date | null;
+};
+
+type IpFailures = { count: number; lastFailureAt: number };
+
+export class LoginThrottleService {
+  private static ipFailures = new Map<string, IpFailures>();
+
+  /**
+   * Atraso progressivo após falhas consecutivas: base, 2x base, 4x base... limitado a 30 segundos
+   */
+  static delayFor(failures: number): number {
+    if (failures <= 0) {
+      return 0;
+    }
+
+    return Math.min(LOGIN_DELAY_BASE_MS * 2 ** (failures - 1), MAX_LOGIN_DELAY_MS);
+  }
+
+  /**
+   * Tempo restante (ms) até o IP poder tentar novamente
+   * Ao atingir o limite de falhas, o IP fica bloqueado pela janela de bloqueio
+   */
+  static ipRetryAfterMs(ip: string, now = Date.now()): number {
+    const entry = this.getIpFailures(ip, now);
+    if (!entry || entry.count < MAX_FAILED_LOGIN_ATTEMPTS_PER_IP) {
+      return 0;
+    }
+
+    return Math.max(0, entry.lastFailureAt + LOGIN_LOCKOUT_MINUTES * MINUTE_IN_MS - now);
+  }
+
+  /**
+   * Conta a tentativa do IP antes de qualquer await, para que requisições simultâneas não passem
+   * todas pela verificação de limite enquanto a senha é conferida
+   */
+  static registerIpAttempt(ip: string, now = Date.now()): void {
+    if (this.ipFailures.size > IP_SWEEP_THRESHOLD) {
+      this.sweepIps(now);
+    }
+
+    const entry = this.getIpFailures(ip, now);
+    this.ipFailures.set(ip, { count: (entry?.count ?? 0) + 1, lastFailureAt: now });
+  }
+
+  /**
+   * Devolve a tentativa reservada por registerIpAttempt quando a senha confere
+   * Só desconta a própria tentativa: as falhas anteriores do IP continuam valendo
+   */
+  static releaseIpAttempt(ip: string, now = Date.now()): void {
+    const entry = this.getIpFailures(ip, now);
+    if (!entry) {
+      return;
+    }
+
+    if (entry.count <= 1) {
+      this.ipFailures.delete(ip);
+    } else {
+      entry.count--;
+    }
+  }
+
+  /**
+   * Remove os IPs cujas falhas já expiraram e retorna quantos foram removidos
+   */
+  static sweepIps(now = Date.now()): number {
+    let removed = 0;
+
+    for (const [ip, entry] of this.ipFailures) {
+      if (now - entry.lastFailureAt > LOGIN_LOCKOUT_MINUTES * MINUTE_IN_MS) {
+        this.ipFailures.delete(ip);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  static isLocked(user: ThrottledUser, now = new Date()): boolean {
+    return !!user.lockedUntil && user.lockedUntil > now;
+  }
+
+  /**
+   * Tempo restante (ms) do atraso progressivo da conta, contado a partir da última falha
+   */
+  static accountRetryAfterMs(user: ThrottledUser, now = Date.now()): number {
+    if (!user.lastFailedLoginAt || user.failedLoginAttempts <= 0) {
+      return 0;
+    }
+
+    return Math.max(0, user.lastFailedLoginAt.getTime() + this.delayFor(user.failedLoginAttempts) - now);
+  }
+
+  /**
+   * Registra uma falha na conta e a bloqueia temporariamente ao atingir o limite
+   * O contador é incrementado no banco e o bloqueio decidido pelo valor retornado, para que
+   * falhas simultâneas não leiam e regravem o mesmo total
+   * Um bloqueio já expirado reinicia a contagem
+   */
+  static async registerAccountFailure(user: ThrottledUser, now = new Date()): Promise<void> {
+    const failedLoginAttempts = await this.restartExpiredLock(user, now)
+      ?? await this.incrementAccountFailures(user.id, now);
+
+    if (failedLoginAttempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+      await prisma.user.updateMany({
+        where: { id: user.id, OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+        data: { lockedUntil: new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * MINUTE_IN_MS) }
+      });
+    }
+  }
+
+  static async clearAccount(user: ThrottledUser): Promise<void> {
+    if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+      return;
+    }
+
+    await this.unlock(user.id);
+  }
+
+  static async unlock(userId: string): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+    });
+  }
+
+  /**
+   * Reinicia a contagem com esta falha se o bloqueio expirou; retorna null se outra requisição
+   * já reiniciou (ou se a conta não estava bloqueada), deixando o incremento para o chamador
+   */
+  private static async restartExpiredLock(user: ThrottledUser, now: Date): Promise<number | null> {
+    if (!user.lockedUntil || user.lockedUntil > now) {
+      return null;
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, lockedUntil: { lte: now } },
+      data: { failedLoginAttempts: 1, lastFailedLoginAt: now, lockedUntil: null }
+    });
+
+    return count > 0 ? 1 : null;
+  }
+
+  private static async incrementAccountFailures(userId: string, now: Date): Promise<number> {
+    const { failedLoginAttempts } = await prisma.user.update({
+      where: { id: userId },
+      data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now },
+      select: { failedLoginAttempts: true }
+    });
+
+    return failedLoginAttempts;
+  }
+
+  private static getIpFailures(ip: string, now: number): IpFailures | undefined {
+    const entry = this.ipFailures.get(ip);
+
+    // Falhas antigas expiram após a janela de bloqueio
+    if (entry && now - entry.lastFailureAt > LOGIN_LOCKOUT_MINUTES * MINUTE_IN_MS) {
+      this.ipFailures.delete(ip);
+      return undefined;
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,26 @@
+import { prisma } from '../models';
+import { MailMessage, MailTransport } from '../types';
+
+/**
+ * Transporte de desenvolvimento e testes: grava as mensagens na tabela outbox_emails
+ */
+export class OutboxMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    await prisma.outboxEmail.create({ data: message });
+  }
+}
+
+export class MailService {
+  private static transport: MailTransport = new OutboxMailTransport();
+
+  /**
+   * Substitui o transporte de envio (ex.: SMTP ou provedor transacional em produção)
+   */
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    await this.transport.send(message);
+  }
+}
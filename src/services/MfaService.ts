@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { prisma } from '../models';
+import { hashToken } from '../utils/tokens';
+import { buildOtpauthUrl, generateTotpSecret, matchTotpStep } from '../utils/totp';
+
+export const MFA_ISSUER = process.env.MFA_ISSUER || 'Wealth Planner';
+export const RECOVERY_CODE_COUNT = 10;
+
+const RECOVERY_CODE_CONSUME_ATTEMPTS = 3;
+
+type MfaUser = { id: string; mfaSecret: string | null; mfaRecoveryCodes: string[]; mfaLastUsedStep: number | null };
+
+export class MfaService {
+  /**
+   * Gera o segredo TOTP e a URI otpauth:// para o aplicativo autenticador
+   */
+  static createEnrollment(accountName: string): { secret: string; otpauthUrl: string } {
+    const secret = generateTotpSecret();
+    return { secret, otpauthUrl: buildOtpauthUrl(secret, accountName, MFA_ISSUER) };
+  }
+
+  /**
+   * Gera códigos de recuperação de uso único
+   * Os códigos em claro são exibidos uma única vez; apenas os hashes são persistidos
+   */
+  static generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return { codes, hashes: codes.map(code => this.hashRecoveryCode(code)) };
+  }
+
+  /**
+   * Valida um código TOTP ou, alternativamente, consome um código de recuperação
+   */
+  static async verify(user: MfaUser, code: string): Promise<boolean> {
+    if (!user.mfaSecret) {
+      return false;
+    }
+
+    const step = matchTotpStep(user.mfaSecret, code);
+    if (step !== null) {
+      return this.consumeTotpStep(user.id, step);
+    }
+
+    return this.consumeRecoveryCode(user, this.hashRecoveryCode(code));
+  }
+
+  /**
+   * Registra o passo TOTP aceito; códigos de passos iguais ou anteriores ao último aceito
+   * são recusados, impedindo a reutilização de um código dentro da janela de validade
+   * A atualização condicional garante que duas requisições simultâneas não aceitem o mesmo código
+   */
+  static async consumeTotpStep(userId: string, step: number): Promise<boolean> {
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }]
+      },
+      data: { mfaLastUsedStep: step }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Remove o código de recuperação com uma atualização condicional à lista lida: se outra requisição
+   * alterou a lista nesse intervalo, nada é gravado e a lista é relida antes de tentar de novo
+   * Assim o mesmo código não é aceito duas vezes e consumos simultâneos não restauram códigos já usados
+   */
+  private static async consumeRecoveryCode(user: MfaUser, codeHash: string): Promise<boolean> {
+    let recoveryCodes = user.mfaRecoveryCodes;
+
+    for (let attempt = 0; attempt < RECOVERY_CODE_CONSUME_ATTEMPTS; attempt++) {
+      if (!recoveryCodes.includes(codeHash)) {
+        return false;
+      }
+
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, mfaRecoveryCodes: { equals: recoveryCodes } },
+        data: { mfaRecoveryCodes: recoveryCodes.filter(hash => hash !== codeHash) }
+      });
+
+      if (count === 1) {
+        return true;
+      }
+
+      const current = await prisma.user.findUnique({ where: { id: user.id }, select: { mfaRecoveryCodes: true } });
+      if (!current) {
+        return false;
+      }
+
+      recoveryCodes = current.mfaRecoveryCodes;
+    }
+
+    return false;
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return hashToken(code.replace(/-/g, '').toLowerCase());
+  }
+}
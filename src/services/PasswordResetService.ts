@@ -0,0 +1,65 @@
+import { prisma } from '../models';
+import { generateToken, hashToken } from '../utils/tokens';
+import { MailService } from './MailService';
+
+export const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+
+const MINUTE_IN_MS = 60 * 1000;
+
+export class PasswordResetService {
+  /**
+   * Emite um token de redefinição de uso único e o envia por email
+   * Apenas o hash do token é persistido
+   */
+  static async request(user: { id: string; email: string; name: string }): Promise<void> {
+    const token = generateToken(32);
+
+    await prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * MINUTE_IN_MS)
+      }
+    });
+
+    const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
+
+    await MailService.send({
+      to: user.email,
+      subject: 'Redefinição de senha',
+      body: [
+        `Olá, ${user.name}.`,
+        '',
+        'Recebemos uma solicitação para redefinir sua senha. Para continuar, acesse:',
+        resetUrl,
+        '',
+        `O link expira em ${PASSWORD_RESET_TTL_MINUTES} minutos e só pode ser usado uma vez.`,
+        'Se você não fez esta solicitação, ignore este email.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Consome o token de redefinição e retorna o usuário dono dele
+   * Retorna null se o token for inválido, expirado ou já utilizado
+   */
+  static async consume(token: string): Promise<string | null> {
+    const tokenHash = hashToken(token);
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash }
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+      return null;
+    }
+
+    // Marcação condicional: o mesmo token não pode ser consumido duas vezes em paralelo
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() }
+    });
+
+    return count === 1 ? resetToken.userId : null;
+  }
+}
@@ -0,0 +1,472 @@
+import type { Client, FamilyProfile, Insurance, InsuranceType, Wallet } from '@prisma/client';
+import { PdfColor, PdfDocument } from '../utils/pdf';
+import {
+  AlignmentCategory,
+  AlignmentData,
+  GoalFeasibility,
+  InsuranceNeedsAnalysis,
+  ProjectionPoint
+} from '../types';
+
+export interface ClientReportData {
+  organizationName: string;
+  client: Pick<Client, 'name' | 'email' | 'age' | 'familyProfile' | 'isActive'>;
+  wallets: Omit<Wallet, 'client'>[];
+  alignment: AlignmentData;
+  goals: GoalFeasibility[];
+  insurances: Omit<Insurance, 'client'>[];
+  insuranceNeeds: InsuranceNeedsAnalysis;
+  simulation: { name: string; createdAt: Date; projectionData: ProjectionPoint[] } | null;
+  generatedAt?: Date;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PdfDocument.WIDTH - MARGIN * 2;
+const PAGE_BOTTOM = PdfDocument.HEIGHT - 60;
+const ROW_HEIGHT = 18;
+
+const BRAND: PdfColor = [23, 59, 99];
+const MUTED: PdfColor = [110, 117, 125];
+const BORDER: PdfColor = [222, 226, 230];
+const STRIPE: PdfColor = [244, 246, 248];
+const WHITE: PdfColor = [255, 255, 255];
+const REAL_VALUE: PdfColor = [120, 130, 140];
+const BAND: PdfColor = [212, 225, 240];
+
+const ALIGNMENT_STYLES: Record<AlignmentCategory, { label: string; color: PdfColor }> = {
+  [AlignmentCategory.EXCELLENT]: { label: 'Excelente', color: [46, 125, 50] },
+  [AlignmentCategory.GOOD]: { label: 'Bom', color: [2, 119, 189] },
+  [AlignmentCategory.WARNING]: { label: 'Atenção', color: [239, 108, 0] },
+  [AlignmentCategory.CRITICAL]: { label: 'Crítico', color: [198, 40, 40] }
+};
+
+const FAMILY_PROFILE_LABELS: Record<FamilyProfile, string> = {
+  CONSERVATIVE: 'Conservador',
+  MODERATE: 'Moderado',
+  AGGRESSIVE: 'Arrojado',
+  ULTRA_HIGH_NET_WORTH: 'Ultra alta renda'
+};
+
+const INSURANCE_TYPE_LABELS: Record<InsuranceType, string> = {
+  LIFE: 'Vida',
+  DISABILITY: 'Invalidez',
+  HEALTH: 'Saúde',
+  PROPERTY: 'Patrimonial',
+  LIABILITY: 'Responsabilidade civil'
+};
+
+const currency = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' });
+const compactCurrency = new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL', notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 });
+const decimal = new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+const date = new Intl.DateTimeFormat('pt-BR', { timeZone: 'UTC', day: '2-digit', month: '2-digit', year: 'numeric' });
+
+const formatPercent = (value: number) => `${decimal.format(value)}%`;
+
+/**
+ * Controla a posição vertical e as quebras de página do relatório
+ */
+class ReportLayout {
+  y = 0;
+
+  constructor(readonly doc: PdfDocument, private readonly organizationName: string) {}
+
+  newPage() {
+    this.doc.addPage();
+    this.doc.rect(0, 0, PdfDocument.WIDTH, 28, { fill: BRAND });
+    this.doc.text(MARGIN, 9, this.organizationName, { size: 9, bold: true, color: WHITE });
+    this.y = 52;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_BOTTOM) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Título de seção; keepWith reserva espaço para o conteúdo que não deve ficar separado do título
+   */
+  section(title: string, keepWith = 60) {
+    this.ensureSpace(keepWith);
+    this.y += 10;
+    this.doc.text(MARGIN, this.y, title, { size: 13, bold: true, color: BRAND });
+    this.y += 18;
+    this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { color: BRAND, width: 0.8 });
+    this.y += 10;
+  }
+
+  paragraph(text: string, color: PdfColor = MUTED) {
+    for (const line of PdfDocument.wrapText(text, CONTENT_WIDTH, 9)) {
+      this.ensureSpace(14);
+      this.doc.text(MARGIN, this.y, line, { size: 9, color });
+      this.y += 14;
+    }
+  }
+
+  /**
+   * Tabela com cabeçalho repetido a cada página e linhas zebradas
+   * Textos maiores que a coluna são truncados com reticências
+   */
+  table(columns: TableColumn[], rows: string[][], decorate?: (rowIndex: number, top: number) => void) {
+    const header = () => {
+      this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, ROW_HEIGHT, { fill: BRAND });
+      this.cells(columns, columns.map(column => column.header), { bold: true, color: WHITE });
+      this.y += ROW_HEIGHT;
+    };
+
+    this.ensureSpace(ROW_HEIGHT * 2);
+    header();
+
+    rows.forEach((row, rowIndex) => {
+      if (this.y + ROW_HEIGHT > PAGE_BOTTOM) {
+        this.newPage();
+        header();
+      }
+
+      if (rowIndex % 2 === 1) {
+        this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, ROW_HEIGHT, { fill: STRIPE });
+      }
+      decorate?.(rowIndex, this.y);
+      this.cells(columns, row, {});
+      this.y += ROW_HEIGHT;
+    });
+
+    this.doc.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, { color: BORDER, width: 0.5 });
+    this.y += 12;
+  }
+
+  private cells(columns: TableColumn[], values: string[], options: { bold?: boolean; color?: PdfColor }) {
+    let x = MARGIN;
+
+    columns.forEach((column, index) => {
+      const text = truncate(values[index] ?? '', column.width - 10, 8.5, options.bold);
+      const textX = column.align === 'right' ? x + column.width - 5 : x + 5;
+
+      this.doc.text(textX, this.y + 5, text, { size: 8.5, bold: options.bold, color: options.color, align: column.align });
+      x += column.width;
+    });
+  }
+}
+
+function truncate(text: string, maxWidth: number, size: number, bold?: boolean): string {
+  if (PdfDocument.textWidth(text, size, bold) <= maxWidth) {
+    return text;
+  }
+
+  let truncated = text;
+  while (truncated.length > 0 && PdfDocument.textWidth(`${truncated}…`, size, bold) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}…`;
+}
+
+/**
+ * Arredonda o topo do eixo para um valor "redondo" (1, 2, 2,5 ou 5 × 10^n)
+ */
+function niceCeiling(value: number): number {
+  if (value <= 0) return 1;
+
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 2.5, 5, 10].find(candidate => candidate * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+export class ReportService {
+  /**
+   * Relatório de revisão do cliente em PDF: perfil, alocação e alinhamento, metas com viabilidade,
+   * seguros e a curva da simulação mais recente
+   */
+  static clientReport(data: ClientReportData): Buffer {
+    const generatedAt = data.generatedAt ?? new Date();
+    const doc = new PdfDocument({
+      title: `Relatório de revisão - ${data.client.name}`,
+      author: data.organizationName,
+      creationDate: generatedAt
+    });
+    const layout = new ReportLayout(doc, data.organizationName);
+
+    this.cover(layout, data, generatedAt);
+    this.profile(layout, data);
+    this.allocation(layout, data);
+    this.goals(layout, data);
+    this.insurance(layout, data);
+    this.projection(layout, data);
+    this.footer(doc, data.organizationName, generatedAt);
+
+    return doc.toBuffer();
+  }
+
+  private static cover(layout: ReportLayout, data: ClientReportData, generatedAt: Date) {
+    const { doc } = layout;
+
+    doc.addPage();
+    doc.rect(0, 0, PdfDocument.WIDTH, 110, { fill: BRAND });
+    doc.text(MARGIN, 28, data.organizationName, { size: 20, bold: true, color: WHITE });
+    doc.text(MARGIN, 58, 'Relatório de revisão patrimonial', { size: 12, color: WHITE });
+    doc.text(MARGIN, 78, data.client.name, { size: 12, bold: true, color: WHITE });
+    doc.text(MARGIN + CONTENT_WIDTH, 78, date.format(generatedAt), { size: 10, color: WHITE, align: 'right' });
+    layout.y = 130;
+  }
+
+  private static profile(layout: ReportLayout, data: ClientReportData) {
+    const { doc } = layout;
+    const { client } = data;
+
+    layout.section('Perfil do cliente');
+
+    const fields: [string, string][] = [
+      ['Nome', client.name],
+      ['E-mail', client.email],
+      ['Idade', `${client.age} anos`],
+      ['Perfil', FAMILY_PROFILE_LABELS[client.familyProfile] ?? client.familyProfile],
+      ['Situação', client.isActive ? 'Ativo' : 'Inativo']
+    ];
+
+    const columnWidth = CONTENT_WIDTH / 2;
+    fields.forEach(([label, value], index) => {
+      const x = MARGIN + (index % 2) * columnWidth;
+      const y = layout.y + Math.floor(index / 2) * 30;
+
+      doc.text(x, y, label.toUpperCase(), { size: 7.5, bold: true, color: MUTED });
+      doc.text(x, y + 11, truncate(value, columnWidth - 12, 10), { size: 10 });
+    });
+
+    layout.y += Math.ceil(fields.length / 2) * 30 + 4;
+  }
+
+  private static allocation(layout: ReportLayout, data: ClientReportData) {
+    const { doc } = layout;
+    const { alignment } = data;
+    const style = ALIGNMENT_STYLES[alignment.category];
+
+    layout.section('Alocação atual');
+
+    if (data.wallets.length === 0) {
+      layout.paragraph('Nenhuma alocação cadastrada.');
+      return;
+    }
+
+    // Resumo do alinhamento (mesma regra de GET /clients/:id/alignment)
+    layout.ensureSpace(48);
+    const badgeWidth = PdfDocument.textWidth(style.label, 9, true) + 16;
+    doc.rect(MARGIN, layout.y, badgeWidth, 18, { fill: style.color });
+    doc.text(MARGIN + badgeWidth / 2, layout.y + 5, style.label, { size: 9, bold: true, color: WHITE, align: 'center' });
+    doc.text(
+      MARGIN + badgeWidth + 10,
+      layout.y + 5,
+      `Alinhamento de ${formatPercent(alignment.alignmentPercent)}: patrimônio atual de ${currency.format(alignment.currentPatrimony)} ` +
+      `frente a ${currency.format(alignment.plannedPatrimony)} planejados`,
+      { size: 9 }
+    );
+    layout.y += 30;
+
+    const columns: TableColumn[] = [
+      { header: 'Classe de ativo', width: 140 },
+      { header: 'Distribuição', width: 100 },
+      { header: 'Percentual', width: 60, align: 'right' },
+      { header: 'Valor atual', width: 100, align: 'right' },
+      { header: 'Alinhamento', width: CONTENT_WIDTH - 400, align: 'right' }
+    ];
+
+    layout.table(
+      columns,
+      data.wallets.map(wallet => [
+        wallet.assetClass,
+        '',
+        formatPercent(Number(wallet.percentage)),
+        currency.format(Number(wallet.currentValue)),
+        formatPercent(Number(wallet.alignmentPercent))
+      ]),
+      (rowIndex, top) => {
+        const share = Math.min(Math.max(Number(data.wallets[rowIndex].percentage), 0), 100) / 100;
+        doc.rect(MARGIN + 145, top + 5, 90, 8, { fill: STRIPE, stroke: { color: BORDER, width: 0.5 } });
+        if (share > 0) {
+          doc.rect(MARGIN + 145, top + 5, 90 * share, 8, { fill: BRAND });
+        }
+      }
+    );
+  }
+
+  private static goals(layout: ReportLayout, data: ClientReportData) {
+    layout.section('Metas');
+
+    if (data.goals.length === 0) {
+      layout.paragraph('Nenhuma meta cadastrada.');
+      return;
+    }
+
+    layout.table(
+      [
+        { header: 'Meta', width: 105 },
+        { header: 'Data alvo', width: 54 },
+        { header: 'Valor alvo', width: 80, align: 'right' },
+        { header: 'Projetado', width: 80, align: 'right' },
+        { header: 'Sucesso', width: 50, align: 'right' },
+        { header: 'Aporte mensal', width: 72, align: 'right' },
+        { header: 'Situação', width: CONTENT_WIDTH - 441 }
+      ],
+      data.goals.map(goal => [
+        goal.description,
+        date.format(new Date(goal.targetDate)),
+        currency.format(goal.targetValue),
+        currency.format(goal.projectedValue),
+        formatPercent(goal.successProbability * 100),
+        goal.requiredMonthlyContribution > 0 ? currency.format(goal.requiredMonthlyContribution) : '-',
+        goal.feasible ? 'Viável' : 'Em risco'
+      ])
+    );
+
+    layout.paragraph('Projeção do patrimônio atual com os eventos cadastrados; o aporte mensal indica o valor adicional necessário para cobrir o déficit até a data alvo.');
+  }
+
+  private static insurance(layout: ReportLayout, data: ClientReportData) {
+    layout.section('Seguros');
+
+    if (data.insurances.length === 0) {
+      layout.paragraph('Nenhuma apólice cadastrada.');
+    } else {
+      layout.table(
+        [
+          { header: 'Tipo', width: 110 },
+          { header: 'Descrição', width: CONTENT_WIDTH - 310 },
+          { header: 'Cobertura', width: 110, align: 'right' },
+          { header: 'Prêmio', width: 90, align: 'right' }
+        ],
+        data.insurances.map(insurance => [
+          INSURANCE_TYPE_LABELS[insurance.type] ?? insurance.type,
+          insurance.description ?? '',
+          currency.format(Number(insurance.coverage)),
+          currency.format(Number(insurance.premium))
+        ])
+      );
+    }
+
+    layout.table(
+      [
+        { header: 'Necessidade de cobertura', width: CONTENT_WIDTH - 330 },
+        { header: 'Recomendada', width: 110, align: 'right' },
+        { header: 'Existente', width: 110, align: 'right' },
+        { header: 'Lacuna', width: 110, align: 'right' }
+      ],
+      data.insuranceNeeds.needs.map(need => [
+        `${INSURANCE_TYPE_LABELS[need.type]} (${need.horizonYears} anos)`,
+        currency.format(need.recommendedCoverage),
+        currency.format(need.existingCoverage),
+        currency.format(need.coverageGap)
+      ])
+    );
+  }
+
+  private static projection(layout: ReportLayout, data: ClientReportData) {
+    const { doc } = layout;
+
+    const chartHeight = 200;
+    const points = data.simulation?.projectionData ?? [];
+
+    if (!data.simulation || points.length === 0) {
+      layout.section('Projeção patrimonial');
+      layout.paragraph('Nenhuma simulação registrada para o cliente.');
+      return;
+    }
+
+    layout.section('Projeção patrimonial', chartHeight + 130);
+    layout.paragraph(`Simulação "${data.simulation.name}", registrada em ${date.format(new Date(data.simulation.createdAt))}.`);
+    layout.y += 6;
+
+    const hasReal = points.some(point => point.realValue !== undefined);
+    const hasBand = points.some(point => point.p10 !== undefined && point.p90 !== undefined);
+
+    const values = points.flatMap(point => [point.projectedValue, point.realValue, point.p10, point.p90])
+      .filter((value): value is number => value !== undefined);
+    const minValue = Math.min(0, ...values);
+    const maxValue = niceCeiling(Math.max(...values));
+
+    const axisWidth = 62;
+    const left = MARGIN + axisWidth;
+    const width = CONTENT_WIDTH - axisWidth;
+    const top = layout.y;
+    const bottom = top + chartHeight;
+
+    const x = (index: number) => points.length === 1 ? left + width / 2 : left + (index / (points.length - 1)) * width;
+    const y = (value: number) => bottom - ((value - minValue) / (maxValue - minValue)) * chartHeight;
+
+    // Grade e rótulos do eixo Y
+    const ticks = 5;
+    for (let tick = 0; tick <= ticks; tick++) {
+      const value = minValue + ((maxValue - minValue) * tick) / ticks;
+      doc.line(left, y(value), left + width, y(value), { color: BORDER, width: 0.5 });
+      doc.text(left - 6, y(value) - 4, compactCurrency.format(value), { size: 7, color: MUTED, align: 'right' });
+    }
+
+    // Rótulos do eixo X: no máximo 10 anos exibidos
+    const labelStep = Math.max(1, Math.ceil(points.length / 10));
+    points.forEach((point, index) => {
+      if (index % labelStep === 0 || index === points.length - 1) {
+        doc.text(x(index), bottom + 5, String(point.year), { size: 7, color: MUTED, align: 'center' });
+      }
+    });
+
+    if (hasBand) {
+      const upper = points.map((point, index): [number, number] => [x(index), y(point.p90 ?? point.projectedValue)]);
+      const lower = points.map((point, index): [number, number] => [x(index), y(point.p10 ?? point.projectedValue)]).reverse();
+      doc.polygon([...upper, ...lower], BAND);
+    }
+
+    if (hasReal) {
+      doc.polyline(points.map((point, index) => [x(index), y(point.realValue ?? point.projectedValue)]), { color: REAL_VALUE, width: 1.2, dash: [4, 3] });
+    }
+
+    doc.polyline(points.map((point, index) => [x(index), y(point.projectedValue)]), { color: BRAND, width: 2 });
+    doc.line(left, bottom, left + width, bottom, { color: MUTED, width: 0.8 });
+
+    // Legenda
+    let legendX = left;
+    const legendY = bottom + 22;
+    const legend: { label: string; draw: (lx: number) => void }[] = [
+      { label: 'Valor projetado', draw: lx => doc.line(lx, legendY + 4, lx + 16, legendY + 4, { color: BRAND, width: 2 }) }
+    ];
+    if (hasReal) {
+      legend.push({ label: 'Valor real (descontada a inflação)', draw: lx => doc.line(lx, legendY + 4, lx + 16, legendY + 4, { color: REAL_VALUE, width: 1.2, dash: [4, 3] }) });
+    }
+    if (hasBand) {
+      legend.push({ label: 'Faixa P10-P90', draw: lx => doc.rect(lx, legendY, 16, 8, { fill: BAND }) });
+    }
+
+    for (const item of legend) {
+      item.draw(legendX);
+      doc.text(legendX + 22, legendY, item.label, { size: 8, color: MUTED });
+      legendX += 22 + PdfDocument.textWidth(item.label, 8) + 18;
+    }
+
+    layout.y = legendY + 22;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    // Com empréstimos amortizados, a curva é do patrimônio líquido do saldo devedor
+    const netOfDebt = last.outstandingDebt !== undefined;
+    layout.paragraph(
+      `Patrimônio ${netOfDebt ? 'líquido ' : ''}projetado de ${currency.format(first.projectedValue)} em ${first.year} para ${currency.format(last.projectedValue)} em ${last.year}` +
+      (last.realValue !== undefined ? ` (${currency.format(last.realValue)} em valores de hoje).` : '.') +
+      (netOfDebt ? ` Saldo devedor de empréstimos de ${currency.format(last.outstandingDebt!)} em ${last.year}.` : ''),
+      [0, 0, 0]
+    );
+  }
+
+  private static footer(doc: PdfDocument, organizationName: string, generatedAt: Date) {
+    const total = doc.pageCount;
+    const y = PdfDocument.HEIGHT - 40;
+
+    for (let index = 0; index < total; index++) {
+      doc.goToPage(index);
+      doc.line(MARGIN, y - 6, MARGIN + CONTENT_WIDTH, y - 6, { color: BORDER, width: 0.5 });
+      doc.text(MARGIN, y, `${organizationName} · Gerado em ${date.format(generatedAt)}`, { size: 7.5, color: MUTED });
+      doc.text(MARGIN + CONTENT_WIDTH, y, `Página ${index + 1} de ${total}`, { size: 7.5, color: MUTED, align: 'right' });
+    }
+  }
+}
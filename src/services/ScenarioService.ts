@@ -0,0 +1,149 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import {
+  ComparedProjection,
+  ComparisonPoint,
+  Event,
+  PortfolioMetrics,
+  ProjectionPoint,
+  ScenarioComparison,
+  ScenarioEventOverrides,
+  ScenarioProjection
+} from '../types';
+import { WealthProjectionService } from './WealthProjectionService';
+
+export const MAX_COMPARED_SCENARIOS = 5;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function difference(value: number | null | undefined, base: number | null | undefined): number | null {
+  return value === null || value === undefined || base === null || base === undefined ? null : round(value - base);
+}
+
+export class ScenarioService {
+  /**
+   * IDs citados nas alterações que não pertencem aos eventos do cliente
+   */
+  static unknownEventIds(events: Pick<Event, 'id'>[], overrides: ScenarioEventOverrides): string[] {
+    const known = new Set(events.map(event => event.id));
+    const referenced = [...(overrides.remove ?? []), ...(overrides.update ?? []).map(update => update.id)];
+
+    return [...new Set(referenced.filter(id => !known.has(id)))];
+  }
+
+  /**
+   * Aplica as alterações do cenário aos eventos do cliente sem persistir nada:
+   * remove, altera e inclui eventos (os incluídos recebem IDs sintéticos)
+   */
+  static applyEventOverrides(events: Event[], overrides: ScenarioEventOverrides | undefined, client: Event['client']): Event[] {
+    if (!overrides) {
+      return events;
+    }
+
+    const removed = new Set(overrides.remove ?? []);
+    const updates = new Map((overrides.update ?? []).map(update => [update.id, update]));
+
+    const result = events
+      .filter(event => !removed.has(event.id))
+      .map(event => {
+        const update = updates.get(event.id);
+        if (!update) {
+          return event;
+        }
+
+        const { id, value, interestRate, ...changes } = update;
+        return {
+          ...event,
+          ...changes,
+          ...(value !== undefined && { value: new Decimal(value) }),
+          ...(interestRate !== undefined && { interestRate: new Decimal(interestRate) })
+        };
+      });
+
+    const now = new Date();
+    (overrides.add ?? []).forEach((added, index) => {
+      result.push({
+        id: `scenario-event-${index + 1}`,
+        clientId: client.id,
+        type: added.type,
+        description: added.description ?? null,
+        value: new Decimal(added.value),
+        frequency: added.frequency,
+        inflationIndexed: added.inflationIndexed ?? false,
+        startDate: added.startDate,
+        endDate: added.endDate ?? null,
+        interestRate: added.interestRate !== undefined ? new Decimal(added.interestRate) : null,
+        termMonths: added.termMonths ?? null,
+        amortizationSystem: added.amortizationSystem ?? null,
+        createdAt: now,
+        updatedAt: now,
+        client
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Alinha as curvas pelo conjunto de anos de todos os cenários e calcula,
+   * para cada cenário, as diferenças ano a ano e nas métricas em relação à base
+   */
+  static compare(base: ScenarioProjection, scenarios: ScenarioProjection[]): ScenarioComparison {
+    const years = [...new Set([base, ...scenarios].flatMap(run => run.projectionData.map(point => point.year)))]
+      .sort((a, b) => a - b);
+
+    const comparedBase = this.alignProjection(base, years);
+
+    return {
+      years,
+      base: comparedBase,
+      scenarios: scenarios.map(scenario => {
+        const compared = this.alignProjection(scenario, years);
+
+        return {
+          ...compared,
+          metricsDelta: this.metricsDelta(compared.metrics, comparedBase.metrics),
+          deltas: compared.projectionData.map((point, index) => ({
+            year: point.year,
+            projectedValue: difference(point.projectedValue, comparedBase.projectionData[index].projectedValue),
+            realValue: difference(point.realValue, comparedBase.projectionData[index].realValue)
+          }))
+        };
+      })
+    };
+  }
+
+  static metricsDelta(metrics: PortfolioMetrics | null, base: PortfolioMetrics | null): PortfolioMetrics | null {
+    if (!metrics || !base) {
+      return null;
+    }
+
+    return {
+      finalValue: round(metrics.finalValue - base.finalValue),
+      totalGain: round(metrics.totalGain - base.totalGain),
+      totalGainPercent: round(metrics.totalGainPercent - base.totalGainPercent),
+      cagr: round(metrics.cagr - base.cagr),
+      projectionYears: metrics.projectionYears - base.projectionYears
+    };
+  }
+
+  private static alignProjection(run: ScenarioProjection, years: number[]): ComparedProjection {
+    const byYear = new Map<number, ProjectionPoint>(run.projectionData.map(point => [point.year, point]));
+
+    return {
+      name: run.name,
+      simulationId: run.simulationId,
+      parameters: run.parameters,
+      metrics: WealthProjectionService.calculatePortfolioMetrics(run.projectionData, run.parameters.initialValue),
+      projectionData: years.map((year): ComparisonPoint => {
+        const point = byYear.get(year);
+        return {
+          year,
+          projectedValue: point?.projectedValue ?? null,
+          realValue: point?.realValue ?? null
+        };
+      })
+    };
+  }
+}
@@ -0,0 +1,140 @@
+import { FastifyRequest } from 'fastify';
+import { Organization, Session, User } from '@prisma/client';
+import { prisma } from '../models';
+import { AuthPayload } from '../types';
+import { generateToken, hashToken } from '../utils/tokens';
+
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export type SessionUser = User & { organization: Organization };
+
+export class SessionService {
+  /**
+   * Abre uma sessão para o usuário e retorna o refresh token em claro
+   * O token tem o formato "<id da sessão>.<segredo>"; apenas o hash do segredo é persistido
+   */
+  static async create(userId: string, mfa = false): Promise<{ session: Session; refreshToken: string }> {
+    const secret = generateToken();
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        mfa,
+        refreshTokenHash: hashToken(secret),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * DAY_IN_MS)
+      }
+    });
+
+    return { session, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Troca o refresh token por um novo (rotação)
+   * O token apresentado deixa de valer; retorna null se ele for inválido, expirado ou revogado
+   * Um token desta sessão que já foi trocado antes indica roubo: a sessão é revogada
+   * Qualquer outro segredo é apenas recusado, já que o id da sessão não é secreto
+   */
+  static async rotate(refreshToken: string): Promise<{ session: Session & { user: SessionUser }; refreshToken: string } | null> {
+    const [sessionId, secret] = refreshToken.split('.');
+    if (!sessionId || !secret) {
+      return null;
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      include: { user: { include: { organization: true } } }
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const secretHash = hashToken(secret);
+    const nextSecret = generateToken();
+
+    // Atualização condicional: duas trocas concorrentes do mesmo token não podem ambas vencer
+    const { count } = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: secretHash, revokedAt: null },
+      data: { refreshTokenHash: hashToken(nextSecret), previousRefreshTokenHashes: { push: secretHash } }
+    });
+
+    if (count === 0) {
+      await this.revokeOnReuse(session.id, secretHash);
+      return null;
+    }
+
+    return { session, refreshToken: `${session.id}.${nextSecret}` };
+  }
+
+  /**
+   * Assina o token de acesso da sessão
+   * `mfa` indica se o segundo fator foi satisfeito; `mfaRequired` se o usuário ou a organização o exigem
+   */
+  static signAccessToken(request: FastifyRequest, user: SessionUser, session: Pick<Session, 'id' | 'mfa'>): string {
+    const payload: AuthPayload & { name: string } = {
+      userId: user.id,
+      organizationId: user.organizationId,
+      sessionId: session.id,
+      email: user.email,
+      role: user.role,
+      name: user.name,
+      mfa: session.mfa,
+      mfaRequired: user.mfaEnabled || user.organization.requireMfa
+    };
+
+    return request.server.jwt.sign(payload);
+  }
+
+  static async markMfaSatisfied(sessionId: string): Promise<Session> {
+    return prisma.session.update({
+      where: { id: sessionId },
+      data: { mfa: true }
+    });
+  }
+
+  static async isActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true }
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  static async revoke(sessionId: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  /**
+   * Revoga a sessão somente se o segredo apresentado já foi emitido e trocado nela
+   */
+  static async revokeOnReuse(sessionId: string, secretHash: string): Promise<boolean> {
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null, previousRefreshTokenHashes: { has: secretHash } },
+      data: { revokedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Revoga todas as sessões ativas do usuário, opcionalmente preservando a sessão atual
+   */
+  static async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<number> {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } })
+      },
+      data: { revokedAt: new Date() }
+    });
+
+    return count;
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  Event,
+  Insurance,
+  SimulationSnapshot,
+  SnapshotDiff,
+  SnapshotEvent,
+  SnapshotFieldChange,
+  SnapshotInsurance,
+  SnapshotRecordDiff
+} from '../types';
+import { ENGINE_VERSION } from './WealthProjectionService';
+
+const EVENT_FIELDS: (keyof SnapshotEvent)[] = [
+  'type', 'description', 'value', 'frequency', 'inflationIndexed', 'startDate', 'endDate', 'interestRate', 'termMonths', 'amortizationSystem'
+];
+const INSURANCE_FIELDS: (keyof SnapshotInsurance)[] = ['type', 'description', 'coverage', 'premium'];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function diffRecords<T extends { id: string; description: string | null }>(previous: T[], current: T[], fields: (keyof T)[]): SnapshotRecordDiff<T> {
+  const previousById = new Map(previous.map(record => [record.id, record]));
+  const currentIds = new Set(current.map(record => record.id));
+
+  return {
+    added: current.filter(record => !previousById.has(record.id)),
+    removed: previous.filter(record => !currentIds.has(record.id)),
+    changed: current.flatMap(record => {
+      const before = previousById.get(record.id);
+      if (!before) {
+        return [];
+      }
+
+      const changes: SnapshotFieldChange[] = fields
+        .filter(field => !sameValue(before[field], record[field]))
+        .map(field => ({ field: String(field), previous: before[field] ?? null, current: record[field] ?? null }));
+
+      return changes.length > 0 ? [{ id: record.id, description: record.description, changes }] : [];
+    })
+  };
+}
+
+export class SimulationSnapshotService {
+  /**
+   * Congela os parâmetros, eventos e seguros usados no cálculo da simulação
+   * Os seguros só entram no cálculo (e no snapshot) quando há periodicidade de prêmio
+   */
+  static capture(
+    parameters: SimulationSnapshot['parameters'],
+    events: Omit<Event, 'client'>[],
+    insurances: Omit<Insurance, 'client'>[],
+    capturedAt: Date = new Date()
+  ): SimulationSnapshot {
+    const { monteCarlo } = parameters;
+
+    return {
+      capturedAt: capturedAt.toISOString(),
+      parameters: {
+        initialValue: parameters.initialValue,
+        interestRate: parameters.interestRate,
+        projectionYears: parameters.projectionYears,
+        inflationRate: parameters.inflationRate,
+        premiumFrequency: parameters.premiumFrequency,
+        lifeEvent: parameters.lifeEvent,
+        // Apenas a configuração de entrada: a probabilidade de sucesso é resultado do cálculo
+        monteCarlo: monteCarlo && {
+          expectedReturn: monteCarlo.expectedReturn,
+          volatility: monteCarlo.volatility,
+          seed: monteCarlo.seed,
+          simulations: monteCarlo.simulations,
+          targetValue: monteCarlo.targetValue
+        },
+        tax: parameters.tax,
+        retirement: parameters.retirement,
+        portfolio: parameters.portfolio,
+        assumptionsVersion: parameters.assumptionsVersion
+      },
+      events: events.map(event => ({
+        id: event.id,
+        type: event.type,
+        description: event.description,
+        value: Number(event.value),
+        frequency: event.frequency,
+        inflationIndexed: event.inflationIndexed,
+        startDate: event.startDate.toISOString(),
+        endDate: event.endDate ? event.endDate.toISOString() : null,
+        interestRate: event.interestRate !== null ? Number(event.interestRate) : null,
+        termMonths: event.termMonths,
+        amortizationSystem: event.amortizationSystem
+      })),
+      insurances: parameters.premiumFrequency
+        ? insurances.map(insurance => ({
+          id: insurance.id,
+          type: insurance.type,
+          description: insurance.description,
+          coverage: Number(insurance.coverage),
+          premium: Number(insurance.premium)
+        }))
+        : []
+    };
+  }
+
+  /**
+   * Diferenças entre as entradas de duas versões da simulação: versão do motor,
+   * eventos e seguros incluídos, removidos ou alterados (campo a campo)
+   */
+  static diff(previous: SimulationSnapshot, current: SimulationSnapshot, previousEngineVersion: string | null): SnapshotDiff {
+    return {
+      engineVersion: previousEngineVersion === ENGINE_VERSION
+        ? null
+        : { previous: previousEngineVersion, current: ENGINE_VERSION },
+      events: diffRecords(previous.events, current.events, EVENT_FIELDS),
+      insurances: diffRecords(previous.insurances, current.insurances, INSURANCE_FIELDS)
+    };
+  }
+}
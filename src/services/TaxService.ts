@@ -0,0 +1,215 @@
+import { TaxAllocation, TaxParams, TaxRegime, Wallet } from '../types';
+
+// Tabela regressiva do IR sobre rendimentos de renda fixa, pelo prazo da aplicação
+export const REGRESSIVE_IR_TABLE: { maxDays: number; rate: number }[] = [
+  { maxDays: 180, rate: 0.225 },
+  { maxDays: 360, rate: 0.2 },
+  { maxDays: 720, rate: 0.175 },
+  { maxDays: Infinity, rate: 0.15 }
+];
+
+// Alíquota do come-cotas dos fundos de longo prazo
+export const COME_COTAS_RATE = 0.15;
+
+// Meses (base 0) em que o come-cotas é retido: últimos dias úteis de maio e novembro
+const COME_COTAS_MONTHS = [4, 10];
+
+const CAPITAL_GAINS_RATES: Partial<Record<TaxRegime, number>> = {
+  CAPITAL_GAINS: 0.15,
+  REAL_ESTATE_FUND: 0.2
+};
+
+// Palavras da classe de ativo (sem acentos, minúsculas) que indicam cada regime, na ordem de prioridade
+// (ex.: fundos de ações não têm come-cotas); as demais seguem a tabela regressiva
+const ASSET_CLASS_REGIMES: { regime: TaxRegime; keywords: string[] }[] = [
+  { regime: 'EXEMPT', keywords: ['lci', 'lca', 'cri', 'cra', 'poupanca', 'incentivada', 'incentivadas', 'isento', 'isentos', 'isenta', 'isentas'] },
+  { regime: 'REAL_ESTATE_FUND', keywords: ['imobiliario', 'imobiliarios', 'fii', 'fiis'] },
+  { regime: 'CAPITAL_GAINS', keywords: ['acao', 'acoes', 'bolsa', 'variavel', 'etf', 'etfs', 'bdr', 'bdrs', 'cripto', 'criptomoedas', 'criptoativos'] },
+  { regime: 'COME_COTAS', keywords: ['fundo', 'fundos', 'multimercado', 'multimercados'] }
+];
+
+const DAYS_PER_MONTH = 30;
+
+interface TaxSleeve {
+  regime: TaxRegime;
+  weight: number;
+  value: number;
+  costBasis: number;
+  withheld: number;
+  holdingMonths: number;
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export class TaxService {
+  /**
+   * Alíquota da tabela regressiva para o prazo (em dias) da aplicação
+   */
+  static regressiveRate(holdingDays: number): number {
+    return REGRESSIVE_IR_TABLE.find(bracket => holdingDays <= bracket.maxDays)!.rate;
+  }
+
+  /**
+   * Regime de tributação provável para a classe de ativo informada
+   */
+  static regimeForAssetClass(assetClass: string): TaxRegime {
+    const words = normalize(assetClass).split(/[^a-z]+/);
+    const match = ASSET_CLASS_REGIMES.find(({ keywords }) => keywords.some(keyword => words.includes(keyword)));
+
+    return match?.regime ?? 'REGRESSIVE';
+  }
+
+  /**
+   * Divide a carteira do cliente entre os regimes pelo valor atual de cada classe de ativo
+   * Sem carteira cadastrada, considera tudo na tabela regressiva
+   */
+  static allocationsFromWallets(wallets: Pick<Wallet, 'assetClass' | 'currentValue'>[]): TaxAllocation[] {
+    const weights = new Map<TaxRegime, number>();
+
+    for (const wallet of wallets) {
+      const regime = this.regimeForAssetClass(wallet.assetClass);
+      weights.set(regime, (weights.get(regime) ?? 0) + Number(wallet.currentValue));
+    }
+
+    const total = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+      return [{ regime: 'REGRESSIVE', weight: 1 }];
+    }
+
+    return [...weights.entries()].map(([regime, weight]) => ({
+      regime,
+      weight: Math.round((weight / total) * 10000) / 10000
+    }));
+  }
+}
+
+/**
+ * Acompanha a carteira após impostos ao longo de uma trajetória da projeção
+ * Cada regime é uma parcela com valor, custo de aquisição, prazo médio e come-cotas já retido;
+ * o valor líquido é o que sobraria após o IR se tudo fosse resgatado
+ */
+export class TaxLedger {
+  private readonly sleeves: TaxSleeve[];
+  private paid = 0;
+
+  constructor(initialValue: number, tax: TaxParams) {
+    const totalWeight = tax.allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+
+    this.sleeves = tax.allocations.map(allocation => {
+      const weight = totalWeight > 0 ? allocation.weight / totalWeight : 1 / tax.allocations.length;
+      return {
+        regime: allocation.regime,
+        weight,
+        value: initialValue * weight,
+        costBasis: initialValue * weight,
+        withheld: 0,
+        holdingMonths: tax.initialHoldingMonths ?? 0
+      };
+    });
+  }
+
+  get value(): number {
+    return this.sleeves.reduce((sum, sleeve) => sum + sleeve.value, 0);
+  }
+
+  get taxesPaid(): number {
+    return this.paid;
+  }
+
+  grow(factor: number) {
+    for (const sleeve of this.sleeves) {
+      sleeve.value *= factor;
+    }
+  }
+
+  /**
+   * Aporte distribuído entre os regimes pelos pesos; o prazo médio é ponderado pelo custo
+   */
+  contribute(amount: number) {
+    if (amount <= 0) return;
+
+    for (const sleeve of this.sleeves) {
+      const share = amount * sleeve.weight;
+      sleeve.holdingMonths = sleeve.costBasis + share > 0
+        ? (sleeve.holdingMonths * sleeve.costBasis) / (sleeve.costBasis + share)
+        : 0;
+      sleeve.costBasis += share;
+      sleeve.value += share;
+    }
+  }
+
+  /**
+   * Resgate proporcional ao valor de cada regime. Quando tributado, o valor informado é o
+   * líquido recebido e a carteira cobre também o IR sobre o ganho resgatado
+   */
+  withdraw(amount: number, taxable: boolean) {
+    const total = this.value;
+    if (amount <= 0 || total <= 0) return;
+
+    const effectiveRate = taxable ? this.latentTax() / total : 0;
+    const gross = Math.min(total, effectiveRate < 1 ? amount / (1 - effectiveRate) : total);
+    const fraction = gross / total;
+
+    if (taxable) {
+      this.paid += gross * effectiveRate;
+    }
+
+    for (const sleeve of this.sleeves) {
+      sleeve.value -= sleeve.value * fraction;
+      sleeve.costBasis -= sleeve.costBasis * fraction;
+      sleeve.withheld -= sleeve.withheld * fraction;
+    }
+  }
+
+  /**
+   * Encerra o mês: envelhece as aplicações e retém o come-cotas em maio e novembro
+   */
+  endOfMonth(month: number) {
+    for (const sleeve of this.sleeves) {
+      sleeve.holdingMonths += 1;
+
+      if (sleeve.regime === 'COME_COTAS' && COME_COTAS_MONTHS.includes(month)) {
+        // Retém o suficiente para que o total antecipado seja 15% do ganho bruto acumulado
+        const withholding = Math.min(
+          sleeve.value,
+          Math.max(0, COME_COTAS_RATE * (sleeve.value + sleeve.withheld - sleeve.costBasis) - sleeve.withheld)
+        );
+        sleeve.value -= withholding;
+        sleeve.withheld += withholding;
+        this.paid += withholding;
+      }
+    }
+  }
+
+  /**
+   * Valor líquido caso toda a carteira fosse resgatada
+   */
+  liquidationValue(): number {
+    return Math.max(0, this.value - this.latentTax());
+  }
+
+  private latentTax(): number {
+    return this.sleeves.reduce((sum, sleeve) => sum + this.sleeveTax(sleeve), 0);
+  }
+
+  private sleeveTax(sleeve: TaxSleeve): number {
+    const gain = sleeve.value - sleeve.costBasis;
+
+    switch (sleeve.regime) {
+      case 'EXEMPT':
+        return 0;
+
+      case 'COME_COTAS':
+        // Complemento da tabela regressiva sobre o ganho bruto, descontado o come-cotas já retido
+        return Math.max(0, TaxService.regressiveRate(sleeve.holdingMonths * DAYS_PER_MONTH) * (gain + sleeve.withheld) - sleeve.withheld);
+
+      case 'REGRESSIVE':
+        return Math.max(0, TaxService.regressiveRate(sleeve.holdingMonths * DAYS_PER_MONTH) * gain);
+
+      default:
+        return Math.max(0, (CAPITAL_GAINS_RATES[sleeve.regime] ?? 0) * gain);
+    }
+  }
+}
@@ -1,4 +1,45 @@
-import { Event, WealthProjectionParams, ProjectionPoint } from '../types';
+import {
+  Event,
+  WealthProjectionParams,
+  ProjectionPoint,
+  MonteCarloParams,
+  MonteCarloResult,
+  InflationRate,
+  AutoSuggestion,
+  MonthlyCashFlow,
+  InsurancePolicy,
+  LifeEventScenario,
+  PremiumFrequency,
+  Wallet,
+  AlignmentData,
+  AlignmentCategory,
+  PortfolioMetrics,
+  PortfolioParams,
+  CapitalMarketAssumption
+} from '../types';
+import { SeededRandom, generateSeed } from '../utils/random';
+import { WithdrawalPlan } from '../utils/withdrawal';
+import { TaxLedger } from './TaxService';
+import { PortfolioTracker, cholesky, correlationMatrix } from '../utils/portfolio';
+import { LoanSchedule, isAmortizedLoan } from '../utils/loan';
+
+// Versão do motor gravada em cada simulação: incrementar sempre que uma mudança alterar as curvas calculadas
+export const ENGINE_VERSION = '1.0.0';
+export const DEFAULT_MONTE_CARLO_SIMULATIONS = 1000;
+export const DEFAULT_ANNUAL_RATE = 0.04;
+export const MAX_EXPENSE_REDUCTION = 0.2;
+
+const PREMIUM_INTERVAL_MONTHS: Record<PremiumFrequency, number> = { MONTHLY: 1, QUARTERLY: 3, ANNUALLY: 12 };
+
+// Coberturas pagas e prêmios encerrados em cada cenário de sinistro
+const SCENARIO_PAYOUT_TYPES: Record<LifeEventScenario['type'], string[]> = {
+  DEATH: ['LIFE'],
+  DISABILITY: ['DISABILITY']
+};
+const SCENARIO_CANCELLED_PREMIUMS: Record<LifeEventScenario['type'], string[]> = {
+  DEATH: ['LIFE', 'DISABILITY'],
+  DISABILITY: ['DISABILITY']
+};
 
 export class WealthProjectionService {
   /**
@@ -7,49 +48,335 @@ export class WealthProjectionService {
    * que retorna array {year, projectedValue} considerando:
    * - Crescimento composto mensal
    * - Movimentações positivas/negativas (recorrentes ou únicas)
+   * - Inflação opcional: cada ponto traz também o valor real (em moeda de hoje)
+   *   e eventos com inflationIndexed são corrigidos pelo índice acumulado
+   * - Prêmios de seguro debitados na periodicidade informada e, opcionalmente,
+   *   cenário de falecimento/invalidez com pagamento da cobertura
+   * - Tributação opcional: com regimes de IR informados, cada ponto traz também
+   *   o valor após impostos (come-cotas, IR sobre resgates e IR latente)
+   * - Aposentadoria opcional: a partir da idade informada cessam renda e aportes,
+   *   e as retiradas seguem a estratégia escolhida (valor retirado no ano em cada ponto)
+   * - Carteira opcional: cada classe de ativo rende pelo próprio retorno esperado
+   *   (no lugar da taxa única), com rebalanceamento periódico aos pesos-alvo
+   * - Empréstimos amortizados (SAC ou Price): as parcelas saem do patrimônio conforme o
+   *   cronograma e o saldo devedor é descontado, de modo que o valor projetado seja o
+   *   patrimônio líquido (cada ponto traz também os ativos e o saldo devedor)
    */
   static simulateWealthCurve(params: WealthProjectionParams): ProjectionPoint[] {
+    const monthlyRate = params.interestRate / 12; // Taxa mensal
 
-    const { initialValue, interestRate, events, projectionYears } = params;
+    return this.projectPath(params, assumption =>
+      assumption ? 1 + assumption.expectedReturn / 12 : 1 + monthlyRate
+    );
+  }
+
+  /**
+   * Simulação de Monte Carlo da curva patrimonial
+   * Executa N trajetórias com retornos mensais log-normais
+   * (retorno esperado e volatilidade anuais) e retorna, por ano:
+   * - Faixas de percentis P10/P50/P90 (projectedValue = P50)
+   * - Probabilidade de estar acima do valor alvo, se informado
+   * - Valor após impostos (P50 das trajetórias líquidas), se houver tributação
+   * Com carteira, cada classe de ativo sorteia o próprio retorno (correlacionado com as
+   * demais conforme as correlações da carteira) e o retorno esperado e a volatilidade
+   * informados não são usados
+   */
+  static simulateMonteCarlo(params: MonteCarloParams): MonteCarloResult {
+    const { expectedReturn, volatility, targetValue } = params;
+    const simulations = params.simulations ?? DEFAULT_MONTE_CARLO_SIMULATIONS;
+    const seed = params.seed ?? generateSeed();
+
+    const random = new SeededRandom(seed);
+    const correlationFactor = params.portfolio ? this.correlationFactor(params.portfolio) : [];
+    let shocks: number[] = [];
+
+    const valuesByYear: number[][] = Array.from({ length: params.projectionYears + 1 }, () => []);
+    const afterTaxByYear: number[][] = Array.from({ length: params.projectionYears + 1 }, () => []);
+    let years: number[] = [];
+
+    for (let simulation = 0; simulation < simulations; simulation++) {
+      const path = this.projectPath(params, (assumption, index = 0) => {
+        if (!assumption) {
+          return this.logNormalFactor(expectedReturn, volatility, random.nextGaussian());
+        }
+
+        // Choques correlacionados de todas as classes sorteados na primeira classe do mês
+        if (index === 0) {
+          const draws = correlationFactor.map(() => random.nextGaussian());
+          shocks = correlationFactor.map(row => row.reduce((sum, weight, column) => sum + weight * draws[column], 0));
+        }
+        return this.logNormalFactor(assumption.expectedReturn, assumption.volatility, shocks[index]);
+      });
+
+      path.forEach((point, index) => {
+        valuesByYear[index].push(point.projectedValue);
+        if (point.afterTaxValue !== undefined) {
+          afterTaxByYear[index].push(point.afterTaxValue);
+        }
+      });
+      years = path.map(point => point.year);
+    }
+
+    const priceIndexes = this.getYearEndPriceIndexes(params.inflationRate, params.projectionYears);
+
+    const projectionData: ProjectionPoint[] = valuesByYear.map((values, index) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      const p50 = this.percentile(sorted, 0.5);
+
+      const point: ProjectionPoint = {
+        year: years[index],
+        projectedValue: p50,
+        p10: this.percentile(sorted, 0.1),
+        p50,
+        p90: this.percentile(sorted, 0.9)
+      };
+
+      if (params.inflationRate !== undefined) {
+        point.realValue = Math.round((p50 / priceIndexes[index]) * 100) / 100;
+      }
+
+      if (params.tax) {
+        const afterTax = this.percentile([...afterTaxByYear[index]].sort((a, b) => a - b), 0.5);
+        point.afterTaxValue = afterTax;
+
+        if (params.inflationRate !== undefined) {
+          point.afterTaxRealValue = Math.round((afterTax / priceIndexes[index]) * 100) / 100;
+        }
+      }
+
+      if (targetValue !== undefined) {
+        point.probabilityAboveTarget = this.probabilityAbove(sorted, targetValue);
+      }
+
+      return point;
+    });
+
+    return {
+      projectionData,
+      simulations,
+      seed,
+      ...(targetValue !== undefined && {
+        targetValue,
+        successProbability: projectionData[projectionData.length - 1].probabilityAboveTarget
+      })
+    };
+  }
+
+  /**
+   * Fator de Cholesky das correlações entre as classes de ativo da carteira
+   * (classes independentes quando as correlações não formam uma matriz válida)
+   */
+  private static correlationFactor(portfolio: PortfolioParams): number[][] {
+    const matrix = correlationMatrix(portfolio.allocations.map(allocation => allocation.assetClass), portfolio.correlations);
+    return cholesky(matrix) ?? matrix.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+  }
+
+  /**
+   * Fator de crescimento mensal log-normal para retorno esperado e volatilidade anuais
+   */
+  private static logNormalFactor(expectedReturn: number, volatility: number, gaussian: number): number {
+    const monthlyVolatility = volatility / Math.sqrt(12);
+    const monthlyDrift = Math.log(1 + expectedReturn) / 12 - (monthlyVolatility * monthlyVolatility) / 2;
+
+    return Math.exp(monthlyDrift + monthlyVolatility * gaussian);
+  }
+
+  /**
+   * Executa uma trajetória mês a mês aplicando o fator de crescimento
+   * informado e as movimentações do período. Com carteira, o fator é
+   * calculado por classe de ativo (premissas informadas); sem ela, para o patrimônio todo
+   */
+  private static projectPath(
+    params: Omit<WealthProjectionParams, 'interestRate'>,
+    growthFactor: (assumption?: CapitalMarketAssumption, index?: number) => number
+  ): ProjectionPoint[] {
+
+    const { initialValue, projectionYears, inflationRate, lifeEvent, tax, retirement } = params;
+    const events = params.events.filter(event => !isAmortizedLoan(event));
+    const loans = params.events.filter(isAmortizedLoan).map(event => LoanSchedule.fromEvent(event));
+    const insurances = params.insurances ?? [];
+    const ledger = tax ? new TaxLedger(initialValue, tax) : undefined;
+    const portfolio = params.portfolio ? new PortfolioTracker(initialValue, params.portfolio) : undefined;
+    const premiumInterval = PREMIUM_INTERVAL_MONTHS[params.premiumFrequency ?? 'MONTHLY'];
     const projectionData: ProjectionPoint[] = [];
 
     const currentYear = new Date().getFullYear();
-    const monthlyRate = interestRate / 12; // Taxa mensal
+    const withdrawalPlan = retirement ? new WithdrawalPlan(retirement, currentYear) : undefined;
 
     let currentValue = initialValue;
+    let priceIndex = 1;
 
     for (let year = 0; year <= projectionYears; year++) {
       const targetYear = currentYear + year;
+      const monthlyInflation = this.getMonthlyInflation(inflationRate, year);
+      const retired = withdrawalPlan?.isRetired(targetYear) ?? false;
+      let withdrawnThisYear = 0;
 
       for (let month = 0; month < 12; month++) {
-        currentValue = currentValue * (1 + monthlyRate);
+        const factor = portfolio ? portfolio.grow(growthFactor) : growthFactor();
+        currentValue = currentValue * factor;
+        ledger?.grow(factor);
+        priceIndex = priceIndex * (1 + monthlyInflation);
 
         const monthDate = new Date(targetYear, month, 1);
         const eventsThisMonth = this.getEventsForMonth(events, monthDate);
+        const lifeEventOccurred = lifeEvent !== undefined && targetYear >= lifeEvent.year;
+
+        if (lifeEvent && targetYear === lifeEvent.year && month === 0) {
+          const coverage = this.sumCoverage(insurances, SCENARIO_PAYOUT_TYPES[lifeEvent.type]);
+          currentValue += coverage;
+          ledger?.contribute(coverage);
+        }
 
         for (const event of eventsThisMonth) {
-          const eventValue = Number(event.value);
+          if (lifeEventOccurred && event.type === 'INCOME') continue;
+          if (retired && ['INCOME', 'INVESTMENT'].includes(event.type)) continue;
+
+          const eventValue = event.inflationIndexed && event.frequency !== 'ONCE'
+            ? Number(event.value) * priceIndex
+            : Number(event.value);
 
           if (['INCOME', 'BONUS', 'INHERITANCE', 'INVESTMENT'].includes(event.type)) {
             currentValue += eventValue;
+            ledger?.contribute(eventValue);
           }
           else if (['EXPENSE', 'WITHDRAWAL', 'LOAN'].includes(event.type)) {
             currentValue -= eventValue;
+            // Resgates pagam IR sobre o ganho realizado; as demais saídas não são tributadas
+            ledger?.withdraw(eventValue, event.type === 'WITHDRAWAL');
           }
         }
 
+        // O principal entra como caixa no mês da contratação, junto com a dívida: contratar não altera o patrimônio líquido
+        const disbursed = loans.reduce((sum, loan) => sum + loan.disbursementAt(monthDate), 0);
+        currentValue += disbursed;
+        ledger?.contribute(disbursed);
+
+        const installments = loans.reduce((sum, loan) => sum + loan.installmentAt(monthDate), 0);
+        currentValue -= installments;
+        ledger?.withdraw(installments, false);
+
+        if (withdrawalPlan) {
+          const withdrawal = Math.min(
+            Math.max(0, currentValue),
+            withdrawalPlan.monthlyWithdrawal(targetYear, month, currentValue, priceIndex)
+          );
+          currentValue -= withdrawal;
+          ledger?.withdraw(withdrawal, true);
+          withdrawnThisYear += withdrawal;
+        }
+
+        if ((year * 12 + month) % premiumInterval === 0) {
+          const cancelledTypes = lifeEventOccurred ? SCENARIO_CANCELLED_PREMIUMS[lifeEvent.type] : [];
+          const premiums = insurances
+            .filter(insurance => !cancelledTypes.includes(insurance.type))
+            .reduce((sum, insurance) => sum + insurance.premium, 0);
+          currentValue -= premiums;
+          ledger?.withdraw(premiums, false);
+        }
+
         currentValue = Math.max(0, currentValue);
+        portfolio?.settle(currentValue, year * 12 + month);
+        ledger?.endOfMonth(month);
       }
 
-      projectionData.push({
+      const outstandingDebt = loans.reduce((sum, loan) => sum + loan.balanceAt(new Date(targetYear, 11, 1)), 0);
+      const netWorth = currentValue - outstandingDebt;
+
+      const point: ProjectionPoint = {
         year: targetYear,
-        projectedValue: Math.round(currentValue * 100) / 100
-      });
+        projectedValue: Math.round(netWorth * 100) / 100
+      };
+
+      if (inflationRate !== undefined) {
+        point.realValue = Math.round((netWorth / priceIndex) * 100) / 100;
+      }
+
+      if (loans.length > 0) {
+        point.assets = Math.round(currentValue * 100) / 100;
+        point.outstandingDebt = Math.round(outstandingDebt * 100) / 100;
+      }
+
+      if (withdrawalPlan) {
+        point.withdrawal = Math.round(withdrawnThisYear * 100) / 100;
+      }
+
+      if (ledger) {
+        const afterTaxValue = ledger.liquidationValue() - outstandingDebt;
+        point.afterTaxValue = Math.round(afterTaxValue * 100) / 100;
+
+        if (inflationRate !== undefined) {
+          point.afterTaxRealValue = Math.round((afterTaxValue / priceIndex) * 100) / 100;
+        }
+      }
+
+      projectionData.push(point);
     }
 
     return projectionData;
   }
 
+  /**
+   * Soma das coberturas dos seguros dos tipos informados
+   */
+  private static sumCoverage(insurances: InsurancePolicy[], types: string[]): number {
+    return insurances
+      .filter(insurance => types.includes(insurance.type))
+      .reduce((sum, insurance) => sum + insurance.coverage, 0);
+  }
+
+  /**
+   * Taxa de inflação mensal equivalente para o ano da projeção
+   */
+  private static getMonthlyInflation(inflationRate: InflationRate | undefined, year: number): number {
+    if (inflationRate === undefined) return 0;
+
+    const annualRate = Array.isArray(inflationRate)
+      ? (inflationRate.length > 0 ? inflationRate[Math.min(year, inflationRate.length - 1)] : 0)
+      : inflationRate;
+
+    return Math.pow(1 + annualRate, 1 / 12) - 1;
+  }
+
+  /**
+   * Índice de preços acumulado ao final de cada ano da projeção
+   */
+  private static getYearEndPriceIndexes(inflationRate: InflationRate | undefined, projectionYears: number): number[] {
+    const indexes: number[] = [];
+    let priceIndex = 1;
+
+    for (let year = 0; year <= projectionYears; year++) {
+      priceIndex = priceIndex * Math.pow(1 + this.getMonthlyInflation(inflationRate, year), 12);
+      indexes.push(priceIndex);
+    }
+
+    return indexes;
+  }
+
+  /**
+   * Percentil por interpolação linear sobre valores ordenados
+   */
+  private static percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Fração de trajetórias com valor acima do alvo
+   */
+  private static probabilityAbove(sorted: number[], target: number): number {
+    if (sorted.length === 0) return 0;
+
+    const above = sorted.filter(value => value > target).length;
+    return Math.round((above / sorted.length) * 10000) / 10000;
+  }
+
   /**
    * Determina quais eventos ocorrem em um mês específico
    */
@@ -109,9 +436,11 @@ export class WealthProjectionService {
     currentPatrimony: number,
     targetPatrimony: number,
     timeHorizonYears: number,
-    currentMonthlyContribution: number = 0
-  ) {
-    const suggestions = [];
+    currentMonthlyContribution: number,
+    annualRate: number,
+    cashFlow?: MonthlyCashFlow
+  ): AutoSuggestion[] {
+    const suggestions: AutoSuggestion[] = [];
     const gap = targetPatrimony - currentPatrimony;
 
     if (gap <= 0) {
@@ -125,10 +454,7 @@ export class WealthProjectionService {
     }
 
     const monthsRemaining = timeHorizonYears * 12;
-    const monthlyRate = 0.04 / 12;
-
-    const futureValueFactor = ((Math.pow(1 + monthlyRate, monthsRemaining) - 1) / monthlyRate);
-    const requiredMonthlyContribution = gap / futureValueFactor;
+    const requiredMonthlyContribution = this.requiredMonthlyContribution(gap, annualRate, monthsRemaining);
 
     const additionalContribution = requiredMonthlyContribution - currentMonthlyContribution;
 
@@ -141,8 +467,7 @@ export class WealthProjectionService {
       });
 
       const shorterPeriod = Math.max(24, timeHorizonYears * 12 * 0.7); // 70% do tempo ou mínimo 24 meses
-      const shorterMonthsFactor = ((Math.pow(1 + monthlyRate, shorterPeriod) - 1) / monthlyRate);
-      const higherContribution = gap / shorterMonthsFactor - currentMonthlyContribution;
+      const higherContribution = this.requiredMonthlyContribution(gap, annualRate, shorterPeriod) - currentMonthlyContribution;
 
       if (higherContribution > additionalContribution) {
         suggestions.push({
@@ -154,6 +479,26 @@ export class WealthProjectionService {
       }
     }
 
+    if (cashFlow && cashFlow.monthlyExpenses > 0) {
+      const deficit = cashFlow.monthlyExpenses - cashFlow.monthlyIncome;
+      const reduction = deficit > 0
+        ? Math.min(deficit, cashFlow.monthlyExpenses * MAX_EXPENSE_REDUCTION)
+        : Math.min(Math.max(additionalContribution, 0), cashFlow.monthlyExpenses * MAX_EXPENSE_REDUCTION);
+
+      if (reduction > 0) {
+        const reductionPercent = Math.round((reduction / cashFlow.monthlyExpenses) * 100);
+
+        suggestions.push({
+          type: 'REDUCE_EXPENSES',
+          description: deficit > 0
+            ? `Suas despesas mensais superam suas receitas. Reduza R$ ${Math.round(reduction)} (${reductionPercent}% das despesas) para equilibrar o fluxo de caixa.`
+            : `Reduza suas despesas mensais em R$ ${Math.round(reduction)} (${reductionPercent}% das despesas) e direcione o valor para investimentos.`,
+          suggestedValue: Math.round(reduction),
+          suggestedPeriod: timeHorizonYears * 12
+        });
+      }
+    }
+
     const gapPercentage = (gap / targetPatrimony) * 100;
     if (gapPercentage > 50) {
       suggestions.push({
@@ -167,16 +512,102 @@ export class WealthProjectionService {
     return suggestions;
   }
 
+  /**
+   * Equivalente mensal das movimentações recorrentes vigentes na data de referência
+   */
+  static getMonthlyCashFlow(events: Event[], referenceDate: Date = new Date()): MonthlyCashFlow {
+    const cashFlow: MonthlyCashFlow = { monthlyIncome: 0, monthlyExpenses: 0, monthlyInvestments: 0 };
+    const divisors: Record<string, number> = { MONTHLY: 1, QUARTERLY: 3, ANNUALLY: 12 };
+
+    for (const event of events) {
+      const divisor = divisors[event.frequency];
+      if (!divisor) continue;
+      if (new Date(event.startDate) > referenceDate) continue;
+      if (event.endDate && new Date(event.endDate) < referenceDate) continue;
+
+      // Empréstimos amortizados entram pela parcela do mês, e não pelo valor financiado
+      const monthlyValue = isAmortizedLoan(event)
+        ? LoanSchedule.fromEvent(event).installmentAt(referenceDate)
+        : Number(event.value) / divisor;
+
+      if (['INCOME', 'BONUS'].includes(event.type)) {
+        cashFlow.monthlyIncome += monthlyValue;
+      }
+      else if (['EXPENSE', 'WITHDRAWAL', 'LOAN'].includes(event.type)) {
+        cashFlow.monthlyExpenses += monthlyValue;
+      }
+      else if (event.type === 'INVESTMENT') {
+        cashFlow.monthlyInvestments += monthlyValue;
+      }
+    }
+
+    return {
+      monthlyIncome: Math.round(cashFlow.monthlyIncome * 100) / 100,
+      monthlyExpenses: Math.round(cashFlow.monthlyExpenses * 100) / 100,
+      monthlyInvestments: Math.round(cashFlow.monthlyInvestments * 100) / 100
+    };
+  }
+
+  /**
+   * Aporte mensal necessário para acumular o valor informado no prazo,
+   * com a mesma capitalização mensal do motor de projeção
+   */
+  static requiredMonthlyContribution(amount: number, annualRate: number, months: number): number {
+    if (amount <= 0 || months <= 0) return 0;
+
+    const monthlyRate = annualRate / 12;
+    const futureValueFactor = monthlyRate === 0
+      ? months
+      : (Math.pow(1 + monthlyRate, months) - 1) / monthlyRate;
+
+    return amount / futureValueFactor;
+  }
+
+  /**
+   * Alinhamento entre o patrimônio atual e o planejado da carteira
+   * Categorias: Excelente > 90%, Bom 70-90%, Atenção 50-70%, Crítico < 50%
+   */
+  static calculateAlignment(wallets: Pick<Wallet, 'currentValue' | 'totalPatrimony'>[]): AlignmentData {
+    const currentPatrimony = wallets.reduce((sum, wallet) => sum + Number(wallet.currentValue), 0);
+    const plannedPatrimony = wallets.reduce((sum, wallet) => sum + Number(wallet.totalPatrimony), 0);
+
+    const alignmentPercent = plannedPatrimony > 0
+      ? (currentPatrimony / plannedPatrimony) * 100
+      : 0;
+
+    let category: AlignmentCategory;
+    if (alignmentPercent > 90) {
+      category = AlignmentCategory.EXCELLENT;
+    } else if (alignmentPercent >= 70) {
+      category = AlignmentCategory.GOOD;
+    } else if (alignmentPercent >= 50) {
+      category = AlignmentCategory.WARNING;
+    } else {
+      category = AlignmentCategory.CRITICAL;
+    }
+
+    return {
+      currentPatrimony,
+      plannedPatrimony,
+      alignmentPercent: Math.round(alignmentPercent * 100) / 100,
+      category
+    };
+  }
+
   /**
    * Calcula métricas de performance da carteira
    */
-  static calculatePortfolioMetrics(projectionData: ProjectionPoint[], initialValue: number) {
+  static calculatePortfolioMetrics(projectionData: ProjectionPoint[], initialValue: number): PortfolioMetrics | null {
     if (projectionData.length === 0) return null;
 
     const finalValue = projectionData[projectionData.length - 1].projectedValue;
     const totalYears = projectionData.length - 1;
 
-    const cagr = totalYears > 0 ? Math.pow(finalValue / initialValue, 1 / totalYears) - 1 : 0;
+    // Sem valor inicial não há taxa de crescimento definida; patrimônio líquido negativo
+    // (dívidas acima dos ativos) equivale a perda total
+    const cagr = totalYears > 0 && initialValue > 0
+      ? Math.pow(Math.max(0, finalValue) / initialValue, 1 / totalYears) - 1
+      : 0;
 
     const totalGain = finalValue - initialValue;
 
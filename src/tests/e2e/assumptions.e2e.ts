@@ -0,0 +1,248 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Capital market assumptions', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let viewerToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+
+  const assetClasses = [
+    { assetClass: 'Renda Fixa', expectedReturn: 0.11, volatility: 0.03 },
+    { assetClass: 'Ações', expectedReturn: 0.15, volatility: 0.22 }
+  ];
+
+  const assumptionSet = (overrides: object = {}) => ({
+    id: 'cma-2',
+    organizationId: 'org-1',
+    version: 2,
+    description: 'Revisão trimestral',
+    defaultReturn: new Decimal('0.09'),
+    inflationRate: new Decimal('0.045'),
+    assetClasses,
+    correlations: [{ assetClasses: ['Renda Fixa', 'Ações'], correlation: 0.2 }],
+    createdById: 'advisor-1',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides
+  });
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-2', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('CRUD', () => {
+    it('should create the next version for the organization', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(assumptionSet());
+      (prisma.capitalMarketAssumptionSet.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({
+        id: 'cma-3',
+        createdAt: new Date(),
+        ...data,
+        defaultReturn: new Decimal(data.defaultReturn),
+        inflationRate: new Decimal(data.inflationRate)
+      }));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/capital-market-assumptions',
+        headers: bearer(advisorToken),
+        payload: { defaultReturn: 0.1, inflationRate: 0.04, assetClasses }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data).toMatchObject({ version: 3, defaultReturn: 0.1, inflationRate: 0.04, assetClasses, correlations: [] });
+      expect((prisma.capitalMarketAssumptionSet.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        organizationId: 'org-1',
+        version: 3,
+        createdById: 'advisor-1'
+      });
+    });
+
+    it('should retry with the next version when a concurrent create takes the number', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock)
+        .mockResolvedValueOnce(assumptionSet())
+        .mockResolvedValueOnce(assumptionSet({ id: 'cma-3', version: 3 }));
+      (prisma.capitalMarketAssumptionSet.create as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }))
+        .mockImplementationOnce(({ data }) => Promise.resolve({
+          id: 'cma-4',
+          createdAt: new Date(),
+          ...data,
+          defaultReturn: new Decimal(data.defaultReturn),
+          inflationRate: new Decimal(data.inflationRate)
+        }));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/capital-market-assumptions',
+        headers: bearer(advisorToken),
+        payload: { defaultReturn: 0.1, inflationRate: 0.04, assetClasses }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.version).toBe(4);
+      expect(prisma.capitalMarketAssumptionSet.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return 409 when a concurrent update creates the version first', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(assumptionSet());
+      (prisma.capitalMarketAssumptionSet.create as jest.Mock)
+        .mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/capital-market-assumptions/current',
+        headers: bearer(advisorToken),
+        payload: { inflationRate: 0.05 }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().error).toBe('Outra versão de premissas foi gravada ao mesmo tempo. Tente novamente');
+      expect(prisma.capitalMarketAssumptionSet.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject inconsistent correlations', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/capital-market-assumptions',
+        headers: bearer(advisorToken),
+        payload: {
+          defaultReturn: 0.1,
+          inflationRate: 0.04,
+          assetClasses,
+          correlations: [{ assetClasses: ['Ações', 'Private Equity'], correlation: 0.5 }]
+        }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Correlação com classe de ativo não cadastrada: Private Equity');
+      expect(prisma.capitalMarketAssumptionSet.create).not.toHaveBeenCalled();
+    });
+
+    it('should save updates as a new version over the current one', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(assumptionSet());
+      (prisma.capitalMarketAssumptionSet.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({
+        id: 'cma-3',
+        createdAt: new Date(),
+        ...data,
+        defaultReturn: new Decimal(data.defaultReturn),
+        inflationRate: new Decimal(data.inflationRate)
+      }));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/capital-market-assumptions/current',
+        headers: bearer(advisorToken),
+        payload: { inflationRate: 0.05 }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data).toMatchObject({ version: 3, defaultReturn: 0.09, inflationRate: 0.05, assetClasses });
+      expect((prisma.capitalMarketAssumptionSet.create as jest.Mock).mock.calls[0][0].data.correlations).toEqual(assumptionSet().correlations);
+    });
+
+    it('should fall back to the system defaults without a version', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/capital-market-assumptions/current',
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual({ version: null, defaultReturn: 0.04, inflationRate: null, assetClasses: [], correlations: [] });
+    });
+
+    it('should not delete a version used by simulations', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(assumptionSet());
+      (prisma.simulation.count as jest.Mock).mockResolvedValue(2);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/capital-market-assumptions/2',
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(prisma.simulation.count).toHaveBeenCalledWith({ where: { assumptionsVersion: 2, client: { organizationId: 'org-1' } } });
+      expect(prisma.capitalMarketAssumptionSet.delete).not.toHaveBeenCalled();
+    });
+
+    it('should restrict the endpoints to advisors and admins', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/capital-market-assumptions',
+        headers: bearer(viewerToken)
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.capitalMarketAssumptionSet.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('projections', () => {
+    beforeEach(() => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId, events: [], insurances: [], wallets: [] });
+    });
+
+    it('should use the organization defaults and record the version', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(assumptionSet());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/projections/generate',
+        headers: bearer(advisorToken),
+        payload: { clientId, initialValue: 100000, projectionYears: 10 }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.parameters).toMatchObject({ interestRate: 0.09, inflationRate: 0.045, assumptionsVersion: 2 });
+    });
+
+    it('should keep the system default rate without organization assumptions', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/projections/generate',
+        headers: bearer(advisorToken),
+        payload: { clientId, initialValue: 100000, projectionYears: 10 }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.parameters).toMatchObject({ interestRate: 0.04, assumptionsVersion: null });
+    });
+
+    it('should store the assumption version on new simulations', async () => {
+      (prisma.capitalMarketAssumptionSet.findFirst as jest.Mock).mockResolvedValue(assumptionSet());
+      (prisma.simulation.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'cm0000000000000000000001', ...data }));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/simulations',
+        headers: bearer(advisorToken),
+        payload: { clientId, name: 'Premissas da casa', initialValue: 100000, interestRate: 0.08, projectionYears: 10 }
+      });
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      expect(data.assumptionsVersion).toBe(2);
+      expect(data.inflationRate).toBe(0.045);
+      expect(data.inputSnapshot.parameters.assumptionsVersion).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Audit trail', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let adminToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const wallet = {
+    id: 'wallet-1',
+    clientId,
+    assetClass: 'Renda Fixa',
+    percentage: new Decimal('40'),
+    currentValue: new Decimal('100000'),
+    totalPatrimony: new Decimal('250000'),
+    alignmentPercent: new Decimal('80'),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  };
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    adminToken = app.jwt.sign({ userId: 'admin-1', organizationId: 'org-1', sessionId: 'session-2', email: 'admin@wealthplanner.com', role: 'ADMIN' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.wallet.findFirst as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('recording changes', () => {
+    it('should record the creation with the actor and the new values', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId });
+      (prisma.wallet.create as jest.Mock).mockResolvedValue({ ...wallet, client: { id: clientId } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/wallets',
+        headers: bearer(advisorToken),
+        payload: { clientId, assetClass: 'Renda Fixa', percentage: 40, currentValue: 100000, totalPatrimony: 250000, alignmentPercent: 80 }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(prisma.$transaction).toHaveBeenCalled();
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          organizationId: 'org-1',
+          clientId,
+          entity: 'WALLET',
+          entityId: 'wallet-1',
+          action: 'CREATE',
+          actorId: 'advisor-1',
+          actorEmail: 'advisor@wealthplanner.com',
+          changes: expect.objectContaining({
+            assetClass: { before: null, after: 'Renda Fixa' },
+            percentage: { before: null, after: '40' }
+          })
+        })
+      });
+    });
+
+    it('should record only the changed fields on update', async () => {
+      (prisma.wallet.findFirst as jest.Mock).mockResolvedValueOnce(wallet);
+      (prisma.wallet.update as jest.Mock).mockResolvedValue({ ...wallet, currentValue: new Decimal('120000'), updatedAt: new Date() });
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/wallets/wallet-1',
+        headers: bearer(advisorToken),
+        payload: { currentValue: 120000 }
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = (prisma.auditLog.create as jest.Mock).mock.calls[0][0];
+      expect(data.action).toBe('UPDATE');
+      expect(data.changes).toEqual({ currentValue: { before: '100000', after: '120000' } });
+    });
+
+    it('should record the removed values on delete', async () => {
+      (prisma.wallet.findFirst as jest.Mock).mockResolvedValue(wallet);
+      (prisma.wallet.delete as jest.Mock).mockResolvedValue(wallet);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/wallets/wallet-1',
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = (prisma.auditLog.create as jest.Mock).mock.calls[0][0];
+      expect(data.action).toBe('DELETE');
+      expect(data.changes.assetClass).toEqual({ before: 'Renda Fixa', after: null });
+    });
+
+    it('should not persist the change when the audit record fails', async () => {
+      (prisma.wallet.findFirst as jest.Mock).mockResolvedValue(wallet);
+      (prisma.$transaction as jest.Mock).mockRejectedValueOnce(new Error('audit failure'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/wallets/wallet-1',
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(500);
+      expect(prisma.wallet.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /clients/:id/audit', () => {
+    const url = `/api/v1/clients/${clientId}/audit`;
+
+    it('should return 404 for clients outside the advisor book', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.auditLog.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should filter by entity and date range', async () => {
+      const entry = {
+        id: 'audit-1',
+        organizationId: 'org-1',
+        clientId,
+        entity: 'WALLET',
+        entityId: 'wallet-1',
+        action: 'UPDATE',
+        actorId: 'advisor-1',
+        actorEmail: 'advisor@wealthplanner.com',
+        changes: { currentValue: { before: '100000', after: '120000' } },
+        createdAt: new Date('2024-03-10T12:00:00Z')
+      };
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId });
+      (prisma.auditLog.count as jest.Mock).mockResolvedValue(1);
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue([entry]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `${url}?entity=WALLET&from=2024-03-01T00:00:00.000Z&to=2024-03-31T23:59:59.000Z`,
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.auditLog.findMany).toHaveBeenCalledWith({
+        where: {
+          clientId,
+          organizationId: 'org-1',
+          entity: 'WALLET',
+          createdAt: { gte: new Date('2024-03-01T00:00:00.000Z'), lte: new Date('2024-03-31T23:59:59.000Z') }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: 0,
+        take: 20
+      });
+
+      const body = response.json();
+      expect(body.data[0].changes).toEqual(entry.changes);
+      expect(body.data[0].actorEmail).toBe('advisor@wealthplanner.com');
+      expect(body.pagination).toEqual({ page: 1, limit: 20, total: 1, totalPages: 1 });
+    });
+
+    it('should keep the trail readable by admins after the client is deleted', async () => {
+      const deletion = {
+        id: 'audit-2',
+        organizationId: 'org-1',
+        clientId,
+        entity: 'CLIENT',
+        entityId: clientId,
+        action: 'DELETE',
+        actorId: 'admin-1',
+        actorEmail: 'admin@wealthplanner.com',
+        changes: { name: { before: 'Maria Silva', after: null } },
+        createdAt: new Date('2024-04-01T12:00:00Z')
+      };
+      (prisma.client.findFirst as jest.Mock).mockResolvedValueOnce({ id: clientId, organizationId: 'org-1', name: 'Maria Silva' });
+
+      const deleted = await app.inject({ method: 'DELETE', url: `/api/v1/clients/${clientId}`, headers: bearer(adminToken) });
+      expect(deleted.statusCode).toBe(200);
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ clientId, entity: 'CLIENT', action: 'DELETE', organizationId: 'org-1' })
+      });
+
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue(deletion);
+      (prisma.auditLog.count as jest.Mock).mockResolvedValue(1);
+      (prisma.auditLog.findMany as jest.Mock).mockResolvedValue([deletion]);
+
+      const response = await app.inject({ method: 'GET', url, headers: bearer(adminToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data[0]).toEqual(expect.objectContaining({ entity: 'CLIENT', action: 'DELETE' }));
+      expect(prisma.auditLog.findFirst).toHaveBeenCalledWith({
+        where: { clientId, entity: 'CLIENT', action: 'DELETE', organizationId: 'org-1' }
+      });
+    });
+
+    it('should not expose the trail of a deleted client to advisors', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.auditLog.findFirst as jest.Mock).mockResolvedValue({ id: 'audit-2' });
+
+      const response = await app.inject({ method: 'GET', url, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.auditLog.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown entities', async () => {
+      const response = await app.inject({ method: 'GET', url: `${url}?entity=INSURANCE`, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import type { FastifyInstance } from 'fastify';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../../models';
+import { AuthPayload } from '../../types';
+import { hashToken } from '../../utils/tokens';
+
+describe('Auth with organizations and sessions', () => {
+  let app: FastifyInstance;
+
+  const user = {
+    id: 'advisor-1',
+    organizationId: 'org-1',
+    email: 'advisor@wealthplanner.com',
+    name: 'João Advisor',
+    role: 'ADVISOR',
+    password: '',
+    mfaEnabled: false,
+    failedLoginAttempts: 0,
+    lastFailedLoginAt: null,
+    lockedUntil: null,
+    organization: { id: 'org-1', slug: 'wealth-planner', requireMfa: false }
+  };
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    user.password = await bcrypt.hash('123456', 4);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('POST /auth/login', () => {
+    it('should require the organization slug', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { email: user.email, password: '123456' }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should look the user up within the organization and carry it in the token', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1', mfa: false });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { organizationSlug: 'wealth-planner', email: user.email, password: '123456' }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.user.findFirst).toHaveBeenCalledWith({
+        where: { email: user.email, organization: { slug: 'wealth-planner' } },
+        include: { organization: true }
+      });
+
+      const { token, refreshToken, user: body } = response.json().data;
+      expect(body.organizationId).toBe('org-1');
+      expect(app.jwt.decode<AuthPayload>(token)).toEqual(expect.objectContaining({
+        userId: 'advisor-1',
+        organizationId: 'org-1',
+        sessionId: 'session-1'
+      }));
+
+      const { data } = (prisma.session.create as jest.Mock).mock.calls[0][0];
+      expect(refreshToken).toEqual(expect.any(String));
+      expect(data.userId).toBe('advisor-1');
+      expect(refreshToken.startsWith('session-1.')).toBe(true);
+      expect(data.refreshTokenHash).not.toBe(refreshToken);
+    });
+
+    it('should reject users from another organization', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        payload: { organizationSlug: 'other-office', email: user.email, password: '123456' }
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('user registration', () => {
+    const payload = {
+      email: 'new@wealthplanner.com',
+      password: '123456',
+      name: 'Novo Usuário',
+      role: 'ADVISOR'
+    };
+
+    const tokenFor = (role: string) =>
+      app.jwt.sign({ userId: 'admin-1', organizationId: 'org-1', sessionId: 'session-admin-1', email: 'admin@wealthplanner.com', role, mfa: true });
+
+    beforeEach(() => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    });
+
+    it('should not offer public registration', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/register',
+        payload: { ...payload, organizationSlug: 'wealth-planner' }
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should restrict user creation to admins', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users',
+        headers: { authorization: `Bearer ${tokenFor('ADVISOR')}` },
+        payload
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it('should create the user in the admin organization, ignoring the body', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.user.create as jest.Mock).mockResolvedValue({ id: 'user-2', organizationId: 'org-1' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users',
+        headers: { authorization: `Bearer ${tokenFor('ADMIN')}` },
+        payload: { ...payload, organizationId: 'org-2' }
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { organizationId_email: { organizationId: 'org-1', email: payload.email } }
+      });
+      expect(prisma.user.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ organizationId: 'org-1', role: 'ADVISOR' })
+      }));
+    });
+
+    it('should check email uniqueness within the organization', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'advisor-1' });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users',
+        headers: { authorization: `Bearer ${tokenFor('ADMIN')}` },
+        payload
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    const activeSession = () => ({
+      id: 'session-1',
+      mfa: false,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      user
+    });
+
+    it('should rotate the refresh token and issue a new access token', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue(activeSession());
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: 'session-1.old-refresh-token' }
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { token, refreshToken } = response.json().data;
+      expect(refreshToken).not.toBe('session-1.old-refresh-token');
+      expect(refreshToken.startsWith('session-1.')).toBe(true);
+      expect(app.jwt.decode<AuthPayload>(token)).toEqual(expect.objectContaining({ sessionId: 'session-1' }));
+
+      expect((prisma.session.findUnique as jest.Mock).mock.calls[0][0].where).toEqual({ id: 'session-1' });
+      const { where, data } = (prisma.session.updateMany as jest.Mock).mock.calls[0][0];
+      expect(where).toEqual({ id: 'session-1', refreshTokenHash: hashToken('old-refresh-token'), revokedAt: null });
+      expect(data.previousRefreshTokenHashes).toEqual({ push: hashToken('old-refresh-token') });
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', { revokedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }]
+    ])('should return 401 for an %s refresh token', async (_label, override) => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue(override && { ...activeSession(), ...override });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: 'session-1.some-refresh-token' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toEqual({ success: false, error: 'Refresh token inválido ou expirado' });
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed refresh tokens without a lookup', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: 'some-refresh-token' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.session.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the session when an already rotated token is presented', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue(activeSession());
+      (prisma.session.updateMany as jest.Mock).mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: 'session-1.old-refresh-token' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.session.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'session-1', revokedAt: null, previousRefreshTokenHashes: { has: hashToken('old-refresh-token') } },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it('should keep the session when a secret it never issued is presented', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue(activeSession());
+      // Nem o segredo vigente nem um já trocado: as duas atualizações condicionais não encontram a sessão
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/refresh',
+        payload: { refreshToken: 'session-1.garbage' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toEqual({ success: false, error: 'Refresh token inválido ou expirado' });
+      const revokeWhere = (prisma.session.updateMany as jest.Mock).mock.calls[1][0].where;
+      expect(revokeWhere.previousRefreshTokenHashes).toEqual({ has: hashToken('garbage') });
+    });
+  });
+
+  describe('session revocation', () => {
+    const tokenFor = (role: string, userId = 'advisor-1') =>
+      app.jwt.sign({ userId, organizationId: 'org-1', sessionId: `session-${userId}`, email: user.email, role, mfa: true });
+
+    it('should revoke the current session on logout', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+      (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/logout',
+        headers: { authorization: `Bearer ${tokenFor('ADVISOR')}` }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-advisor-1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it('should reject access tokens of revoked sessions', async () => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: new Date(), expiresAt: new Date(Date.now() + 60_000) });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/clients',
+        headers: { authorization: `Bearer ${tokenFor('ADVISOR')}` }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toEqual({ success: false, error: 'Token inválido ou expirado' });
+    });
+
+    describe('DELETE /users/:id/sessions', () => {
+      beforeEach(() => {
+        (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+      });
+
+      it('should return 403 for non-admins', async () => {
+        const response = await app.inject({
+          method: 'DELETE',
+          url: '/api/v1/users/advisor-2/sessions',
+          headers: { authorization: `Bearer ${tokenFor('ADVISOR')}` }
+        });
+
+        expect(response.statusCode).toBe(403);
+      });
+
+      it('should return 404 for users of another organization', async () => {
+        (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+        const response = await app.inject({
+          method: 'DELETE',
+          url: '/api/v1/users/advisor-2/sessions',
+          headers: { authorization: `Bearer ${tokenFor('ADMIN', 'admin-1')}` }
+        });
+
+        expect(response.statusCode).toBe(404);
+        expect(prisma.user.findFirst).toHaveBeenCalledWith({ where: { id: 'advisor-2', organizationId: 'org-1' } });
+      });
+
+      it('should revoke every active session of the user', async () => {
+        (prisma.user.findFirst as jest.Mock).mockResolvedValue({ id: 'advisor-2' });
+        (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 3 });
+
+        const response = await app.inject({
+          method: 'DELETE',
+          url: '/api/v1/users/advisor-2/sessions',
+          headers: { authorization: `Bearer ${tokenFor('ADMIN', 'admin-1')}` }
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.json().data).toEqual({ userId: 'advisor-2', revokedSessions: 3 });
+        expect(prisma.session.updateMany).toHaveBeenCalledWith({
+          where: { userId: 'advisor-2', revokedAt: null },
+          data: { revokedAt: expect.any(Date) }
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import type { FastifyInstance } from 'fastify';
+import { prisma } from '../../models';
+
+describe('Authorization matrix', () => {
+  let app: FastifyInstance;
+  let adminToken: string;
+  let advisorToken: string;
+  let viewerToken: string;
+
+  const resources = ['clients', 'goals', 'wallets', 'events', 'simulations', 'insurances'];
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    adminToken = app.jwt.sign({ userId: 'admin-1', organizationId: 'org-1', sessionId: 'session-1', email: 'admin@wealthplanner.com', role: 'ADMIN' });
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-1', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+
+    for (const model of ['client', 'goal', 'wallet', 'event', 'simulation', 'insurance'] as const) {
+      (prisma[model].findMany as jest.Mock).mockResolvedValue([]);
+      (prisma[model].count as jest.Mock).mockResolvedValue(0);
+      (prisma[model].findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma[model].findFirst as jest.Mock).mockResolvedValue(null);
+    }
+  });
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  describe.each(resources)('/%s', resource => {
+    const url = `/api/v1/${resource}`;
+
+    it('should return 401 without a token', async () => {
+      const response = await app.inject({ method: 'GET', url });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toEqual({ success: false, error: 'Token de acesso requerido' });
+    });
+
+    it('should return 401 with an invalid token', async () => {
+      const response = await app.inject({ method: 'GET', url, headers: bearer('invalid-token') });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json()).toEqual({ success: false, error: 'Token inválido ou expirado' });
+    });
+
+    it('should allow VIEWER to read', async () => {
+      const response = await app.inject({ method: 'GET', url, headers: bearer(viewerToken) });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it.each([
+      ['POST', url],
+      ['PUT', `${url}/some-id`],
+      ['DELETE', `${url}/some-id`]
+    ])('should return 403 for VIEWER on %s', async (method, target) => {
+      const response = await app.inject({
+        method: method as 'POST' | 'PUT' | 'DELETE',
+        url: target,
+        headers: bearer(viewerToken),
+        payload: {}
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toEqual({ success: false, error: 'Permissão insuficiente' });
+    });
+
+    it.each([
+      ['ADMIN', () => adminToken],
+      ['ADVISOR', () => advisorToken]
+    ])('should allow %s to write', async (_role, token) => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: `${url}/some-id`,
+        headers: bearer(token())
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  it('should allow VIEWER to generate a projection without persisting it', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/projections/generate',
+      headers: bearer(viewerToken),
+      payload: { clientId: 'cm0000000000000000000000', initialValue: 1000 }
+    });
+
+    expect(response.statusCode).toBe(404);
+  });
+
+  it('should keep the health check public', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/health' });
+
+    expect(response.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,224 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Scenario comparison', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let viewerToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const simulationId = 'cm0000000000000000000001';
+  const advisorScope = { organizationId: 'org-1', advisors: { some: { userId: 'advisor-1' } } };
+  const currentYear = new Date().getFullYear();
+
+  const client = {
+    id: clientId,
+    name: 'Cliente Teste',
+    events: [
+      {
+        id: 'event-salary',
+        clientId,
+        type: 'INCOME',
+        description: 'Salário',
+        value: new Decimal('10000'),
+        frequency: 'MONTHLY',
+        inflationIndexed: false,
+        startDate: new Date(`${currentYear}-01-01T00:00:00Z`),
+        endDate: new Date(`${currentYear + 30}-12-31T00:00:00Z`)
+      },
+      {
+        id: 'event-rent',
+        clientId,
+        type: 'EXPENSE',
+        description: 'Aluguel',
+        value: new Decimal('4000'),
+        frequency: 'MONTHLY',
+        inflationIndexed: false,
+        startDate: new Date(`${currentYear}-01-01T00:00:00Z`),
+        endDate: null
+      }
+    ],
+    insurances: []
+  };
+
+  const baseSimulation = {
+    id: simulationId,
+    clientId,
+    name: 'Plano base',
+    initialValue: new Decimal('100000'),
+    interestRate: new Decimal('0.04'),
+    projectionYears: 10,
+    projectionData: [],
+    monteCarloConfig: null,
+    inflationRate: null,
+    premiumFrequency: null,
+    client
+  };
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const compare = (body: object, token = advisorToken) => app.inject({
+    method: 'POST',
+    url: '/api/v1/simulations/compare',
+    headers: bearer(token),
+    payload: { baseSimulationId: simulationId, ...body }
+  });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-2', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(baseSimulation);
+    (prisma.simulation.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: `saved-${data.name}`, ...data }));
+  });
+
+  it('should compare parameter overrides against the recomputed base without saving', async () => {
+    const response = await compare({
+      scenarios: [{ name: 'Juros de 3%', parameters: { interestRate: 0.03 } }]
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+
+    expect(data.years).toHaveLength(11);
+    expect(data.years[0]).toBe(currentYear);
+    expect(data.base).toMatchObject({ name: 'Plano base', simulationId, parameters: { interestRate: 0.04, eventsCount: 2 } });
+    expect(data.base.projectionData).toHaveLength(11);
+
+    const [scenario] = data.scenarios;
+    expect(scenario).toMatchObject({ name: 'Juros de 3%', simulationId: null, parameters: { interestRate: 0.03, projectionYears: 10 } });
+    expect(scenario.metrics.finalValue).toBeLessThan(data.base.metrics.finalValue);
+    expect(scenario.metricsDelta.finalValue).toBeCloseTo(scenario.metrics.finalValue - data.base.metrics.finalValue, 2);
+    expect(scenario.deltas[0].projectedValue).toBeLessThan(0);
+    expect(scenario.deltas[10].projectedValue).toBeLessThan(scenario.deltas[0].projectedValue);
+
+    expect(prisma.simulation.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: simulationId, client: advisorScope }
+    }));
+    expect(prisma.simulation.create).not.toHaveBeenCalled();
+  });
+
+  it('should apply event overrides only to the scenario', async () => {
+    const response = await compare({
+      scenarios: [
+        {
+          name: 'Aposentar 5 anos antes',
+          events: { update: [{ id: 'event-salary', endDate: `${currentYear + 2}-12-31T00:00:00.000Z` }] }
+        },
+        {
+          name: 'Sem aluguel e com aporte',
+          events: {
+            remove: ['event-rent'],
+            add: [{ type: 'INVESTMENT', value: 1000, frequency: 'MONTHLY', startDate: `${currentYear}-01-01T00:00:00.000Z` }]
+          }
+        }
+      ]
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+
+    expect(data.scenarios[0].deltas[1].projectedValue).toBe(0);
+    expect(data.scenarios[0].metricsDelta.finalValue).toBeLessThan(0);
+    expect(data.scenarios[1].parameters.eventsCount).toBe(2);
+    expect(data.scenarios[1].metricsDelta.finalValue).toBeGreaterThan(0);
+    expect(client.events[0].endDate).toEqual(new Date(`${currentYear + 30}-12-31T00:00:00Z`));
+  });
+
+  it('should reuse the base Monte Carlo seed in the scenarios', async () => {
+    (prisma.simulation.findFirst as jest.Mock).mockResolvedValue({
+      ...baseSimulation,
+      monteCarloConfig: { expectedReturn: 0.04, volatility: 0.1, seed: 42, simulations: 200 }
+    });
+
+    const response = await compare({
+      scenarios: [{ name: 'Juros de 3%', parameters: { interestRate: 0.03 } }]
+    });
+
+    expect(response.statusCode).toBe(200);
+    const { data } = response.json();
+
+    expect(data.base.parameters.monteCarlo).toMatchObject({ seed: 42, expectedReturn: 0.04, simulations: 200 });
+    expect(data.scenarios[0].parameters.monteCarlo).toMatchObject({ seed: 42, expectedReturn: 0.03, simulations: 200 });
+  });
+
+  it('should save the scenarios as simulations when persist is true', async () => {
+    const response = await compare({
+      persist: true,
+      scenarios: [{ name: 'Juros de 3%', parameters: { interestRate: 0.03 } }]
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().data.scenarios[0].simulationId).toBe('saved-Juros de 3%');
+    expect(prisma.$transaction).toHaveBeenCalled();
+    expect(prisma.simulation.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        clientId,
+        name: 'Juros de 3%',
+        initialValue: '100000',
+        interestRate: '0.03',
+        projectionYears: 10
+      })
+    });
+  });
+
+  it('should let viewers compare but not persist', async () => {
+    const scenarios = [{ name: 'Juros de 3%', parameters: { interestRate: 0.03 } }];
+
+    const compared = await compare({ scenarios }, viewerToken);
+    const persisted = await compare({ scenarios, persist: true }, viewerToken);
+
+    expect(compared.statusCode).toBe(200);
+    expect(persisted.statusCode).toBe(403);
+    expect(persisted.json().error).toBe('Permissão insuficiente');
+    expect(prisma.simulation.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject events that do not belong to the client', async () => {
+    const response = await compare({
+      scenarios: [{ name: 'Evento estranho', events: { remove: ['event-other'] } }]
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('Eventos não encontrados: event-other');
+  });
+
+  it('should reject life events outside the scenario horizon', async () => {
+    const response = await compare({
+      scenarios: [{ name: 'Sinistro', parameters: { projectionYears: 5, lifeEvent: { type: 'DEATH', year: currentYear + 8 } } }]
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('Cenário "Sinistro": ano do cenário deve estar dentro do horizonte da projeção');
+  });
+
+  it('should reject requests without scenarios or with too many', async () => {
+    const empty = await compare({ scenarios: [] });
+    const tooMany = await compare({
+      scenarios: Array.from({ length: 6 }, (_, index) => ({ name: `Cenário ${index + 1}` }))
+    });
+
+    expect(empty.statusCode).toBe(400);
+    expect(tooMany.statusCode).toBe(400);
+  });
+
+  it('should return 404 for simulations outside the advisor book', async () => {
+    (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(null);
+
+    const response = await compare({ scenarios: [{ name: 'Juros de 3%', parameters: { interestRate: 0.03 } }] });
+
+    expect(response.statusCode).toBe(404);
+  });
+});
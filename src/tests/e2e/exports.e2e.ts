@@ -0,0 +1,154 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Exports', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let viewerToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const advisorScope = { organizationId: 'org-1', advisors: { some: { userId: 'advisor-1' } } };
+
+  const simulation = {
+    id: 'simulation-1',
+    clientId,
+    projectionData: [
+      { year: 2025, projectedValue: 100000, realValue: 100000 },
+      { year: 2026, projectedValue: 104000.5, realValue: 99523.45 }
+    ]
+  };
+
+  const wallets = [
+    {
+      id: 'wallet-1',
+      clientId,
+      assetClass: 'Renda Fixa',
+      percentage: new Decimal('40'),
+      currentValue: new Decimal('100000'),
+      totalPatrimony: new Decimal('250000'),
+      alignmentPercent: new Decimal('80')
+    }
+  ];
+
+  const events = [
+    {
+      id: 'event-1',
+      clientId,
+      type: 'EXPENSE',
+      description: 'Aluguel; condomínio',
+      value: new Decimal('3500'),
+      frequency: 'MONTHLY',
+      inflationIndexed: false,
+      startDate: new Date('2025-03-01T00:00:00Z'),
+      endDate: new Date('2030-02-28T00:00:00Z')
+    }
+  ];
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-2', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId });
+    (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(simulation);
+    (prisma.wallet.findMany as jest.Mock).mockResolvedValue(wallets);
+    (prisma.event.findMany as jest.Mock).mockResolvedValue(events);
+  });
+
+  describe('GET /simulations/:id/export', () => {
+    it('should export the yearly curve as pt-BR CSV by default', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v1/simulations/simulation-1/export', headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="simulacao-simulation-1.csv"');
+      expect(response.body.replace(/^\uFEFF/, '').split('\r\n')).toEqual([
+        'Ano;Valor projetado;Valor real',
+        '2025;100.000,00;100.000,00',
+        '2026;104.000,50;99.523,45',
+        ''
+      ]);
+      expect(prisma.simulation.findFirst).toHaveBeenCalledWith({
+        where: { id: 'simulation-1', client: advisorScope }
+      });
+    });
+
+    it('should honour the requested locale', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v1/simulations/simulation-1/export?locale=en-US', headers: bearer(viewerToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.body.split('\r\n')[2]).toBe('2026,"104,000.50","99,523.45"');
+    });
+
+    it('should export XLSX workbooks', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v1/simulations/simulation-1/export?format=xlsx', headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="simulacao-simulation-1.xlsx"');
+      expect(response.rawPayload.subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    });
+
+    it('should reject unsupported formats and locales', async () => {
+      const format = await app.inject({ method: 'GET', url: '/api/v1/simulations/simulation-1/export?format=pdf', headers: bearer(advisorToken) });
+      const locale = await app.inject({ method: 'GET', url: '/api/v1/simulations/simulation-1/export?locale=xx-invalid-locale', headers: bearer(advisorToken) });
+
+      expect(format.statusCode).toBe(400);
+      expect(locale.statusCode).toBe(400);
+    });
+
+    it('should return 404 for simulations outside the advisor book', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/api/v1/simulations/simulation-1/export', headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /clients/:clientId/wallet/export', () => {
+    it('should export the allocation with a total row', async () => {
+      const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/wallet/export`, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-disposition']).toBe(`attachment; filename="carteira-${clientId}.csv"`);
+      expect(response.body.split('\r\n').slice(1, 3)).toEqual([
+        'Renda Fixa;40,00;100.000,00;250.000,00;80,00',
+        'Total;40,00;100.000,00;;'
+      ]);
+      expect(prisma.client.findFirst).toHaveBeenCalledWith({ where: { id: clientId, ...advisorScope } });
+    });
+
+    it('should return 404 for clients outside the advisor book', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/wallet/export`, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.wallet.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /clients/:clientId/events/export', () => {
+    it('should export the schedule with localized dates and quoted text', async () => {
+      const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/events/export`, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-disposition']).toBe(`attachment; filename="eventos-${clientId}.csv"`);
+      expect(response.body.split('\r\n')[1]).toBe('01/03/2025;28/02/2030;Despesa;"Aluguel; condomínio";Mensal;3.500,00;Não');
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import type { FastifyInstance } from 'fastify';
+import { prisma } from '../../models';
+
+describe('CSV imports', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let otherAdvisorToken: string;
+  let viewerToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const advisorScope = { organizationId: 'org-1', advisors: { some: { userId: 'advisor-1' } } };
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const startImport = (query: string, csv: string, token = advisorToken) => app.inject({
+    method: 'POST',
+    url: `/api/v1/imports?${query}`,
+    headers: { ...bearer(token), 'content-type': 'text/csv' },
+    payload: csv
+  });
+
+  // Lê o stream SSE até o evento "complete" e devolve as mensagens recebidas
+  const readEvents = async (id: string) => {
+    const response = await app.inject({ method: 'GET', url: `/api/v1/imports/${id}/events`, headers: bearer(advisorToken) });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('text/event-stream');
+
+    return response.body
+      .split('\n\n')
+      .filter(chunk => chunk.startsWith('event:'))
+      .map(chunk => JSON.parse(chunk.split('\n')[1].replace('data: ', '')));
+  };
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    otherAdvisorToken = app.jwt.sign({ userId: 'advisor-2', organizationId: 'org-1', sessionId: 'session-2', email: 'outro@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-3', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.wallet.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.client.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: `client-${data.email}`, ...data }));
+    (prisma.event.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'event-1', ...data }));
+  });
+
+  describe('POST /imports', () => {
+    it('should return 403 for VIEWER', async () => {
+      const response = await startImport('type=clients', 'name,email,age,familyProfile\n', viewerToken);
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject bodies that are not CSV text', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/imports?type=clients',
+        headers: bearer(advisorToken),
+        payload: { name: 'Família Souza' }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject files without the required columns', async () => {
+      const response = await startImport('type=events', 'type,value\nINCOME,1000');
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Colunas obrigatórias ausentes: frequency, startDate, clientId ou clientEmail');
+    });
+
+    it('should reject files without rows', async () => {
+      const response = await startImport('type=clients', 'name,email,age,familyProfile\n');
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('processing', () => {
+    it('should import clients for the organization and the importing advisor', async () => {
+      const csv = [
+        'name;email;age;familyProfile',
+        'Família Souza;souza@email.com;50;moderate',
+        'Família Lima;lima@email.com;42;CONSERVATIVE'
+      ].join('\n');
+
+      const response = await startImport('type=clients', csv);
+
+      expect(response.statusCode).toBe(202);
+      const { id, status, progress } = response.json().data;
+      expect(status).toBe('processing');
+      expect(progress.total).toBe(2);
+
+      const messages = await readEvents(id);
+      const complete = messages[messages.length - 1];
+
+      expect(complete.type).toBe('complete');
+      expect(complete.data).toEqual(expect.objectContaining({ status: 'completed', imported: 2 }));
+      expect(complete.data.progress).toEqual({ total: 2, processed: 2, errors: [], percentage: 100 });
+      expect(prisma.client.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          email: 'souza@email.com',
+          age: 50,
+          familyProfile: 'MODERATE',
+          organizationId: 'org-1',
+          advisors: { create: { userId: 'advisor-1' } }
+        })
+      });
+      expect(prisma.auditLog.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report row errors and keep the valid rows by default', async () => {
+      const csv = [
+        'name,email,age,familyProfile',
+        'Família Souza,souza@email.com,10,MODERATE',
+        'Família Lima,lima@email.com,42,CONSERVATIVE',
+        'Família Lima 2,lima@email.com,43,CONSERVATIVE'
+      ].join('\n');
+
+      const { id } = (await startImport('type=clients', csv)).json().data;
+      const messages = await readEvents(id);
+
+      const errors = messages.filter(message => message.type === 'error');
+      expect(errors.map(message => message.data)).toEqual([
+        { line: 2, message: 'age: Idade mínima é 18 anos' },
+        { line: 4, message: 'Email repetido no arquivo' }
+      ]);
+      expect(messages.filter(message => message.type === 'progress').length).toBeGreaterThanOrEqual(3);
+      expect(prisma.client.create).toHaveBeenCalledTimes(1);
+
+      const status = await app.inject({ method: 'GET', url: `/api/v1/imports/${id}`, headers: bearer(advisorToken) });
+      expect(status.json().data).toEqual(expect.objectContaining({
+        status: 'completed',
+        imported: 1,
+        progress: expect.objectContaining({
+          errors: ['Linha 2: age: Idade mínima é 18 anos', 'Linha 4: Email repetido no arquivo']
+        })
+      }));
+    });
+
+    it('should not write anything in atomic mode when a row fails', async () => {
+      const csv = [
+        'name,email,age,familyProfile',
+        'Família Souza,souza@email.com,50,MODERATE',
+        'Família Lima,email-invalido,42,CONSERVATIVE'
+      ].join('\n');
+
+      const { id, atomic } = (await startImport('type=clients&atomic=true', csv)).json().data;
+      const messages = await readEvents(id);
+
+      expect(atomic).toBe(true);
+      expect(messages[messages.length - 1].data).toEqual(expect.objectContaining({ status: 'failed', imported: 0 }));
+      expect(prisma.client.create).not.toHaveBeenCalled();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should write every row in a single transaction in atomic mode', async () => {
+      const csv = [
+        'name,email,age,familyProfile',
+        'Família Souza,souza@email.com,50,MODERATE',
+        'Família Lima,lima@email.com,42,CONSERVATIVE'
+      ].join('\n');
+
+      const { id } = (await startImport('type=clients&atomic=true', csv)).json().data;
+      const messages = await readEvents(id);
+
+      expect(messages[messages.length - 1].data).toEqual(expect.objectContaining({ status: 'completed', imported: 2 }));
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.client.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve events by client email within the advisor book', async () => {
+      (prisma.client.findFirst as jest.Mock).mockImplementation(({ where }) =>
+        Promise.resolve(where.email === 'souza@email.com' ? { id: clientId } : null)
+      );
+
+      const csv = [
+        'clientEmail,type,value,frequency,startDate,inflationIndexed',
+        'souza@email.com,income,"15.000,00",MONTHLY,01/01/2025,sim',
+        'desconhecido@email.com,EXPENSE,500,MONTHLY,2025-01-01,não'
+      ].join('\n');
+
+      const { id } = (await startImport('type=events', csv)).json().data;
+      const messages = await readEvents(id);
+
+      expect(prisma.client.findFirst).toHaveBeenCalledWith({
+        where: { email: 'souza@email.com', ...advisorScope },
+        select: { id: true }
+      });
+      expect(prisma.event.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          clientId,
+          type: 'INCOME',
+          value: '15000',
+          inflationIndexed: true,
+          startDate: new Date('2025-01-01T00:00:00.000Z')
+        })
+      });
+      expect(messages.find(message => message.type === 'error').data).toEqual({ line: 3, message: 'Cliente não encontrado' });
+    });
+  });
+
+  describe('access', () => {
+    it('should hide imports from other users', async () => {
+      const { id } = (await startImport('type=clients', 'name,email,age,familyProfile\nFamília Souza,souza@email.com,50,MODERATE')).json().data;
+      await readEvents(id);
+
+      const status = await app.inject({ method: 'GET', url: `/api/v1/imports/${id}`, headers: bearer(otherAdvisorToken) });
+      const stream = await app.inject({ method: 'GET', url: `/api/v1/imports/${id}/events`, headers: bearer(otherAdvisorToken) });
+
+      expect(status.statusCode).toBe(404);
+      expect(stream.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Amortized loans', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const loanId = 'cm0000000000000000000002';
+  const currentYear = new Date().getFullYear();
+
+  // 1% ao mês, contratado em dezembro do ano anterior
+  const loan = {
+    id: loanId,
+    clientId,
+    type: 'LOAN',
+    description: 'Financiamento imobiliário',
+    value: new Decimal('120000'),
+    frequency: 'MONTHLY',
+    inflationIndexed: false,
+    startDate: new Date(currentYear - 1, 11, 1),
+    endDate: null,
+    interestRate: new Decimal(Math.pow(1.01, 12) - 1),
+    termMonths: 120,
+    amortizationSystem: 'SAC'
+  };
+
+  const loanPayload = {
+    clientId,
+    type: 'LOAN',
+    value: 120000,
+    frequency: 'MONTHLY',
+    startDate: '2026-01-15T00:00:00.000Z',
+    interestRate: 0.1268,
+    termMonths: 120,
+    amortizationSystem: 'PRICE'
+  };
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId, events: [loan], insurances: [], wallets: [] });
+  });
+
+  describe('POST /events', () => {
+    const createEvent = (payload: object) => app.inject({
+      method: 'POST',
+      url: '/api/v1/events',
+      headers: bearer(advisorToken),
+      payload
+    });
+
+    it('should store the loan terms', async () => {
+      (prisma.event.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: loanId, ...data }));
+
+      const response = await createEvent(loanPayload);
+
+      expect(response.statusCode).toBe(201);
+      expect((prisma.event.create as jest.Mock).mock.calls[0][0].data).toMatchObject({
+        value: '120000',
+        interestRate: '0.1268',
+        termMonths: 120,
+        amortizationSystem: 'PRICE'
+      });
+    });
+
+    it('should require rate, term and amortization system together', async () => {
+      const response = await createEvent({ ...loanPayload, termMonths: undefined });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Informe taxa, prazo e sistema de amortização do empréstimo');
+      expect(prisma.event.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject amortized loans outside a monthly schedule', async () => {
+      const response = await createEvent({ ...loanPayload, frequency: 'ANNUALLY' });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Empréstimos com sistema de amortização têm parcelas mensais (frequency MONTHLY)');
+    });
+
+    it('should reject loan terms on other event types', async () => {
+      const response = await createEvent({ ...loanPayload, type: 'EXPENSE' });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Taxa, prazo e sistema de amortização só se aplicam a empréstimos (LOAN)');
+    });
+  });
+
+  describe('GET /events/:id/amortization', () => {
+    it('should return the installment schedule', async () => {
+      (prisma.event.findFirst as jest.Mock).mockResolvedValue(loan);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/events/${loanId}/amortization`,
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = response.json();
+      expect(data).toMatchObject({ principal: 120000, termMonths: 120, amortizationSystem: 'SAC', totalInterest: 72600 });
+      expect(data.installments).toHaveLength(120);
+      expect(data.installments[0]).toEqual({ month: 1, installment: 2200, interest: 1200, amortization: 1000, balance: 119000 });
+    });
+
+    it('should reject events without amortization terms', async () => {
+      (prisma.event.findFirst as jest.Mock).mockResolvedValue({ ...loan, interestRate: null, termMonths: null, amortizationSystem: null });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/events/${loanId}/amortization`,
+        headers: bearer(advisorToken)
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Evento não é um empréstimo com sistema de amortização');
+    });
+  });
+
+  describe('POST /projections/generate', () => {
+    it('should report net worth alongside assets and outstanding debt', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/projections/generate',
+        headers: bearer(advisorToken),
+        payload: { clientId, initialValue: 200000, interestRate: 0, projectionYears: 10 }
+      });
+
+      expect(response.statusCode).toBe(200);
+      const [firstYear] = response.json().data.projectionData;
+
+      expect(firstYear).toMatchObject({ assets: 174260, outstandingDebt: 108000, projectedValue: 66260 });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import type { FastifyInstance } from 'fastify';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../../models';
+
+describe('Login brute-force protection', () => {
+  let app: FastifyInstance;
+
+  const user = {
+    id: 'advisor-1',
+    organizationId: 'org-1',
+    email: 'advisor@wealthplanner.com',
+    name: 'João Advisor',
+    role: 'ADVISOR',
+    password: '',
+    mfaEnabled: false,
+    failedLoginAttempts: 0,
+    lastFailedLoginAt: null as Date | null,
+    lockedUntil: null as Date | null,
+    organization: { id: 'org-1', slug: 'wealth-planner', requireMfa: false }
+  };
+
+  // Cada teste usa um IP próprio para não compartilhar contadores em memória
+  const login = (remoteAddress: string, password = '123456') => app.inject({
+    method: 'POST',
+    url: '/api/v1/auth/login',
+    remoteAddress,
+    payload: { organizationSlug: 'wealth-planner', email: user.email, password }
+  });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    process.env.MAX_FAILED_LOGIN_ATTEMPTS = '3';
+    process.env.MAX_FAILED_LOGIN_ATTEMPTS_PER_IP = '4';
+    process.env.AUTH_RATE_LIMIT_MAX = '6';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    user.password = await bcrypt.hash('123456', 4);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('per-account tracking', () => {
+    beforeEach(() => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({ failedLoginAttempts: 1 });
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    });
+
+    it('should count a failed attempt against the account', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+
+      const response = await login('10.0.0.1', 'wrong-password');
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'advisor-1' },
+        data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: expect.any(Date) },
+        select: { failedLoginAttempts: true }
+      });
+    });
+
+    it('should lock the account when reaching the limit', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 2, lastFailedLoginAt: new Date(Date.now() - 60_000) });
+      (prisma.user.update as jest.Mock).mockResolvedValue({ failedLoginAttempts: 3 });
+
+      const response = await login('10.0.0.2', 'wrong-password');
+
+      expect(response.statusCode).toBe(401);
+      const { data } = (prisma.user.updateMany as jest.Mock).mock.calls[0][0];
+      expect(data.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should lock the account when concurrent failures read the same counter', async () => {
+      // Todas as requisições leem 0 falhas; o banco incrementa uma a uma
+      let failedLoginAttempts = 0;
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      (prisma.user.update as jest.Mock).mockImplementation(() => Promise.resolve({ failedLoginAttempts: ++failedLoginAttempts }));
+
+      const responses = await Promise.all(['10.0.0.6', '10.0.0.7', '10.0.0.8'].map(ip => login(ip, 'wrong-password')));
+
+      expect(responses.map(response => response.statusCode)).toEqual([401, 401, 401]);
+      expect(failedLoginAttempts).toBe(3);
+      expect(prisma.user.updateMany).toHaveBeenCalledTimes(1);
+      expect((prisma.user.updateMany as jest.Mock).mock.calls[0][0].data.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should enforce the progressive delay between attempts', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 2, lastFailedLoginAt: new Date() });
+
+      const response = await login('10.0.0.3');
+
+      expect(response.statusCode).toBe(429);
+      expect(response.headers['retry-after']).toBe('2');
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 423 while the account is locked, even with the right password', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({
+        ...user,
+        failedLoginAttempts: 3,
+        lastFailedLoginAt: new Date(Date.now() - 60_000),
+        lockedUntil: new Date(Date.now() + 10 * 60_000)
+      });
+
+      const response = await login('10.0.0.4');
+
+      expect(response.statusCode).toBe(423);
+      expect(response.json().error).toBe('Conta temporariamente bloqueada por excesso de tentativas');
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should reset the counters after a successful login', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 1, lastFailedLoginAt: new Date(Date.now() - 60_000) });
+      (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1', mfa: false });
+
+      const response = await login('10.0.0.5');
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'advisor-1' },
+        data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+      });
+    });
+  });
+
+  describe('per-IP tracking', () => {
+    it('should block the IP after too many failures, even for unknown accounts', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      for (let i = 0; i < 4; i++) {
+        expect((await login('10.0.1.1', 'wrong-password')).statusCode).toBe(401);
+      }
+
+      const response = await login('10.0.1.1');
+
+      expect(response.statusCode).toBe(429);
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+      expect(prisma.user.findFirst).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not let a concurrent burst past the IP limit', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const responses = await Promise.all(Array.from({ length: 6 }, () => login('10.0.1.3', 'wrong-password')));
+
+      expect(responses.filter(response => response.statusCode === 401)).toHaveLength(4);
+      expect(responses.filter(response => response.statusCode === 429)).toHaveLength(2);
+      expect(prisma.user.findFirst).toHaveBeenCalledTimes(4);
+    });
+
+    it('should keep counting the IP failures after a successful login', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1', mfa: false });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await login('10.0.1.2', 'wrong-password')).statusCode).toBe(401);
+      }
+      expect((await login('10.0.1.2')).statusCode).toBe(200);
+      expect((await login('10.0.1.2', 'wrong-password')).statusCode).toBe(401);
+
+      const response = await login('10.0.1.2');
+
+      expect(response.statusCode).toBe(429);
+    });
+  });
+
+  describe('POST /users/:id/unlock', () => {
+    const tokenFor = (role: string, mfa = true) =>
+      app.jwt.sign({ userId: 'admin-1', organizationId: 'org-1', sessionId: 'session-admin-1', email: 'admin@wealthplanner.com', role, mfa });
+
+    beforeEach(() => {
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    });
+
+    it('should return 403 for non-admins', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users/advisor-1/unlock',
+        headers: { authorization: `Bearer ${tokenFor('ADVISOR')}` }
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should require a second factor', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users/advisor-1/unlock',
+        headers: { authorization: `Bearer ${tokenFor('ADMIN', false)}` }
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 404 for users of another organization', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users/advisor-9/unlock',
+        headers: { authorization: `Bearer ${tokenFor('ADMIN')}` }
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.user.findFirst).toHaveBeenCalledWith({ where: { id: 'advisor-9', organizationId: 'org-1' } });
+    });
+
+    it('should clear the lock and the failure counter', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue({ ...user, failedLoginAttempts: 3, lockedUntil: new Date(Date.now() + 60_000) });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/users/advisor-1/unlock',
+        headers: { authorization: `Bearer ${tokenFor('ADMIN')}` }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual({ userId: 'advisor-1' });
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'advisor-1' },
+        data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+      });
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should answer 429 through the error handler once the auth limit is exceeded', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      for (let i = 0; i < 6; i++) {
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/password/forgot', remoteAddress: '10.0.2.1', payload: {} });
+        expect(response.statusCode).toBe(400);
+      }
+
+      const response = await app.inject({ method: 'POST', url: '/api/v1/auth/password/forgot', remoteAddress: '10.0.2.1', payload: {} });
+
+      expect(response.statusCode).toBe(429);
+      expect(response.json()).toEqual({ success: false, error: 'Muitas requisições. Tente novamente em alguns minutos.' });
+      expect(response.headers['x-ratelimit-limit']).toBe('6');
+      expect(response.headers['x-ratelimit-remaining']).toBe('0');
+      expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    });
+
+    it('should not apply the auth limit to other routes', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/v1/health', remoteAddress: '10.0.2.1' });
+
+      expect(response.statusCode).toBe(200);
+    });
+  });
+});
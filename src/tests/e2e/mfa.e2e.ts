@@ -0,0 +1,313 @@
+import type { FastifyInstance } from 'fastify';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../../models';
+import { AuthPayload } from '../../types';
+import { MfaService } from '../../services/MfaService';
+import { generateTotp, generateTotpSecret } from '../../utils/totp';
+
+describe('Two-factor authentication', () => {
+  let app: FastifyInstance;
+
+  const secret = generateTotpSecret();
+  const organization = { id: 'org-1', slug: 'wealth-planner', requireMfa: false };
+  const user = {
+    id: 'advisor-1',
+    organizationId: 'org-1',
+    email: 'advisor@wealthplanner.com',
+    name: 'João Advisor',
+    role: 'ADVISOR',
+    password: '',
+    mfaEnabled: true,
+    mfaSecret: secret,
+    mfaRecoveryCodes: [] as string[],
+    mfaLastUsedStep: null as number | null,
+    failedLoginAttempts: 0,
+    lastFailedLoginAt: null,
+    lockedUntil: null,
+    organization
+  };
+
+  const sign = (claims: Partial<AuthPayload>) => app.jwt.sign({
+    userId: user.id,
+    organizationId: 'org-1',
+    sessionId: 'session-1',
+    email: user.email,
+    role: user.role,
+    mfa: false,
+    mfaRequired: false,
+    ...claims
+  });
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    user.password = await bcrypt.hash('123456', 4);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.client.count as jest.Mock).mockResolvedValue(0);
+    (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.user.update as jest.Mock).mockResolvedValue({ failedLoginAttempts: 1 });
+  });
+
+  describe('two-step login', () => {
+    const login = () => app.inject({
+      method: 'POST',
+      url: '/api/v1/auth/login',
+      payload: { organizationSlug: 'wealth-planner', email: user.email, password: '123456' }
+    });
+
+    it('should return an MFA challenge instead of a session', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+
+      const response = await login();
+
+      expect(response.statusCode).toBe(200);
+      const data = response.json().data;
+      expect(data.mfaRequired).toBe(true);
+      expect(data.mfaToken).toEqual(expect.any(String));
+      expect(data.token).toBeUndefined();
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should not accept the MFA challenge as an access token', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      const { mfaToken } = (await login()).json().data;
+
+      const response = await app.inject({ method: 'GET', url: '/api/v1/clients', headers: bearer(mfaToken) });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should open an MFA-satisfied session with a valid code', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+      (prisma.session.create as jest.Mock).mockResolvedValue({ id: 'session-1', mfa: true });
+      const { mfaToken } = (await login()).json().data;
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/mfa',
+        payload: { mfaToken, code: generateTotp(secret) }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: user.id, mfa: true })
+      });
+      expect(app.jwt.decode<AuthPayload>(response.json().data.token)).toEqual(
+        expect.objectContaining({ mfa: true, mfaRequired: true })
+      );
+    });
+
+    it('should reject an invalid code', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+      const { mfaToken } = (await login()).json().data;
+      const wrongCode = generateTotp(secret) === '000000' ? '111111' : '000000';
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/mfa',
+        payload: { mfaToken, code: wrongCode }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code already used in the same time step', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      const { mfaToken } = (await login()).json().data;
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/mfa',
+        payload: { mfaToken, code: generateTotp(secret) }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should only accept time steps after the last used one', async () => {
+      expect(await MfaService.verify(user, generateTotp(secret))).toBe(true);
+
+      const { where, data } = (prisma.user.updateMany as jest.Mock).mock.calls[0][0];
+      expect(data.mfaLastUsedStep).toBe(Math.floor(Date.now() / 30_000));
+      expect(where).toEqual({
+        id: user.id,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: data.mfaLastUsedStep } }]
+      });
+    });
+
+    it('should reject access tokens used as MFA challenges', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login/mfa',
+        payload: { mfaToken: sign({}), code: generateTotp(secret) }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it('should consume a recovery code only once', async () => {
+      const { codes, hashes } = MfaService.generateRecoveryCodes();
+      const withCodes = { ...user, mfaRecoveryCodes: hashes };
+
+      expect(await MfaService.verify(withCodes, codes[0])).toBe(true);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: user.id, mfaRecoveryCodes: { equals: hashes } },
+        data: { mfaRecoveryCodes: hashes.slice(1) }
+      });
+      expect(await MfaService.verify({ ...withCodes, mfaRecoveryCodes: hashes.slice(1) }, codes[0])).toBe(false);
+    });
+
+    it('should accept a recovery code only once under concurrent requests', async () => {
+      const { codes, hashes } = MfaService.generateRecoveryCodes();
+      const stored = { mfaRecoveryCodes: hashes };
+      // Simula a atualização condicional do banco sobre a lista armazenada
+      (prisma.user.updateMany as jest.Mock).mockImplementation(({ where, data }) => {
+        const matches = where.mfaRecoveryCodes.equals.join() === stored.mfaRecoveryCodes.join();
+        if (matches) {
+          stored.mfaRecoveryCodes = data.mfaRecoveryCodes;
+        }
+        return Promise.resolve({ count: matches ? 1 : 0 });
+      });
+      (prisma.user.findUnique as jest.Mock).mockImplementation(() => Promise.resolve({ ...stored }));
+      const withCodes = { ...user, mfaRecoveryCodes: hashes };
+
+      const sameCode = await Promise.all([MfaService.verify(withCodes, codes[0]), MfaService.verify(withCodes, codes[0])]);
+      expect(sameCode.filter(Boolean)).toHaveLength(1);
+
+      const staleRead = { ...user, mfaRecoveryCodes: stored.mfaRecoveryCodes };
+      const differentCodes = await Promise.all([MfaService.verify(staleRead, codes[1]), MfaService.verify(staleRead, codes[2])]);
+      expect(differentCodes).toEqual([true, true]);
+      expect(stored.mfaRecoveryCodes).toEqual(hashes.slice(3));
+    });
+  });
+
+  describe('enforcement', () => {
+    it('should block resource routes when MFA is required but not satisfied', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/clients',
+        headers: bearer(sign({ mfaRequired: true }))
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toEqual({ success: false, error: 'Autenticação em dois fatores requerida' });
+    });
+
+    it('should allow resource routes once MFA is satisfied', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/clients',
+        headers: bearer(sign({ mfaRequired: true, mfa: true }))
+      });
+
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should require MFA on admin routes', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/users/advisor-2/sessions',
+        headers: bearer(sign({ role: 'ADMIN' }))
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toEqual({ success: false, error: 'Autenticação em dois fatores requerida' });
+    });
+  });
+
+  describe('enrollment', () => {
+    const pending = { ...user, mfaEnabled: false, mfaSecret: null as string | null };
+
+    it('should store a pending secret on setup', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(pending);
+
+      const response = await app.inject({ method: 'POST', url: '/api/v1/auth/mfa/setup', headers: bearer(sign({})) });
+
+      expect(response.statusCode).toBe(200);
+      const { secret: issued, otpauthUrl } = response.json().data;
+      expect(otpauthUrl).toContain(`secret=${issued}`);
+      expect(prisma.user.update).toHaveBeenCalledWith({ where: { id: user.id }, data: { mfaSecret: issued } });
+    });
+
+    it('should refuse setup when MFA is already enabled', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      const response = await app.inject({ method: 'POST', url: '/api/v1/auth/mfa/setup', headers: bearer(sign({})) });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should enable MFA, return recovery codes and upgrade the session', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...pending, mfaSecret: secret });
+      (prisma.user.update as jest.Mock).mockResolvedValue({ ...user, mfaRecoveryCodes: [] });
+      (prisma.session.update as jest.Mock).mockResolvedValue({ id: 'session-1', mfa: true });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/mfa/enable',
+        headers: bearer(sign({ mfaRequired: true })),
+        payload: { code: generateTotp(secret) }
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { recoveryCodes, token } = response.json().data;
+      expect(recoveryCodes).toHaveLength(10);
+
+      const { data } = (prisma.user.update as jest.Mock).mock.calls[0][0];
+      expect(data.mfaEnabled).toBe(true);
+      expect(data.mfaRecoveryCodes).not.toContain(recoveryCodes[0]);
+      expect(prisma.session.update).toHaveBeenCalledWith({ where: { id: 'session-1' }, data: { mfa: true } });
+      expect(app.jwt.decode<AuthPayload>(token)).toEqual(expect.objectContaining({ mfa: true }));
+    });
+
+    it('should not disable MFA when the organization requires it', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ ...user, organization: { ...organization, requireMfa: true } });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/mfa/disable',
+        headers: bearer(sign({ mfa: true, mfaRequired: true })),
+        payload: { code: generateTotp(secret) }
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should disable MFA with a valid code', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/mfa/disable',
+        headers: bearer(sign({ mfa: true, mfaRequired: true })),
+        payload: { code: generateTotp(secret) }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: user.id },
+        data: { mfaEnabled: false, mfaSecret: null, mfaRecoveryCodes: [], mfaLastUsedStep: null }
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import type { FastifyInstance } from 'fastify';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../../models';
+
+describe('Password change and reset', () => {
+  let app: FastifyInstance;
+  let token: string;
+
+  const user = {
+    id: 'advisor-1',
+    organizationId: 'org-1',
+    email: 'advisor@wealthplanner.com',
+    name: 'João Advisor',
+    role: 'ADVISOR',
+    password: ''
+  };
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    user.password = await bcrypt.hash('123456', 4);
+    token = app.jwt.sign({ userId: user.id, organizationId: 'org-1', sessionId: 'session-1', email: user.email, role: user.role });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.session.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+  });
+
+  describe('POST /auth/password/change', () => {
+    const url = '/api/v1/auth/password/change';
+
+    it('should require authentication', async () => {
+      const response = await app.inject({ method: 'POST', url, payload: { currentPassword: '123456', newPassword: 'nova-senha' } });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should reject a wrong current password', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      const response = await app.inject({
+        method: 'POST',
+        url,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { currentPassword: 'errada', newPassword: 'nova-senha' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should update the password and revoke the other sessions', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      const response = await app.inject({
+        method: 'POST',
+        url,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { currentPassword: '123456', newPassword: 'nova-senha' }
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const { data } = (prisma.user.update as jest.Mock).mock.calls[0][0];
+      expect(await bcrypt.compare('nova-senha', data.password)).toBe(true);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: user.id, revokedAt: null, id: { not: 'session-1' } },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+  });
+
+  describe('forgot and reset flow', () => {
+    const forgot = (email: string) => app.inject({
+      method: 'POST',
+      url: '/api/v1/auth/password/forgot',
+      payload: { organizationSlug: 'wealth-planner', email }
+    });
+
+    it('should answer the same way for unknown emails without sending mail', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await forgot('ninguem@wealthplanner.com');
+
+      expect(response.statusCode).toBe(202);
+      expect(prisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(prisma.outboxEmail.create).not.toHaveBeenCalled();
+    });
+
+    it('should store only the token hash and deliver the token through the outbox', async () => {
+      (prisma.user.findFirst as jest.Mock).mockResolvedValue(user);
+
+      const response = await forgot(user.email);
+
+      expect(response.statusCode).toBe(202);
+
+      const { data: resetToken } = (prisma.passwordResetToken.create as jest.Mock).mock.calls[0][0];
+      const { data: email } = (prisma.outboxEmail.create as jest.Mock).mock.calls[0][0];
+      const sentToken = email.body.match(/token=([\w-]+)/)[1];
+
+      expect(email.to).toBe(user.email);
+      expect(resetToken.userId).toBe(user.id);
+      expect(resetToken.tokenHash).not.toBe(sentToken);
+      expect(resetToken.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reset the password once and revoke every session', async () => {
+      (prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValue({
+        id: 'reset-1',
+        userId: user.id,
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60_000)
+      });
+      (prisma.passwordResetToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/reset',
+        payload: { token: 'reset-token', newPassword: 'nova-senha' }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.passwordResetToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'reset-1', usedAt: null },
+        data: { usedAt: expect.any(Date) }
+      });
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: user.id } }));
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: user.id, revokedAt: null },
+        data: { revokedAt: expect.any(Date) }
+      });
+    });
+
+    it.each([
+      ['unknown', null],
+      ['used', { usedAt: new Date() }],
+      ['expired', { expiresAt: new Date(Date.now() - 1000) }]
+    ])('should reject an %s reset token', async (_label, override) => {
+      (prisma.passwordResetToken.findUnique as jest.Mock).mockResolvedValue(override && {
+        id: 'reset-1',
+        userId: user.id,
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        ...override
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/reset',
+        payload: { token: 'reset-token', newPassword: 'nova-senha' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json()).toEqual({ success: false, error: 'Token de redefinição inválido ou expirado' });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Asset allocation in projections', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const simulationId = 'cm0000000000000000000001';
+
+  const wallets = [
+    { id: 'wallet-1', clientId, assetClass: 'Renda Fixa', percentage: new Decimal('60'), currentValue: new Decimal('80000') },
+    { id: 'wallet-2', clientId, assetClass: 'Ações', percentage: new Decimal('40'), currentValue: new Decimal('20000') }
+  ];
+
+  const allocations = [
+    { assetClass: 'Renda Fixa', expectedReturn: 0.1, volatility: 0.03, weight: 0.8, targetWeight: 0.6 },
+    { assetClass: 'Ações', expectedReturn: 0.14, volatility: 0.25, weight: 0.2, targetWeight: 0.4 }
+  ];
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const generate = (body: object) => app.inject({
+    method: 'POST',
+    url: '/api/v1/projections/generate',
+    headers: bearer(advisorToken),
+    payload: { clientId, initialValue: 100000, projectionYears: 10, ...body }
+  });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId, events: [], insurances: [], wallets });
+  });
+
+  describe('POST /projections/generate', () => {
+    it('should project each asset class with its own assumptions and report the blended rate', async () => {
+      const response = await generate({ portfolio: {} });
+
+      expect(response.statusCode).toBe(200);
+      const { parameters, projectionData } = response.json().data;
+
+      expect(parameters.portfolio).toEqual({ allocations, rebalanceFrequency: 'ANNUALLY' });
+      expect(parameters.interestRate).toBe(0.116);
+      expect(projectionData[10].projectedValue).toBeGreaterThan(100000 * Math.pow(1.1, 11));
+    });
+
+    it('should apply the informed assumptions over the default table', async () => {
+      const response = await generate({
+        portfolio: { rebalanceFrequency: 'NONE', assumptions: [{ assetClass: 'acoes', expectedReturn: 0.2, volatility: 0.3 }] }
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { portfolio, interestRate } = response.json().data.parameters;
+
+      expect(portfolio.rebalanceFrequency).toBe('NONE');
+      expect(portfolio.allocations[1]).toMatchObject({ assetClass: 'Ações', expectedReturn: 0.2, volatility: 0.3 });
+      expect(interestRate).toBe(0.14);
+    });
+
+    it('should reject asset classes without market assumptions', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({
+        id: clientId,
+        events: [],
+        insurances: [],
+        wallets: [...wallets, { id: 'wallet-3', clientId, assetClass: 'Private Equity', percentage: new Decimal('0'), currentValue: new Decimal('5000') }]
+      });
+
+      const response = await generate({ portfolio: {} });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Classes de ativo sem premissas de mercado: Private Equity');
+    });
+
+    it('should reject a portfolio for clients without wallets', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId, events: [], insurances: [], wallets: [] });
+
+      const response = await generate({ portfolio: {} });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Cliente não possui carteira cadastrada');
+    });
+  });
+
+  describe('POST /simulations', () => {
+    const create = (body: object) => app.inject({
+      method: 'POST',
+      url: '/api/v1/simulations',
+      headers: bearer(advisorToken),
+      payload: { clientId, name: 'Carteira alocada', initialValue: 100000, projectionYears: 10, ...body }
+    });
+
+    it('should store the allocation and the blended rate without an interest rate', async () => {
+      (prisma.simulation.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: simulationId, ...data }));
+
+      const response = await create({ portfolio: { rebalanceFrequency: 'QUARTERLY' } });
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      const portfolio = { allocations, rebalanceFrequency: 'QUARTERLY' };
+
+      expect(data.interestRate).toBe('0.116');
+      expect(data.portfolioConfig).toEqual(portfolio);
+      expect(data.inputSnapshot.parameters).toMatchObject({ interestRate: 0.116, portfolio });
+    });
+
+    it('should require an interest rate without a portfolio', async () => {
+      const response = await create({});
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Informe a taxa de juros ou a carteira da simulação');
+    });
+  });
+});
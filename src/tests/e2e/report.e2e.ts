@@ -0,0 +1,134 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Client report', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let viewerToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const advisorScope = { organizationId: 'org-1', advisors: { some: { userId: 'advisor-1' } } };
+
+  const client = {
+    id: clientId,
+    organizationId: 'org-1',
+    name: 'Família Souza',
+    email: 'souza@email.com',
+    age: 45,
+    isActive: true,
+    familyProfile: 'MODERATE',
+    organization: { id: 'org-1', name: 'Planejar Investimentos' },
+    wallets: [
+      {
+        id: 'wallet-1',
+        clientId,
+        assetClass: 'Renda Fixa',
+        percentage: new Decimal('60'),
+        currentValue: new Decimal('180000'),
+        totalPatrimony: new Decimal('200000'),
+        alignmentPercent: new Decimal('90')
+      }
+    ],
+    goals: [
+      {
+        id: 'goal-1',
+        clientId,
+        type: 'RETIREMENT',
+        description: 'Aposentadoria aos 60 anos',
+        targetValue: new Decimal('1000000'),
+        targetDate: new Date('2040-01-01T00:00:00Z')
+      }
+    ],
+    events: [
+      {
+        id: 'event-1',
+        clientId,
+        type: 'EXPENSE',
+        description: 'Custo de vida',
+        value: new Decimal('8000'),
+        frequency: 'MONTHLY',
+        inflationIndexed: false,
+        startDate: new Date('2020-01-01T00:00:00Z'),
+        endDate: null
+      }
+    ],
+    insurances: [
+      { id: 'insurance-1', clientId, type: 'LIFE', coverage: new Decimal('500000'), premium: new Decimal('150'), description: 'Vida inteira' }
+    ],
+    simulations: [
+      {
+        id: 'simulation-1',
+        clientId,
+        name: 'Cenário base',
+        createdAt: new Date('2025-06-01T00:00:00Z'),
+        projectionData: [
+          { year: 2025, projectedValue: 180000, realValue: 180000 },
+          { year: 2026, projectedValue: 190000, realValue: 182000 },
+          { year: 2027, projectedValue: 201000, realValue: 185000 }
+        ]
+      }
+    ]
+  };
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-2', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue(client);
+  });
+
+  it('should render the PDF report for the advisor book', async () => {
+    const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/report.pdf`, headers: bearer(advisorToken) });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect(response.headers['content-disposition']).toBe(`attachment; filename="relatorio-${clientId}.pdf"`);
+    expect(response.rawPayload.subarray(0, 8).toString('latin1')).toBe('%PDF-1.4');
+    expect(response.rawPayload.toString('latin1')).toContain('/Author (Planejar Investimentos)');
+    expect(prisma.client.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: clientId, ...advisorScope },
+      include: expect.objectContaining({
+        organization: true,
+        simulations: { orderBy: { createdAt: 'desc' }, take: 1 }
+      })
+    }));
+  });
+
+  it('should render clients without wallets, goals or simulations', async () => {
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue({ ...client, wallets: [], goals: [], events: [], insurances: [], simulations: [] });
+
+    const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/report.pdf`, headers: bearer(viewerToken) });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers['content-type']).toBe('application/pdf');
+  });
+
+  it('should return 404 for clients outside the advisor book', async () => {
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue(null);
+
+    const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/report.pdf`, headers: bearer(advisorToken) });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json().error).toBe('Cliente não encontrado');
+  });
+
+  it('should require authentication', async () => {
+    const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}/report.pdf` });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
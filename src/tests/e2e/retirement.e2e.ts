@@ -0,0 +1,168 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Retirement decumulation', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const simulationId = 'cm0000000000000000000001';
+  const currentYear = new Date().getFullYear();
+
+  const salary = {
+    id: 'event-salary',
+    clientId,
+    type: 'INCOME',
+    description: 'Salário',
+    value: new Decimal('15000'),
+    frequency: 'MONTHLY',
+    inflationIndexed: false,
+    startDate: new Date(`${currentYear}-01-01T00:00:00Z`),
+    endDate: null
+  };
+
+  const client = { id: clientId, age: 55, events: [salary], insurances: [], wallets: [], goals: [] };
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const generate = (body: object) => app.inject({
+    method: 'POST',
+    url: '/api/v1/projections/generate',
+    headers: bearer(advisorToken),
+    payload: { clientId, initialValue: 1000000, interestRate: 0.05, projectionYears: 20, ...body }
+  });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue(client);
+  });
+
+  describe('POST /projections/generate', () => {
+    it('should stop income at the retirement age and report the retirement analysis', async () => {
+      const response = await generate({ retirement: { retirementAge: 60, desiredIncome: 20000, lifeExpectancy: 90 } });
+
+      expect(response.statusCode).toBe(200);
+      const { projectionData, retirement, parameters } = response.json().data;
+
+      expect(parameters.retirement).toEqual({ retirementAge: 60, desiredIncome: 20000, strategy: 'FIXED_REAL', lifeExpectancy: 90, currentAge: 55 });
+      expect(projectionData[4].withdrawal).toBe(0);
+      expect(projectionData[5].withdrawal).toBe(240000);
+      expect(retirement).toMatchObject({
+        strategy: 'FIXED_REAL',
+        retirementAge: 60,
+        retirementYear: currentYear + 5,
+        lifeExpectancy: 90,
+        portfolioAtRetirement: projectionData[4].projectedValue,
+        initialMonthlyWithdrawal: 20000
+      });
+      expect(retirement.sustainableWithdrawal).toBeGreaterThan(0);
+      expect(retirement.sustainableWithdrawal).toBeLessThan(20000);
+      expect(retirement.depletionAge).toBeGreaterThan(60);
+      expect(retirement.depletionAge).toBeLessThan(90);
+    });
+
+    it('should support the percentage strategy without running out of money', async () => {
+      const response = await generate({ retirement: { retirementAge: 60, desiredIncome: 20000, strategy: 'PERCENTAGE', withdrawalRate: 0.04 } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.retirement).toMatchObject({ strategy: 'PERCENTAGE', lifeExpectancy: 100, depletionAge: null });
+    });
+
+    it('should reject a retirement age below the client age', async () => {
+      const response = await generate({ retirement: { retirementAge: 50, desiredIncome: 20000 } });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error).toBe('Idade de aposentadoria deve ser maior ou igual à idade atual do cliente');
+    });
+
+    it('should reject a life expectancy before the retirement age', async () => {
+      const response = await generate({ retirement: { retirementAge: 65, desiredIncome: 20000, lifeExpectancy: 60 } });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /simulations', () => {
+    it('should store the retirement plan with the client age', async () => {
+      (prisma.simulation.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: simulationId, ...data }));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/simulations',
+        headers: bearer(advisorToken),
+        payload: {
+          clientId,
+          name: 'Aposentadoria aos 60',
+          initialValue: 1000000,
+          interestRate: 0.05,
+          projectionYears: 20,
+          retirement: { retirementAge: 60, desiredIncome: 20000, strategy: 'GUARDRAILS' }
+        }
+      });
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      const retirement = { retirementAge: 60, desiredIncome: 20000, strategy: 'GUARDRAILS', currentAge: 55 };
+
+      expect(data.retirementConfig).toEqual(retirement);
+      expect(data.inputSnapshot.parameters.retirement).toEqual(retirement);
+      expect(data.projectionData[5].withdrawal).toBe(240000);
+    });
+  });
+
+  describe('GET /simulations/:id/metrics', () => {
+    it('should include the retirement analysis of the saved plan', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue({
+        id: simulationId,
+        clientId,
+        initialValue: new Decimal('1000000'),
+        interestRate: new Decimal('0.05'),
+        projectionYears: 20,
+        projectionData: [{ year: currentYear, projectedValue: 1200000 }],
+        monteCarloConfig: null,
+        inflationRate: null,
+        premiumFrequency: null,
+        taxConfig: null,
+        retirementConfig: { retirementAge: 60, desiredIncome: 20000, strategy: 'FIXED_REAL', currentAge: 55, lifeExpectancy: 90 },
+        inputSnapshot: null,
+        client
+      });
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/simulations/${simulationId}/metrics`, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.retirement).toMatchObject({ retirementAge: 60, retirementYear: currentYear + 5, lifeExpectancy: 90 });
+    });
+
+    it('should return a null analysis without a retirement plan', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue({
+        id: simulationId,
+        clientId,
+        initialValue: new Decimal('1000000'),
+        interestRate: new Decimal('0.05'),
+        projectionYears: 20,
+        projectionData: [{ year: currentYear, projectedValue: 1200000 }],
+        inputSnapshot: null,
+        client
+      });
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/simulations/${simulationId}/metrics`, headers: bearer(advisorToken) });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.retirement).toBeNull();
+    });
+  });
+});
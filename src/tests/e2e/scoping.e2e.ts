@@ -0,0 +1,173 @@
+import type { FastifyInstance } from 'fastify';
+import { prisma } from '../../models';
+
+describe('Client data scoping', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let adminToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const advisorScope = { organizationId: 'org-1', advisors: { some: { userId: 'advisor-1' } } };
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    adminToken = app.jwt.sign({ userId: 'admin-1', organizationId: 'org-1', sessionId: 'session-1', email: 'admin@wealthplanner.com', role: 'ADMIN', mfa: true });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+
+    for (const model of ['client', 'goal', 'wallet', 'event', 'simulation', 'insurance'] as const) {
+      (prisma[model].findMany as jest.Mock).mockResolvedValue([]);
+      (prisma[model].count as jest.Mock).mockResolvedValue(0);
+      (prisma[model].findFirst as jest.Mock).mockResolvedValue(null);
+    }
+  });
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  it('should restrict client listing to the advisor book', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/clients', headers: bearer(advisorToken) });
+
+    expect(response.statusCode).toBe(200);
+    expect(prisma.client.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining(advisorScope) })
+    );
+  });
+
+  it('should restrict admins to their organization only', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/clients', headers: bearer(adminToken) });
+
+    expect(response.statusCode).toBe(200);
+    expect(prisma.client.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { organizationId: 'org-1' } }));
+  });
+
+  it('should reject tokens without an organization', async () => {
+    const legacyToken = app.jwt.sign({ userId: 'advisor-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+
+    const response = await app.inject({ method: 'GET', url: '/api/v1/clients', headers: bearer(legacyToken) });
+
+    expect(response.statusCode).toBe(401);
+    expect(prisma.client.findMany).not.toHaveBeenCalled();
+  });
+
+  it.each(['goals', 'wallets', 'events', 'simulations', 'insurances'])(
+    'should scope /%s through the owning client',
+    async resource => {
+      const model = resource.slice(0, -1) as 'goal' | 'wallet' | 'event' | 'simulation' | 'insurance';
+
+      const listResponse = await app.inject({ method: 'GET', url: `/api/v1/${resource}`, headers: bearer(advisorToken) });
+      const getResponse = await app.inject({ method: 'GET', url: `/api/v1/${resource}/some-id`, headers: bearer(advisorToken) });
+
+      expect(listResponse.statusCode).toBe(200);
+      expect(prisma[model].findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ client: advisorScope }) })
+      );
+      expect(getResponse.statusCode).toBe(404);
+      expect(prisma[model].findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'some-id', client: advisorScope } })
+      );
+    }
+  );
+
+  it('should hide clients outside the advisor book', async () => {
+    const response = await app.inject({ method: 'GET', url: `/api/v1/clients/${clientId}`, headers: bearer(advisorToken) });
+
+    expect(response.statusCode).toBe(404);
+    expect(prisma.client.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: clientId, ...advisorScope } })
+    );
+  });
+
+  it('should assign the creating advisor and organization to a new client', async () => {
+    (prisma.client.create as jest.Mock).mockResolvedValue({ id: clientId });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/clients',
+      headers: bearer(advisorToken),
+      payload: { name: 'Família Souza', email: 'souza@email.com', age: 50, familyProfile: 'MODERATE' }
+    });
+
+    expect(response.statusCode).toBe(201);
+    expect(prisma.client.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          organizationId: 'org-1',
+          advisors: { create: { userId: 'advisor-1' } }
+        })
+      })
+    );
+  });
+
+  it('should only check email uniqueness within the organization', async () => {
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/clients',
+      headers: bearer(advisorToken),
+      payload: { name: 'Família Souza', email: 'souza@email.com', age: 50, familyProfile: 'MODERATE' }
+    });
+
+    expect(response.statusCode).toBe(409);
+    expect(prisma.client.findFirst).toHaveBeenCalledWith({ where: { email: 'souza@email.com', organizationId: 'org-1' } });
+  });
+
+  describe('PUT /clients/:id/advisors', () => {
+    const url = `/api/v1/clients/${clientId}/advisors`;
+    const advisorIds = ['cm1111111111111111111111'];
+
+    it('should return 403 for advisors', async () => {
+      const response = await app.inject({ method: 'PUT', url, headers: bearer(advisorToken), payload: { advisorIds } });
+
+      expect(response.statusCode).toBe(403);
+      expect(response.json()).toEqual({ success: false, error: 'Permissão insuficiente' });
+    });
+
+    it('should return 404 when the client belongs to another organization', async () => {
+      const response = await app.inject({ method: 'PUT', url, headers: bearer(adminToken), payload: { advisorIds } });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.client.findFirst).toHaveBeenCalledWith({ where: { id: clientId, organizationId: 'org-1' } });
+    });
+
+    it('should return 400 when an advisor does not exist', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId });
+      (prisma.user.findMany as jest.Mock).mockResolvedValue([]);
+
+      const response = await app.inject({ method: 'PUT', url, headers: bearer(adminToken), payload: { advisorIds } });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.user.findMany).toHaveBeenCalledWith({
+        where: { id: { in: advisorIds }, organizationId: 'org-1' },
+        select: { id: true }
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should replace the client advisors for admins', async () => {
+      const assignment = { clientId, userId: advisorIds[0], assignedAt: new Date().toISOString() };
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId });
+      (prisma.user.findMany as jest.Mock).mockResolvedValue([{ id: advisorIds[0] }]);
+      (prisma.$transaction as jest.Mock).mockResolvedValue([{ count: 1 }, { count: 1 }, [assignment]]);
+
+      const response = await app.inject({ method: 'PUT', url, headers: bearer(adminToken), payload: { advisorIds } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data).toEqual([assignment]);
+      expect(prisma.clientAdvisor.deleteMany).toHaveBeenCalledWith({ where: { clientId } });
+      expect(prisma.clientAdvisor.createMany).toHaveBeenCalledWith({
+        data: [{ clientId, userId: advisorIds[0] }]
+      });
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../models';
+import { ENGINE_VERSION } from '../../services/WealthProjectionService';
+
+describe('Simulation snapshots', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+  let viewerToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const simulationId = 'cm0000000000000000000001';
+  const advisorScope = { organizationId: 'org-1', advisors: { some: { userId: 'advisor-1' } } };
+  const currentYear = new Date().getFullYear();
+
+  const salary = {
+    id: 'event-salary',
+    clientId,
+    type: 'INCOME',
+    description: 'Salário',
+    value: new Decimal('10000'),
+    frequency: 'MONTHLY',
+    inflationIndexed: false,
+    startDate: new Date(`${currentYear}-01-01T00:00:00Z`),
+    endDate: null
+  };
+
+  const rent = {
+    id: 'event-rent',
+    clientId,
+    type: 'EXPENSE',
+    description: 'Aluguel',
+    value: new Decimal('4000'),
+    frequency: 'MONTHLY',
+    inflationIndexed: false,
+    startDate: new Date(`${currentYear}-01-01T00:00:00Z`),
+    endDate: null
+  };
+
+  const snapshotEvent = ({ clientId: _clientId, ...event }: typeof salary) => ({
+    ...event,
+    value: Number(event.value),
+    startDate: event.startDate.toISOString()
+  });
+
+  const savedSimulation = (overrides: object = {}) => ({
+    id: simulationId,
+    clientId,
+    name: 'Plano base',
+    initialValue: new Decimal('100000'),
+    interestRate: new Decimal('0.04'),
+    projectionYears: 5,
+    projectionData: Array.from({ length: 6 }, (_, index) => ({ year: currentYear + index, projectedValue: 100000 + index * 50000 })),
+    monteCarloConfig: null,
+    inflationRate: null,
+    premiumFrequency: null,
+    inputSnapshot: {
+      capturedAt: '2025-01-01T00:00:00.000Z',
+      parameters: {
+        initialValue: 100000,
+        interestRate: 0.04,
+        projectionYears: 5,
+        inflationRate: null,
+        premiumFrequency: null,
+        lifeEvent: null,
+        monteCarlo: null
+      },
+      events: [salary, rent].map(snapshotEvent),
+      insurances: []
+    },
+    engineVersion: ENGINE_VERSION,
+    version: 1,
+    parentId: null,
+    client: { id: clientId, events: [salary, rent], insurances: [] },
+    ...overrides
+  });
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const recompute = (token = advisorToken) => app.inject({
+    method: 'POST',
+    url: `/api/v1/simulations/${simulationId}/recompute`,
+    headers: bearer(token)
+  });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+    viewerToken = app.jwt.sign({ userId: 'viewer-1', organizationId: 'org-1', sessionId: 'session-2', email: 'viewer@wealthplanner.com', role: 'VIEWER' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.simulation.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'simulation-new', ...data }));
+  });
+
+  describe('POST /simulations', () => {
+    it('should store the input snapshot and engine version', async () => {
+      (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId, events: [salary], insurances: [] });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/simulations',
+        headers: bearer(advisorToken),
+        payload: { clientId, name: 'Plano base', initialValue: 100000, interestRate: 0.04, projectionYears: 5 }
+      });
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      expect(data.engineVersion).toBe(ENGINE_VERSION);
+      expect(data.inputSnapshot.parameters).toMatchObject({ initialValue: 100000, interestRate: 0.04, projectionYears: 5, monteCarlo: null });
+      expect(data.inputSnapshot.events).toEqual([expect.objectContaining({ id: 'event-salary', value: 10000, endDate: null })]);
+    });
+  });
+
+  describe('PUT /simulations/:id', () => {
+    const update = (payload: object) => app.inject({
+      method: 'PUT',
+      url: `/api/v1/simulations/${simulationId}`,
+      headers: bearer(advisorToken),
+      payload
+    });
+
+    const configuredSimulation = () => savedSimulation({
+      inflationRate: 0.045,
+      monteCarloConfig: { expectedReturn: 0.05, volatility: 0.1, seed: 7, simulations: 200 },
+      client: { id: clientId, age: 40, events: [salary, rent], insurances: [], wallets: [] }
+    });
+
+    beforeEach(() => {
+      (prisma.simulation.update as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: simulationId, ...data }));
+    });
+
+    it('should return to a deterministic projection when monteCarlo is null', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(configuredSimulation());
+
+      const response = await update({ monteCarlo: null });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = (prisma.simulation.update as jest.Mock).mock.calls[0][0];
+      expect(data.monteCarloConfig).toBe(Prisma.DbNull);
+      expect(data.inputSnapshot.parameters.monteCarlo).toBeNull();
+      expect(data.projectionData[0]).not.toHaveProperty('p50');
+    });
+
+    it('should return to a nominal projection when inflationRate is null', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(configuredSimulation());
+
+      const response = await update({ inflationRate: null });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = (prisma.simulation.update as jest.Mock).mock.calls[0][0];
+      expect(data.inflationRate).toBe(Prisma.DbNull);
+      expect(data.inputSnapshot.parameters.inflationRate).toBeNull();
+      expect(data.projectionData[0]).not.toHaveProperty('realValue');
+    });
+
+    it('should keep the saved configuration when the fields are omitted', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(configuredSimulation());
+
+      const response = await update({ projectionYears: 6 });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = (prisma.simulation.update as jest.Mock).mock.calls[0][0];
+      expect(data).not.toHaveProperty('inflationRate');
+      expect(data.monteCarloConfig).toMatchObject({ volatility: 0.1, seed: 7 });
+      expect(data.inputSnapshot.parameters.inflationRate).toBe(0.045);
+    });
+
+    it('should accept a zero interest rate', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(savedSimulation({
+        client: { id: clientId, age: 40, events: [], insurances: [], wallets: [] }
+      }));
+
+      const response = await update({ interestRate: 0 });
+
+      expect(response.statusCode).toBe(200);
+      const { data } = (prisma.simulation.update as jest.Mock).mock.calls[0][0];
+      expect(data.interestRate).toBe('0');
+      expect(data.inputSnapshot.parameters.interestRate).toBe(0);
+      expect(data.projectionData.map((point: { projectedValue: number }) => point.projectedValue)).toEqual(Array(6).fill(100000));
+    });
+  });
+
+  describe('POST /simulations/:id/recompute', () => {
+    it('should save a new version with the current events and report what changed', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(savedSimulation({
+        client: {
+          id: clientId,
+          events: [{ ...salary, value: new Decimal('12000') }, { ...rent, id: 'event-car', description: 'Financiamento' }],
+          insurances: []
+        }
+      }));
+
+      const response = await recompute();
+
+      expect(response.statusCode).toBe(201);
+      const { data } = response.json();
+
+      expect(data.simulation).toMatchObject({ id: 'simulation-new', version: 2, parentId: simulationId, engineVersion: ENGINE_VERSION });
+      expect(data.changes.engineVersion).toBeNull();
+      expect(data.changes.events.added.map((event: { id: string }) => event.id)).toEqual(['event-car']);
+      expect(data.changes.events.removed.map((event: { id: string }) => event.id)).toEqual(['event-rent']);
+      expect(data.changes.events.changed).toEqual([{
+        id: 'event-salary',
+        description: 'Salário',
+        changes: [{ field: 'value', previous: 10000, current: 12000 }]
+      }]);
+      expect(data.years).toHaveLength(6);
+      expect(data.deltas).toHaveLength(6);
+      expect(data.metrics.previous.finalValue).toBe(350000);
+      expect(data.metrics.delta.finalValue).toBeCloseTo(data.metrics.current.finalValue - 350000, 2);
+
+      expect(prisma.simulation.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: simulationId, client: advisorScope }
+      }));
+      expect(prisma.simulation.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep the original Monte Carlo seed', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(savedSimulation({
+        inputSnapshot: {
+          ...savedSimulation().inputSnapshot,
+          parameters: {
+            ...savedSimulation().inputSnapshot.parameters,
+            monteCarlo: { expectedReturn: 0.05, volatility: 0.1, seed: 7, simulations: 200 }
+          }
+        }
+      }));
+
+      const response = await recompute();
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      expect(data.monteCarloConfig).toMatchObject({ expectedReturn: 0.05, seed: 7, simulations: 200 });
+      expect(data.inputSnapshot.parameters.monteCarlo).toEqual({ expectedReturn: 0.05, volatility: 0.1, seed: 7, simulations: 200 });
+    });
+
+    it('should recompute simulations saved before snapshots without an input diff', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(savedSimulation({ inputSnapshot: null, engineVersion: null }));
+
+      const response = await recompute();
+
+      expect(response.statusCode).toBe(201);
+      expect(response.json().data.changes).toBeNull();
+      expect((prisma.simulation.create as jest.Mock).mock.calls[0][0].data).toMatchObject({ initialValue: '100000', interestRate: '0.04', projectionYears: 5 });
+    });
+
+    it('should take the current client age for the retirement plan', async () => {
+      const retirement = { currentAge: 40, retirementAge: 60, desiredIncome: 5000, strategy: 'FIXED_REAL' };
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(savedSimulation({
+        inputSnapshot: {
+          ...savedSimulation().inputSnapshot,
+          parameters: { ...savedSimulation().inputSnapshot.parameters, retirement }
+        },
+        client: { id: clientId, age: 42, events: [salary, rent], insurances: [] }
+      }));
+
+      const response = await recompute();
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      expect(data.retirementConfig).toEqual({ ...retirement, currentAge: 42 });
+      expect(data.inputSnapshot.parameters.retirement.currentAge).toBe(42);
+    });
+
+    it('should require write access', async () => {
+      const response = await recompute(viewerToken);
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.simulation.create).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for simulations outside the advisor book', async () => {
+      (prisma.simulation.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await recompute();
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import type { FastifyInstance } from 'fastify';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+
+describe('Income tax in projections', () => {
+  let app: FastifyInstance;
+  let advisorToken: string;
+
+  const clientId = 'cm0000000000000000000000';
+  const simulationId = 'cm0000000000000000000001';
+  const currentYear = new Date().getFullYear();
+
+  const withdrawal = {
+    id: 'event-withdrawal',
+    clientId,
+    type: 'WITHDRAWAL',
+    description: 'Reforma',
+    value: new Decimal('30000'),
+    frequency: 'ONCE',
+    inflationIndexed: false,
+    startDate: new Date(`${currentYear + 2}-03-01T00:00:00Z`),
+    endDate: null
+  };
+
+  const wallets = [
+    { id: 'wallet-1', clientId, assetClass: 'Renda Fixa', currentValue: new Decimal('75000') },
+    { id: 'wallet-2', clientId, assetClass: 'LCA', currentValue: new Decimal('25000') }
+  ];
+
+  const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+  const generate = (body: object) => app.inject({
+    method: 'POST',
+    url: '/api/v1/projections/generate',
+    headers: bearer(advisorToken),
+    payload: { clientId, initialValue: 100000, interestRate: 0.1, projectionYears: 5, ...body }
+  });
+
+  beforeAll(async () => {
+    process.env.LOG_LEVEL = 'silent';
+    app = (await import('../../server')).default;
+    await app.ready();
+
+    advisorToken = app.jwt.sign({ userId: 'advisor-1', organizationId: 'org-1', sessionId: 'session-1', email: 'advisor@wealthplanner.com', role: 'ADVISOR' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    (prisma.session.findUnique as jest.Mock).mockResolvedValue({ revokedAt: null, expiresAt: new Date(Date.now() + 60_000) });
+    (prisma.client.findFirst as jest.Mock).mockResolvedValue({ id: clientId, events: [withdrawal], insurances: [], wallets });
+  });
+
+  describe('POST /projections/generate', () => {
+    it('should return pre-tax and after-tax curves side by side', async () => {
+      const response = await generate({ tax: { allocations: [{ regime: 'REGRESSIVE', weight: 1 }] }, inflationRate: 0.04 });
+
+      expect(response.statusCode).toBe(200);
+      const { projectionData, parameters } = response.json().data;
+
+      expect(parameters.tax).toEqual({ allocations: [{ regime: 'REGRESSIVE', weight: 1 }] });
+      projectionData.forEach((point: { projectedValue: number; afterTaxValue: number; afterTaxRealValue: number }) => {
+        expect(point.afterTaxValue).toBeLessThan(point.projectedValue);
+        expect(point.afterTaxRealValue).toBeLessThan(point.afterTaxValue);
+      });
+    });
+
+    it('should estimate the regimes from the client wallets when allocations are omitted', async () => {
+      const response = await generate({ tax: { initialHoldingMonths: 36 } });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.parameters.tax).toEqual({
+        allocations: [{ regime: 'REGRESSIVE', weight: 0.75 }, { regime: 'EXEMPT', weight: 0.25 }],
+        initialHoldingMonths: 36
+      });
+    });
+
+    it('should leave the after-tax curve out when tax is not requested', async () => {
+      const response = await generate({});
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().data.parameters.tax).toBeNull();
+      expect(response.json().data.projectionData[0].afterTaxValue).toBeUndefined();
+    });
+
+    it('should reject unknown tax regimes', async () => {
+      const response = await generate({ tax: { allocations: [{ regime: 'OFFSHORE', weight: 1 }] } });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /simulations', () => {
+    it('should store the resolved tax configuration with the simulation', async () => {
+      (prisma.simulation.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: simulationId, ...data }));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/simulations',
+        headers: bearer(advisorToken),
+        payload: { clientId, name: 'Plano com IR', initialValue: 100000, interestRate: 0.1, projectionYears: 5, tax: {} }
+      });
+
+      expect(response.statusCode).toBe(201);
+      const { data } = (prisma.simulation.create as jest.Mock).mock.calls[0][0];
+      const tax = { allocations: [{ regime: 'REGRESSIVE', weight: 0.75 }, { regime: 'EXEMPT', weight: 0.25 }] };
+
+      expect(data.taxConfig).toEqual(tax);
+      expect(data.inputSnapshot.parameters.tax).toEqual(tax);
+      expect(data.projectionData[5].afterTaxValue).toBeLessThan(data.projectionData[5].projectedValue);
+    });
+  });
+});
@@ -1,8 +1,13 @@
 jest.mock('@prisma/client', () => ({
+  Prisma: {
+    DbNull: 'DbNull',
+    JsonNull: 'JsonNull'
+  },
   PrismaClient: jest.fn().mockImplementation(() => ({
     client: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -11,6 +16,7 @@ jest.mock('@prisma/client', () => ({
     goal: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -19,6 +25,7 @@ jest.mock('@prisma/client', () => ({
     wallet: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -27,6 +34,7 @@ jest.mock('@prisma/client', () => ({
     event: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -35,6 +43,7 @@ jest.mock('@prisma/client', () => ({
     simulation: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -43,6 +52,7 @@ jest.mock('@prisma/client', () => ({
     insurance: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -51,11 +61,53 @@ jest.mock('@prisma/client', () => ({
     user: {
       findMany: jest.fn(),
       findUnique: jest.fn(),
+      findFirst: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
+      updateMany: jest.fn(),
       delete: jest.fn(),
       count: jest.fn()
     },
+    session: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    passwordResetToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn()
+    },
+    outboxEmail: {
+      create: jest.fn()
+    },
+    organization: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    clientAdvisor: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn()
+    },
+    auditLog: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn()
+    },
+    capitalMarketAssumptionSet: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn()
+    },
+    // Transações interativas recebem o próprio mock como cliente da transação
+    $transaction: jest.fn(function (this: unknown, operations: unknown) {
+      return typeof operations === 'function' ? operations(this) : Promise.all(operations as unknown[]);
+    }),
     $connect: jest.fn(),
     $disconnect: jest.fn(),
     $queryRaw: jest.fn()
@@ -0,0 +1,73 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../../models';
+import { AuditService } from '../../services/AuditService';
+
+describe('AuditService', () => {
+  describe('diff', () => {
+    it('should list every field as added on create', () => {
+      const changes = AuditService.diff(null, { id: 'w1', assetClass: 'Ações', percentage: new Decimal('12.5') });
+
+      expect(changes).toEqual({
+        assetClass: { before: null, after: 'Ações' },
+        percentage: { before: null, after: '12.5' }
+      });
+    });
+
+    it('should only keep changed fields on update', () => {
+      const before = { id: 'e1', value: new Decimal('1000'), description: 'Salário', updatedAt: new Date('2024-01-01') };
+      const after = { id: 'e1', value: new Decimal('1500'), description: 'Salário', updatedAt: new Date('2024-02-01') };
+
+      expect(AuditService.diff(before, after)).toEqual({
+        value: { before: '1000', after: '1500' }
+      });
+    });
+
+    it('should compare dates by value', () => {
+      const before = { targetDate: new Date('2030-01-01T00:00:00Z') };
+
+      expect(AuditService.diff(before, { targetDate: new Date('2030-01-01T00:00:00Z') })).toEqual({});
+      expect(AuditService.diff(before, { targetDate: new Date('2035-01-01T00:00:00Z') })).toEqual({
+        targetDate: { before: '2030-01-01T00:00:00.000Z', after: '2035-01-01T00:00:00.000Z' }
+      });
+    });
+
+    it('should ignore included relations', () => {
+      const changes = AuditService.diff(null, { name: 'Família Silva', client: { id: 'c1' }, goals: [] });
+
+      expect(changes).toEqual({ name: { before: null, after: 'Família Silva' } });
+    });
+
+    it('should keep the removed values on delete', () => {
+      const changes = AuditService.diff({ id: 'e1', description: null, inflationIndexed: true }, null);
+
+      expect(changes).toEqual({ inflationIndexed: { before: true, after: null } });
+    });
+  });
+
+  describe('record', () => {
+    it('should store the actor and the changed fields', async () => {
+      const actor = { userId: 'advisor-1', organizationId: 'org-1', email: 'advisor@wealthplanner.com' };
+
+      await AuditService.record(prisma, actor, {
+        entity: 'GOAL',
+        entityId: 'g1',
+        clientId: 'c1',
+        action: 'DELETE',
+        before: { id: 'g1', description: 'Aposentadoria' }
+      });
+
+      expect(prisma.auditLog.create).toHaveBeenCalledWith({
+        data: {
+          organizationId: 'org-1',
+          clientId: 'c1',
+          entity: 'GOAL',
+          entityId: 'g1',
+          action: 'DELETE',
+          actorId: 'advisor-1',
+          actorEmail: 'advisor@wealthplanner.com',
+          changes: { description: { before: 'Aposentadoria', after: null } }
+        }
+      });
+    });
+  });
+});
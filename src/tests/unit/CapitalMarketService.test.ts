@@ -0,0 +1,125 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { CapitalMarketService } from '../../services/CapitalMarketService';
+import { AssetAllocation } from '../../types';
+
+const wallet = (assetClass: string, percentage: number, currentValue: number) => ({
+  assetClass,
+  percentage: new Decimal(percentage),
+  currentValue: new Decimal(currentValue)
+});
+
+const allocation = (overrides: Partial<AssetAllocation>): AssetAllocation => ({
+  assetClass: 'Renda Fixa',
+  expectedReturn: 0.1,
+  volatility: 0.03,
+  weight: 0.5,
+  targetWeight: 0.5,
+  ...overrides
+});
+
+describe('CapitalMarketService', () => {
+  describe('assumptionFor', () => {
+    it('should match asset classes regardless of accents and case', () => {
+      expect(CapitalMarketService.assumptionFor('acoes')).toMatchObject({ assetClass: 'Ações', expectedReturn: 0.14 });
+      expect(CapitalMarketService.assumptionFor(' FUNDOS IMOBILIÁRIOS ')).toMatchObject({ assetClass: 'Fundos Imobiliários' });
+      expect(CapitalMarketService.assumptionFor('Tesouro Direto')).toBeUndefined();
+    });
+
+    it('should prefer the informed assumptions over the default table', () => {
+      const assumptions = [{ assetClass: 'Ações', expectedReturn: 0.18, volatility: 0.3 }];
+
+      expect(CapitalMarketService.assumptionFor('Ações', assumptions)).toEqual(assumptions[0]);
+    });
+  });
+
+  describe('unknownAssetClasses', () => {
+    it('should list the asset classes without assumptions', () => {
+      const wallets = [wallet('Renda Fixa', 50, 0), wallet('Tesouro Direto', 30, 0), wallet('Private Equity', 20, 0)];
+
+      expect(CapitalMarketService.unknownAssetClasses(wallets)).toEqual(['Tesouro Direto', 'Private Equity']);
+      expect(CapitalMarketService.unknownAssetClasses(wallets, [
+        { assetClass: 'Tesouro Direto', expectedReturn: 0.1, volatility: 0.04 },
+        { assetClass: 'Private Equity', expectedReturn: 0.18, volatility: 0.35 }
+      ])).toEqual([]);
+    });
+  });
+
+  describe('allocationsFromWallets', () => {
+    it('should weight the current allocation by value and the target by the planned percentage', () => {
+      const allocations = CapitalMarketService.allocationsFromWallets([
+        wallet('Renda Fixa', 60, 80000),
+        wallet('Ações', 40, 20000)
+      ]);
+
+      expect(allocations).toEqual([
+        { assetClass: 'Renda Fixa', expectedReturn: 0.1, volatility: 0.03, weight: 0.8, targetWeight: 0.6 },
+        { assetClass: 'Ações', expectedReturn: 0.14, volatility: 0.25, weight: 0.2, targetWeight: 0.4 }
+      ]);
+    });
+
+    it('should fall back to the planned percentage when nothing is invested yet', () => {
+      const allocations = CapitalMarketService.allocationsFromWallets([wallet('Renda Fixa', 75, 0), wallet('Ações', 25, 0)]);
+
+      expect(allocations.map(({ weight, targetWeight }) => ({ weight, targetWeight }))).toEqual([
+        { weight: 0.75, targetWeight: 0.75 },
+        { weight: 0.25, targetWeight: 0.25 }
+      ]);
+    });
+  });
+
+  describe('expectedReturn and volatility', () => {
+    it('should blend the assumptions by the target weights', () => {
+      const allocations = [
+        allocation({ targetWeight: 0.6 }),
+        allocation({ assetClass: 'Ações', expectedReturn: 0.14, volatility: 0.25, targetWeight: 0.4 })
+      ];
+
+      expect(CapitalMarketService.expectedReturn(allocations)).toBe(0.116);
+      expect(CapitalMarketService.volatility(allocations)).toBeCloseTo(Math.sqrt(0.018 ** 2 + 0.1 ** 2), 4);
+    });
+
+    it('should account for the correlations between asset classes', () => {
+      const allocations = [
+        allocation({ targetWeight: 0.6 }),
+        allocation({ assetClass: 'Ações', expectedReturn: 0.14, volatility: 0.25, targetWeight: 0.4 })
+      ];
+      const correlations = [{ assetClasses: ['acoes', 'Renda Fixa'] as [string, string], correlation: 0.5 }];
+
+      expect(CapitalMarketService.volatility(allocations, correlations))
+        .toBeCloseTo(Math.sqrt(0.018 ** 2 + 0.1 ** 2 + 2 * 0.5 * 0.018 * 0.1), 4);
+    });
+  });
+
+  describe('validationError', () => {
+    const assetClasses = [
+      { assetClass: 'Renda Fixa', expectedReturn: 0.1, volatility: 0.03 },
+      { assetClass: 'Ações', expectedReturn: 0.15, volatility: 0.22 }
+    ];
+    const pair = (a: string, b: string, correlation: number) => ({ assetClasses: [a, b] as [string, string], correlation });
+
+    it('should accept correlations between informed and default asset classes', () => {
+      expect(CapitalMarketService.validationError(assetClasses, [pair('Renda Fixa', 'Ações', 0.2), pair('Ações', 'Internacional', 0.6)])).toBeUndefined();
+    });
+
+    it('should reject duplicated asset classes and correlations', () => {
+      expect(CapitalMarketService.validationError([...assetClasses, { assetClass: 'acoes', expectedReturn: 0.1, volatility: 0.2 }], []))
+        .toBe('Classe de ativo duplicada: acoes');
+      expect(CapitalMarketService.validationError(assetClasses, [pair('Renda Fixa', 'Ações', 0.2), pair('Ações', 'Renda Fixa', 0.3)]))
+        .toBe('Correlação duplicada: Ações e Renda Fixa');
+    });
+
+    it('should reject correlations with unknown or the same asset class', () => {
+      expect(CapitalMarketService.validationError(assetClasses, [pair('Ações', 'Private Equity', 0.5)]))
+        .toBe('Correlação com classe de ativo não cadastrada: Private Equity');
+      expect(CapitalMarketService.validationError(assetClasses, [pair('Ações', 'ações', 0.5)]))
+        .toBe('Correlação de uma classe de ativo com ela mesma: Ações');
+    });
+
+    it('should reject correlations that cannot hold together', () => {
+      // A e B, A e C quase idênticos não permitem B e C opostos
+      const correlations = [pair('Renda Fixa', 'Ações', 0.9), pair('Renda Fixa', 'Internacional', 0.9), pair('Ações', 'Internacional', -0.9)];
+
+      expect(CapitalMarketService.validationError(assetClasses, correlations)).toBe('Correlações inconsistentes entre as classes de ativo');
+    });
+  });
+});
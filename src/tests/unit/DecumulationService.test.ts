@@ -0,0 +1,179 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { DecumulationService } from '../../services/DecumulationService';
+import { WealthProjectionService } from '../../services/WealthProjectionService';
+import { Event, RetirementPlan } from '../../types';
+
+const currentYear = new Date().getFullYear();
+
+const salary: Event = {
+  id: 'salary',
+  clientId: 'client-1',
+  type: 'INCOME',
+  description: 'Salário',
+  value: new Decimal(20000),
+  frequency: 'MONTHLY',
+  inflationIndexed: false,
+  startDate: new Date(currentYear, 0, 1),
+  endDate: null,
+  interestRate: null,
+  termMonths: null,
+  amortizationSystem: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  client: null as any
+};
+
+const plan = (overrides: Partial<RetirementPlan> = {}): RetirementPlan => ({
+  currentAge: 60,
+  retirementAge: 62,
+  desiredIncome: 5000,
+  strategy: 'FIXED_REAL',
+  lifeExpectancy: 90,
+  ...overrides
+});
+
+describe('WealthProjectionService retirement phase', () => {
+  it('should stop income at retirement and withdraw the desired income', () => {
+    const result = WealthProjectionService.simulateWealthCurve({
+      initialValue: 1000000,
+      interestRate: 0,
+      events: [salary],
+      projectionYears: 4,
+      retirement: plan()
+    });
+
+    expect(result[1].projectedValue).toBe(1000000 + 24 * 20000);
+    expect(result[1].withdrawal).toBe(0);
+    expect(result[2].withdrawal).toBe(60000);
+    expect(result[2].projectedValue).toBe(result[1].projectedValue - 60000);
+  });
+
+  it('should index fixed real withdrawals by inflation', () => {
+    const result = WealthProjectionService.simulateWealthCurve({
+      initialValue: 1000000,
+      interestRate: 0,
+      events: [],
+      projectionYears: 1,
+      inflationRate: 0.1,
+      retirement: plan({ retirementAge: 60 })
+    });
+
+    expect(result[0].withdrawal!).toBeGreaterThan(60000);
+    expect(result[1].withdrawal! / result[0].withdrawal!).toBeCloseTo(1.1, 2);
+  });
+
+  it('should withdraw a percentage of the portfolio each year', () => {
+    const result = WealthProjectionService.simulateWealthCurve({
+      initialValue: 1000000,
+      interestRate: 0,
+      events: [],
+      projectionYears: 1,
+      retirement: plan({ retirementAge: 60, strategy: 'PERCENTAGE', withdrawalRate: 0.05 })
+    });
+
+    expect(result[0].withdrawal).toBe(50000);
+    expect(result[1].withdrawal).toBe(47500);
+  });
+
+  it('should cut withdrawals when the guardrail is breached', () => {
+    const params = {
+      initialValue: 1000000,
+      interestRate: 0,
+      events: [],
+      projectionYears: 3,
+      retirement: plan({ retirementAge: 60, desiredIncome: 20000, strategy: 'GUARDRAILS' as const })
+    };
+
+    const fixed = WealthProjectionService.simulateWealthCurve({ ...params, retirement: { ...params.retirement, strategy: 'FIXED_REAL' } });
+    const guarded = WealthProjectionService.simulateWealthCurve(params);
+
+    // Taxa inicial de 24%; no segundo ano 240 mil sobre 760 mil (31,6%) supera a faixa de +20%
+    expect(guarded[0].withdrawal).toBe(240000);
+    expect(guarded[1].withdrawal).toBe(216000);
+    expect(guarded[3].projectedValue).toBeGreaterThan(fixed[3].projectedValue);
+  });
+});
+
+describe('DecumulationService', () => {
+  describe('analyze', () => {
+    it('should report the portfolio at retirement and when it runs out', () => {
+      const analysis = DecumulationService.analyze({
+        initialValue: 600000,
+        interestRate: 0,
+        events: [],
+        projectionYears: 10,
+        retirement: plan({ retirementAge: 60, desiredIncome: 5000 })
+      });
+
+      expect(analysis).toMatchObject({
+        strategy: 'FIXED_REAL',
+        retirementYear: currentYear,
+        lifeExpectancy: 90,
+        portfolioAtRetirement: 600000,
+        initialMonthlyWithdrawal: 5000,
+        depletionAge: 69,
+        depletionYear: currentYear + 9
+      });
+    });
+
+    it('should not report depletion when the portfolio lasts', () => {
+      const analysis = DecumulationService.analyze({
+        initialValue: 600000,
+        interestRate: 0,
+        events: [],
+        projectionYears: 10,
+        retirement: plan({ retirementAge: 60, desiredIncome: 1000 })
+      });
+
+      expect(analysis.depletionAge).toBeNull();
+      expect(analysis.depletionYear).toBeNull();
+    });
+
+    it('should default the life expectancy to 100 years', () => {
+      const analysis = DecumulationService.analyze({
+        initialValue: 100000,
+        interestRate: 0.05,
+        events: [],
+        projectionYears: 10,
+        retirement: plan({ lifeExpectancy: undefined })
+      });
+
+      expect(analysis.lifeExpectancy).toBe(100);
+    });
+  });
+
+  describe('sustainableWithdrawal', () => {
+    it('should spread the portfolio over the retirement years without returns', () => {
+      // 31 anos (dos 60 aos 90, inclusive) pagos por 372 mil: 1.000 por mês
+      const income = DecumulationService.sustainableWithdrawal({
+        initialValue: 372000,
+        interestRate: 0,
+        events: [],
+        projectionYears: 30,
+        retirement: plan({ retirementAge: 60 })
+      });
+
+      expect(income).toBeCloseTo(1000, 0);
+      expect(income).toBeLessThan(1000);
+    });
+
+    it('should increase with the rate of return', () => {
+      const params = { initialValue: 360000, events: [], projectionYears: 30, retirement: plan({ retirementAge: 60 }) };
+
+      expect(DecumulationService.sustainableWithdrawal({ ...params, interestRate: 0.05 }))
+        .toBeGreaterThan(DecumulationService.sustainableWithdrawal({ ...params, interestRate: 0 }));
+    });
+
+    it('should be zero when expenses alone deplete the portfolio', () => {
+      const income = DecumulationService.sustainableWithdrawal({
+        initialValue: 10000,
+        interestRate: 0,
+        events: [{ ...salary, type: 'EXPENSE', value: new Decimal(5000) }],
+        projectionYears: 10,
+        retirement: plan()
+      });
+
+      expect(income).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { inflateRawSync } from 'zlib';
+import { Decimal } from '@prisma/client/runtime/library';
+import type { Event, Wallet } from '@prisma/client';
+import { ExportService, exportQuerySchema } from '../../services/ExportService';
+import { buildXlsx, toExcelSerial } from '../../utils/xlsx';
+
+// Lê as entradas do ZIP pelo diretório central
+function unzip(buffer: Buffer): Record<string, string> {
+  const end = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < count; i++) {
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    files[name] = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+const wallet = (assetClass: string, percentage: string, currentValue: string): Wallet => ({
+  id: `wallet-${assetClass}`,
+  clientId: 'client-1',
+  assetClass,
+  percentage: new Decimal(percentage),
+  currentValue: new Decimal(currentValue),
+  totalPatrimony: new Decimal('200000'),
+  alignmentPercent: new Decimal('80'),
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+const event = (overrides: Partial<Event>): Event => ({
+  id: 'event-1',
+  clientId: 'client-1',
+  type: 'INCOME',
+  description: 'Salário',
+  value: new Decimal('15000'),
+  frequency: 'MONTHLY',
+  inflationIndexed: true,
+  startDate: new Date('2025-01-01T00:00:00.000Z'),
+  endDate: null,
+  interestRate: null,
+  termMonths: null,
+  amortizationSystem: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('ExportService', () => {
+  describe('exportQuerySchema', () => {
+    it('should default to CSV in pt-BR', () => {
+      expect(exportQuerySchema.parse({})).toEqual({ format: 'csv', locale: 'pt-BR' });
+    });
+
+    it('should reject unknown locales and formats', () => {
+      expect(exportQuerySchema.safeParse({ locale: 'xx-invalid-locale' }).success).toBe(false);
+      expect(exportQuerySchema.safeParse({ format: 'pdf' }).success).toBe(false);
+    });
+  });
+
+  describe('simulationCurve', () => {
+    it('should only include the columns present in the projection', () => {
+      const table = ExportService.simulationCurve([
+        { year: 2025, projectedValue: 100000, realValue: 96000 },
+        { year: 2026, projectedValue: 110000, realValue: 101000 }
+      ]);
+
+      expect(table.columns.map(column => column.header)).toEqual(['Ano', 'Valor projetado', 'Valor real']);
+      expect(table.rows).toEqual([[2025, 100000, 96000], [2026, 110000, 101000]]);
+    });
+
+    it('should include Monte Carlo bands and the probability as percentage', () => {
+      const table = ExportService.simulationCurve([
+        { year: 2025, projectedValue: 100000, p10: 90000, p50: 100000, p90: 115000, probabilityAboveTarget: 0.4321 }
+      ]);
+
+      expect(table.columns.map(column => column.header)).toEqual([
+        'Ano', 'Valor projetado', 'P10', 'P50', 'P90', 'Probabilidade acima da meta (%)'
+      ]);
+      expect(table.rows[0]).toEqual([2025, 100000, 90000, 100000, 115000, 43.21]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should format numbers and dates in pt-BR with semicolons', () => {
+      const table = ExportService.eventSchedule([
+        event({ value: new Decimal('1234.5'), endDate: new Date('2030-12-31T00:00:00.000Z') })
+      ]);
+
+      const csv = ExportService.toCsv(table, 'pt-BR').toString('utf8');
+
+      expect(csv.startsWith('\uFEFF')).toBe(true);
+      expect(csv.split('\r\n')[1]).toBe('01/01/2025;31/12/2030;Receita;Salário;Mensal;1.234,50;Sim');
+    });
+
+    it('should format numbers and dates in en-US with commas', () => {
+      const table = ExportService.walletAllocation([wallet('Ações', '60', '120000.5'), wallet('Renda Fixa', '40', '80000')]);
+
+      const lines = ExportService.toCsv(table, 'en-US').toString('utf8').split('\r\n');
+
+      expect(lines[1]).toBe('Ações,60.00,"120,000.50","200,000.00",80.00');
+      expect(lines[3]).toBe('Total,100.00,"200,000.50",,');
+    });
+
+    it('should neutralize formulas in text cells but keep negative numbers', () => {
+      const table = ExportService.eventSchedule([
+        event({ type: 'EXPENSE', description: '=HYPERLINK("http://example.com")', value: new Decimal('-1234.56') })
+      ]);
+
+      const csv = ExportService.toCsv(table, 'pt-BR').toString('utf8');
+
+      expect(csv.split('\r\n')[1]).toBe('01/01/2025;;Despesa;"\'=HYPERLINK(""http://example.com"")";Mensal;-1.234,56;Sim');
+    });
+
+    it('should not group years', () => {
+      const csv = ExportService.toCsv(ExportService.simulationCurve([{ year: 2030, projectedValue: 1500000 }]), 'pt-BR').toString('utf8');
+
+      expect(csv.split('\r\n')[1]).toBe('2030;1.500.000,00');
+    });
+  });
+
+  describe('datePattern', () => {
+    it('should follow the locale day and month order', () => {
+      expect(ExportService.datePattern('pt-BR')).toBe('dd/mm/yyyy');
+      expect(ExportService.datePattern('en-US')).toBe('mm/dd/yyyy');
+    });
+  });
+
+  describe('buildXlsx', () => {
+    it('should produce a workbook with typed cells', () => {
+      const table = ExportService.eventSchedule([event({ description: 'Aluguel & condomínio <sala>' })]);
+      const files = unzip(buildXlsx({ ...table, datePattern: ExportService.datePattern('pt-BR') }));
+
+      expect(Object.keys(files)).toEqual(expect.arrayContaining([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/worksheets/sheet1.xml',
+        'xl/styles.xml'
+      ]));
+      expect(files['xl/workbook.xml']).toContain('<sheet name="Eventos"');
+      expect(files['xl/styles.xml']).toContain('formatCode="dd/mm/yyyy"');
+
+      const sheet = files['xl/worksheets/sheet1.xml'];
+      expect(sheet).toContain(`<c r="A2" s="5"><v>${toExcelSerial(new Date('2025-01-01T00:00:00.000Z'))}</v></c>`);
+      expect(sheet).toContain('<c r="F2" s="3"><v>15000</v></c>');
+      expect(sheet).toContain('Aluguel &amp; condomínio &lt;sala&gt;');
+    });
+
+    it('should convert dates to Excel serial numbers', () => {
+      expect(toExcelSerial(new Date('1970-01-01T00:00:00.000Z'))).toBe(25569);
+      expect(toExcelSerial(new Date('2025-01-01T12:00:00.000Z'))).toBe(45658.5);
+    });
+  });
+});
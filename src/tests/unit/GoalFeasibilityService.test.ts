@@ -0,0 +1,86 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { GoalFeasibilityService, MAX_GOAL_HORIZON_YEARS } from '../../services/GoalFeasibilityService';
+import { Event, Goal } from '../../types';
+
+describe('GoalFeasibilityService', () => {
+  const currentYear = new Date().getFullYear();
+
+  const buildGoal = (id: string, targetValue: number, yearsAhead: number): Omit<Goal, 'client'> => ({
+    id,
+    clientId: 'client-1',
+    type: 'RETIREMENT',
+    description: 'Meta de teste',
+    targetValue: new Decimal(targetValue),
+    targetDate: new Date(currentYear + yearsAhead, 11, 31),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+  const baseParams = {
+    initialValue: 100000,
+    interestRate: 0.06,
+    volatility: 0.1,
+    events: [] as Event[],
+    simulations: 300,
+    seed: 11
+  };
+
+  it('should return an empty list when the client has no goals', () => {
+    expect(GoalFeasibilityService.analyze([], baseParams)).toEqual([]);
+  });
+
+  it('should mark goals below the projected value as feasible', () => {
+    const [result] = GoalFeasibilityService.analyze([buildGoal('goal-1', 50000, 5)], baseParams);
+
+    expect(result.feasible).toBe(true);
+    expect(result.shortfall).toBe(0);
+    expect(result.requiredMonthlyContribution).toBe(0);
+    expect(result.successProbability).toBeGreaterThan(0.9);
+  });
+
+  it('should compute the shortfall and the extra monthly contribution', () => {
+    const [result] = GoalFeasibilityService.analyze([buildGoal('goal-2', 1000000, 10)], baseParams);
+
+    expect(result.feasible).toBe(false);
+    expect(result.shortfall).toBeCloseTo(1000000 - result.projectedValue, 2);
+    expect(result.requiredMonthlyContribution).toBeGreaterThan(0);
+    expect(result.successProbability).toBeLessThan(0.1);
+  });
+
+  it('should evaluate distant goals at the maximum horizon', () => {
+    const [distant] = GoalFeasibilityService.analyze([buildGoal('goal-4', 1000000, 7000)], baseParams);
+    const [capped] = GoalFeasibilityService.analyze([buildGoal('goal-4', 1000000, MAX_GOAL_HORIZON_YEARS)], baseParams);
+
+    expect(distant.projectedValue).toBe(capped.projectedValue);
+    expect(distant.requiredMonthlyContribution).toBe(capped.requiredMonthlyContribution);
+  });
+
+  it('should close the shortfall when the required contribution is invested', () => {
+    const [before] = GoalFeasibilityService.analyze([buildGoal('goal-3', 500000, 8)], baseParams);
+
+    const contribution: Event = {
+      id: 'extra',
+      clientId: 'client-1',
+      type: 'INVESTMENT',
+      description: 'Aporte adicional',
+      value: new Decimal(before.requiredMonthlyContribution + 1),
+      frequency: 'MONTHLY',
+      inflationIndexed: false,
+      startDate: new Date(currentYear, 0, 1),
+      endDate: null,
+      interestRate: null,
+      termMonths: null,
+      amortizationSystem: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      client: null as any
+    };
+
+    const [after] = GoalFeasibilityService.analyze(
+      [buildGoal('goal-3', 500000, 8)],
+      { ...baseParams, events: [contribution] }
+    );
+
+    expect(after.feasible).toBe(true);
+  });
+});
@@ -0,0 +1,136 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { InsuranceNeedsService } from '../../services/InsuranceNeedsService';
+import { Event, Goal, Insurance, InsuranceNeedsParams, Wallet } from '../../types';
+
+describe('InsuranceNeedsService', () => {
+  const referenceDate = new Date('2025-01-15');
+
+  const buildEvent = (overrides: Partial<Omit<Event, 'client'>>): Omit<Event, 'client'> => ({
+    id: 'event',
+    clientId: 'client-1',
+    type: 'EXPENSE',
+    description: null,
+    value: new Decimal(0),
+    frequency: 'MONTHLY',
+    inflationIndexed: false,
+    startDate: new Date('2020-01-01'),
+    endDate: null,
+    interestRate: null,
+    termMonths: null,
+    amortizationSystem: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
+
+  const educationGoal: Omit<Goal, 'client'> = {
+    id: 'goal-1',
+    clientId: 'client-1',
+    type: 'EDUCATION',
+    description: 'Faculdade dos filhos',
+    targetValue: new Decimal(300000),
+    targetDate: new Date('2035-01-01'),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  const wallet: Omit<Wallet, 'client'> = {
+    id: 'wallet-1',
+    clientId: 'client-1',
+    assetClass: 'Renda Fixa',
+    percentage: new Decimal(100),
+    currentValue: new Decimal(200000),
+    totalPatrimony: new Decimal(200000),
+    alignmentPercent: new Decimal(100),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  const lifePolicy: Omit<Insurance, 'client'> = {
+    id: 'insurance-1',
+    clientId: 'client-1',
+    type: 'LIFE',
+    coverage: new Decimal(500000),
+    premium: new Decimal(300),
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  const baseParams: InsuranceNeedsParams = {
+    age: 45,
+    events: [
+      buildEvent({ id: 'expense', value: new Decimal(10000) }),
+      buildEvent({
+        id: 'mortgage',
+        type: 'LOAN',
+        value: new Decimal(5000),
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2025-12-01')
+      })
+    ],
+    goals: [educationGoal],
+    wallets: [wallet],
+    insurances: [lifePolicy],
+    supportYears: 10,
+    retirementAge: 65,
+    referenceDate
+  };
+
+  it('should aggregate expenses, outstanding debt and education costs', () => {
+    const analysis = InsuranceNeedsService.analyze(baseParams);
+
+    expect(analysis.annualExpenses).toBe(120000);
+    expect(analysis.outstandingDebt).toBe(12 * 5000);
+    expect(analysis.educationCosts).toBe(300000);
+    expect(analysis.currentPatrimony).toBe(200000);
+  });
+
+  it('should take the schedule balance of amortized loans as debt instead of expense', () => {
+    const analysis = InsuranceNeedsService.analyze({
+      ...baseParams,
+      events: [
+        buildEvent({ id: 'expense', value: new Decimal(10000) }),
+        buildEvent({
+          id: 'financing',
+          type: 'LOAN',
+          value: new Decimal(120000),
+          startDate: new Date(2024, 11, 1),
+          interestRate: new Decimal(Math.pow(1.01, 12) - 1),
+          termMonths: 120,
+          amortizationSystem: 'SAC'
+        })
+      ]
+    });
+
+    expect(analysis.annualExpenses).toBe(120000);
+    expect(analysis.outstandingDebt).toBe(119000);
+  });
+
+  it('should compute the coverage gap per insurance type', () => {
+    const analysis = InsuranceNeedsService.analyze(baseParams);
+    const life = analysis.needs.find(need => need.type === 'LIFE')!;
+    const disability = analysis.needs.find(need => need.type === 'DISABILITY')!;
+
+    const lifeNeed = 120000 * 10 + 60000 + 300000 - 200000;
+    expect(life.recommendedCoverage).toBe(lifeNeed);
+    expect(life.existingCoverage).toBe(500000);
+    expect(life.coverageGap).toBe(lifeNeed - 500000);
+
+    expect(disability.horizonYears).toBe(20);
+    expect(disability.existingCoverage).toBe(0);
+    expect(disability.coverageGap).toBe(120000 * 20 + 60000 + 300000 - 200000);
+  });
+
+  it('should not report a gap when patrimony covers the need', () => {
+    const analysis = InsuranceNeedsService.analyze({
+      ...baseParams,
+      wallets: [{ ...wallet, currentValue: new Decimal(10000000) }]
+    });
+
+    analysis.needs.forEach(need => {
+      expect(need.recommendedCoverage).toBe(0);
+      expect(need.coverageGap).toBe(0);
+    });
+  });
+});
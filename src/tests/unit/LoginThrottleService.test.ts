@@ -0,0 +1,162 @@
+import { prisma } from '../../models';
+import {
+  LoginThrottleService,
+  LOGIN_DELAY_BASE_MS,
+  LOGIN_LOCKOUT_MINUTES,
+  MAX_FAILED_LOGIN_ATTEMPTS,
+  MAX_FAILED_LOGIN_ATTEMPTS_PER_IP
+} from '../../services/LoginThrottleService';
+
+describe('LoginThrottleService', () => {
+  const lockoutMs = LOGIN_LOCKOUT_MINUTES * 60 * 1000;
+  const now = new Date('2024-01-01T12:00:00Z');
+
+  const user = (overrides: Partial<{ failedLoginAttempts: number; lastFailedLoginAt: Date | null; lockedUntil: Date | null }> = {}) => ({
+    id: 'user-1',
+    failedLoginAttempts: 0,
+    lastFailedLoginAt: null,
+    lockedUntil: null,
+    ...overrides
+  });
+
+  describe('delayFor', () => {
+    it('should not delay without failures', () => {
+      expect(LoginThrottleService.delayFor(0)).toBe(0);
+    });
+
+    it('should double the delay on each consecutive failure', () => {
+      expect(LoginThrottleService.delayFor(1)).toBe(LOGIN_DELAY_BASE_MS);
+      expect(LoginThrottleService.delayFor(2)).toBe(LOGIN_DELAY_BASE_MS * 2);
+      expect(LoginThrottleService.delayFor(3)).toBe(LOGIN_DELAY_BASE_MS * 4);
+    });
+
+    it('should cap the delay at 30 seconds', () => {
+      expect(LoginThrottleService.delayFor(50)).toBe(30 * 1000);
+    });
+  });
+
+  describe('per-IP tracking', () => {
+    const ip = '10.0.0.1';
+
+    afterEach(() => LoginThrottleService.sweepIps(now.getTime() + lockoutMs + 1));
+
+    it('should only block the IP after reaching the failure limit', () => {
+      for (let i = 0; i < MAX_FAILED_LOGIN_ATTEMPTS_PER_IP - 1; i++) {
+        LoginThrottleService.registerIpAttempt(ip, now.getTime());
+      }
+      expect(LoginThrottleService.ipRetryAfterMs(ip, now.getTime())).toBe(0);
+
+      LoginThrottleService.registerIpAttempt(ip, now.getTime());
+      expect(LoginThrottleService.ipRetryAfterMs(ip, now.getTime())).toBe(lockoutMs);
+    });
+
+    it('should forget failures after the lockout window', () => {
+      for (let i = 0; i < MAX_FAILED_LOGIN_ATTEMPTS_PER_IP; i++) {
+        LoginThrottleService.registerIpAttempt(ip, now.getTime());
+      }
+
+      expect(LoginThrottleService.ipRetryAfterMs(ip, now.getTime() + lockoutMs + 1)).toBe(0);
+    });
+
+    it('should give back only the current attempt after a successful login', () => {
+      for (let i = 0; i < MAX_FAILED_LOGIN_ATTEMPTS_PER_IP; i++) {
+        LoginThrottleService.registerIpAttempt(ip, now.getTime());
+      }
+
+      LoginThrottleService.releaseIpAttempt(ip, now.getTime());
+      expect(LoginThrottleService.ipRetryAfterMs(ip, now.getTime())).toBe(0);
+
+      LoginThrottleService.registerIpAttempt(ip, now.getTime());
+      expect(LoginThrottleService.ipRetryAfterMs(ip, now.getTime())).toBe(lockoutMs);
+    });
+
+    it('should sweep only the IPs whose failures expired', () => {
+      LoginThrottleService.registerIpAttempt(ip, now.getTime());
+      LoginThrottleService.registerIpAttempt('10.0.0.2', now.getTime() + lockoutMs);
+
+      expect(LoginThrottleService.sweepIps(now.getTime() + lockoutMs + 1)).toBe(1);
+      expect(LoginThrottleService.sweepIps(now.getTime() + 2 * lockoutMs + 1)).toBe(1);
+    });
+  });
+
+  describe('per-account tracking', () => {
+    it('should apply the progressive delay from the last failure', () => {
+      const throttled = user({ failedLoginAttempts: 2, lastFailedLoginAt: now });
+
+      expect(LoginThrottleService.accountRetryAfterMs(throttled, now.getTime() + 500)).toBe(LOGIN_DELAY_BASE_MS * 2 - 500);
+      expect(LoginThrottleService.accountRetryAfterMs(throttled, now.getTime() + LOGIN_DELAY_BASE_MS * 2)).toBe(0);
+    });
+
+    it('should report an active lock', () => {
+      const locked = user({ lockedUntil: new Date(now.getTime() + 1000) });
+
+      expect(LoginThrottleService.isLocked(locked, now)).toBe(true);
+      expect(LoginThrottleService.isLocked(locked, new Date(now.getTime() + 1000))).toBe(false);
+    });
+
+    it('should increment the counter in the database without locking below the limit', async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({ failedLoginAttempts: 2 });
+
+      await LoginThrottleService.registerAccountFailure(user({ failedLoginAttempts: 1 }), now);
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now },
+        select: { failedLoginAttempts: true }
+      });
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should lock the account from the counter returned by the database', async () => {
+      // A leitura anterior está desatualizada: outra requisição já registrou falhas em paralelo
+      (prisma.user.update as jest.Mock).mockResolvedValue({ failedLoginAttempts: MAX_FAILED_LOGIN_ATTEMPTS });
+
+      await LoginThrottleService.registerAccountFailure(user({ failedLoginAttempts: 0 }), now);
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', OR: [{ lockedUntil: null }, { lockedUntil: { lte: now } }] },
+        data: { lockedUntil: new Date(now.getTime() + lockoutMs) }
+      });
+    });
+
+    it('should restart the counter after an expired lock', async () => {
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      const expired = user({ failedLoginAttempts: MAX_FAILED_LOGIN_ATTEMPTS, lockedUntil: new Date(now.getTime() - 1) });
+
+      await LoginThrottleService.registerAccountFailure(expired, now);
+
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-1', lockedUntil: { lte: now } },
+        data: { failedLoginAttempts: 1, lastFailedLoginAt: now, lockedUntil: null }
+      });
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should increment when a concurrent failure already restarted the expired lock', async () => {
+      (prisma.user.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (prisma.user.update as jest.Mock).mockResolvedValue({ failedLoginAttempts: 2 });
+      const expired = user({ failedLoginAttempts: MAX_FAILED_LOGIN_ATTEMPTS, lockedUntil: new Date(now.getTime() - 1) });
+
+      await LoginThrottleService.registerAccountFailure(expired, now);
+
+      expect(prisma.user.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { failedLoginAttempts: { increment: 1 }, lastFailedLoginAt: now }
+      }));
+    });
+
+    it('should skip the update when there is nothing to clear', async () => {
+      await LoginThrottleService.clearAccount(user());
+
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it('should reset counters when unlocking', async () => {
+      await LoginThrottleService.unlock('user-1');
+
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { failedLoginAttempts: 0, lastFailedLoginAt: null, lockedUntil: null }
+      });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { Event, ScenarioParameters, ScenarioProjection } from '../../types';
+import { ScenarioService } from '../../services/ScenarioService';
+
+const client = { id: 'client-1', name: 'Cliente Teste' } as Event['client'];
+
+const event = (overrides: Partial<Event>): Event => ({
+  id: 'event-1',
+  clientId: 'client-1',
+  type: 'INCOME',
+  description: 'Salário',
+  value: new Decimal('15000'),
+  frequency: 'MONTHLY',
+  inflationIndexed: false,
+  startDate: new Date('2025-01-01T00:00:00.000Z'),
+  endDate: new Date('2045-12-31T00:00:00.000Z'),
+  interestRate: null,
+  termMonths: null,
+  amortizationSystem: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  client,
+  ...overrides
+});
+
+const parameters = (overrides: Partial<ScenarioParameters> = {}): ScenarioParameters => ({
+  initialValue: 100000,
+  interestRate: 0.04,
+  projectionYears: 2,
+  inflationRate: null,
+  premiumFrequency: null,
+  lifeEvent: null,
+  monteCarlo: null,
+  tax: null,
+  retirement: null,
+  portfolio: null,
+  assumptionsVersion: null,
+  eventsCount: 0,
+  ...overrides
+});
+
+const projection = (name: string, values: [number, number][], overrides: Partial<ScenarioParameters> = {}): ScenarioProjection => ({
+  name,
+  simulationId: null,
+  parameters: parameters(overrides),
+  projectionData: values.map(([year, projectedValue]) => ({ year, projectedValue }))
+});
+
+describe('ScenarioService', () => {
+  describe('unknownEventIds', () => {
+    it('should list removed or updated IDs that do not belong to the client', () => {
+      const events = [event({ id: 'event-1' }), event({ id: 'event-2' })];
+
+      expect(ScenarioService.unknownEventIds(events, {
+        remove: ['event-1', 'event-9'],
+        update: [{ id: 'event-2' }, { id: 'event-9' }, { id: 'event-8' }]
+      })).toEqual(['event-9', 'event-8']);
+    });
+  });
+
+  describe('applyEventOverrides', () => {
+    it('should remove, update and add events without touching the originals', () => {
+      const salary = event({ id: 'event-1' });
+      const rent = event({ id: 'event-2', type: 'EXPENSE', value: new Decimal('3000') });
+
+      const result = ScenarioService.applyEventOverrides([salary, rent], {
+        remove: ['event-2'],
+        update: [{ id: 'event-1', value: 12000, endDate: new Date('2040-12-31T00:00:00.000Z') }],
+        add: [{ type: 'INVESTMENT', value: 2000, frequency: 'MONTHLY', startDate: new Date('2026-01-01T00:00:00.000Z') }]
+      }, client);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({ id: 'event-1', type: 'INCOME', endDate: new Date('2040-12-31T00:00:00.000Z') });
+      expect(Number(result[0].value)).toBe(12000);
+      expect(result[1]).toMatchObject({
+        id: 'scenario-event-1',
+        clientId: 'client-1',
+        type: 'INVESTMENT',
+        description: null,
+        inflationIndexed: false,
+        endDate: null,
+        interestRate: null,
+        termMonths: null,
+        amortizationSystem: null,
+        client
+      });
+      expect(Number(result[1].value)).toBe(2000);
+      expect(Number(salary.value)).toBe(15000);
+    });
+
+    it('should allow clearing the end date', () => {
+      const [updated] = ScenarioService.applyEventOverrides([event({})], { update: [{ id: 'event-1', endDate: null }] }, client);
+
+      expect(updated.endDate).toBeNull();
+    });
+
+    it('should return the same events when there are no overrides', () => {
+      const events = [event({})];
+
+      expect(ScenarioService.applyEventOverrides(events, undefined, client)).toBe(events);
+    });
+  });
+
+  describe('compare', () => {
+    it('should align the curves on every year and compute yearly deltas', () => {
+      const base = projection('Base', [[2025, 100000], [2026, 104000], [2027, 108160]]);
+      const shorter = projection('Horizonte menor', [[2025, 100000], [2026, 103000.55]], { projectionYears: 1 });
+
+      const comparison = ScenarioService.compare(base, [shorter]);
+
+      expect(comparison.years).toEqual([2025, 2026, 2027]);
+      expect(comparison.scenarios[0].projectionData).toEqual([
+        { year: 2025, projectedValue: 100000, realValue: null },
+        { year: 2026, projectedValue: 103000.55, realValue: null },
+        { year: 2027, projectedValue: null, realValue: null }
+      ]);
+      expect(comparison.scenarios[0].deltas.map(point => point.projectedValue)).toEqual([0, -999.45, null]);
+    });
+
+    it('should compute the metrics of each curve and their difference to the base', () => {
+      const base = projection('Base', [[2025, 100000], [2026, 110000]]);
+      const lowerRate = projection('Juros menores', [[2025, 100000], [2026, 103000]], { interestRate: 0.03 });
+
+      const comparison = ScenarioService.compare(base, [lowerRate]);
+
+      expect(comparison.base.metrics).toEqual({ finalValue: 110000, totalGain: 10000, totalGainPercent: 10, cagr: 10, projectionYears: 1 });
+      expect(comparison.scenarios[0].metrics).toEqual({ finalValue: 103000, totalGain: 3000, totalGainPercent: 3, cagr: 3, projectionYears: 1 });
+      expect(comparison.scenarios[0].metricsDelta).toEqual({ finalValue: -7000, totalGain: -7000, totalGainPercent: -7, cagr: -7, projectionYears: 0 });
+      expect(comparison.scenarios[0].parameters.interestRate).toBe(0.03);
+    });
+
+    it('should leave the metrics delta empty when a curve has no points', () => {
+      const comparison = ScenarioService.compare(projection('Base', []), [projection('Vazio', [])]);
+
+      expect(comparison.years).toEqual([]);
+      expect(comparison.scenarios[0].metricsDelta).toBeNull();
+    });
+  });
+});
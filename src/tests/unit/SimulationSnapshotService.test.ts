@@ -0,0 +1,129 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import type { Event, Insurance } from '@prisma/client';
+import { SimulationSnapshot } from '../../types';
+import { SimulationSnapshotService } from '../../services/SimulationSnapshotService';
+import { ENGINE_VERSION } from '../../services/WealthProjectionService';
+
+const event = (overrides: Partial<Event>): Event => ({
+  id: 'event-1',
+  clientId: 'client-1',
+  type: 'INCOME',
+  description: 'Salário',
+  value: new Decimal('15000'),
+  frequency: 'MONTHLY',
+  inflationIndexed: true,
+  startDate: new Date('2025-01-01T00:00:00.000Z'),
+  endDate: null,
+  interestRate: null,
+  termMonths: null,
+  amortizationSystem: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const insurance: Insurance = {
+  id: 'insurance-1',
+  clientId: 'client-1',
+  type: 'LIFE',
+  coverage: new Decimal('500000'),
+  premium: new Decimal('150'),
+  description: 'Vida inteira',
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const parameters: SimulationSnapshot['parameters'] = {
+  initialValue: 100000,
+  interestRate: 0.04,
+  projectionYears: 10,
+  inflationRate: 0.045,
+  premiumFrequency: null,
+  lifeEvent: null,
+  monteCarlo: null,
+  tax: null,
+  retirement: null,
+  portfolio: null,
+  assumptionsVersion: null
+};
+
+describe('SimulationSnapshotService', () => {
+  describe('capture', () => {
+    it('should freeze the parameters and events as plain JSON values', () => {
+      const monteCarlo = { expectedReturn: 0.04, volatility: 0.1, seed: 42, simulations: 500, successProbability: 0.7 };
+      const snapshot = SimulationSnapshotService.capture(
+        { ...parameters, monteCarlo },
+        [event({ endDate: new Date('2040-12-31T00:00:00.000Z') })],
+        [insurance],
+        new Date('2025-06-01T12:00:00.000Z')
+      );
+
+      expect(snapshot).toEqual({
+        capturedAt: '2025-06-01T12:00:00.000Z',
+        parameters: {
+          ...parameters,
+          monteCarlo: { expectedReturn: 0.04, volatility: 0.1, seed: 42, simulations: 500, targetValue: undefined }
+        },
+        events: [{
+          id: 'event-1',
+          type: 'INCOME',
+          description: 'Salário',
+          value: 15000,
+          frequency: 'MONTHLY',
+          inflationIndexed: true,
+          startDate: '2025-01-01T00:00:00.000Z',
+          endDate: '2040-12-31T00:00:00.000Z',
+          interestRate: null,
+          termMonths: null,
+          amortizationSystem: null
+        }],
+        insurances: []
+      });
+    });
+
+    it('should only include insurances when premiums are part of the projection', () => {
+      const snapshot = SimulationSnapshotService.capture({ ...parameters, premiumFrequency: 'ANNUALLY' }, [], [insurance]);
+
+      expect(snapshot.insurances).toEqual([
+        { id: 'insurance-1', type: 'LIFE', description: 'Vida inteira', coverage: 500000, premium: 150 }
+      ]);
+    });
+  });
+
+  describe('diff', () => {
+    it('should report added, removed and changed events field by field', () => {
+      const previous = SimulationSnapshotService.capture(parameters, [
+        event({ id: 'event-1' }),
+        event({ id: 'event-2', type: 'EXPENSE', description: 'Aluguel', value: new Decimal('3000') })
+      ], []);
+      const current = SimulationSnapshotService.capture(parameters, [
+        event({ id: 'event-1', value: new Decimal('18000'), endDate: new Date('2035-12-31T00:00:00.000Z') }),
+        event({ id: 'event-3', type: 'INVESTMENT', description: 'Aporte' })
+      ], []);
+
+      const diff = SimulationSnapshotService.diff(previous, current, ENGINE_VERSION);
+
+      expect(diff.engineVersion).toBeNull();
+      expect(diff.events.added.map(added => added.id)).toEqual(['event-3']);
+      expect(diff.events.removed.map(removed => removed.id)).toEqual(['event-2']);
+      expect(diff.events.changed).toEqual([{
+        id: 'event-1',
+        description: 'Salário',
+        changes: [
+          { field: 'value', previous: 15000, current: 18000 },
+          { field: 'endDate', previous: null, current: '2035-12-31T00:00:00.000Z' }
+        ]
+      }]);
+      expect(diff.insurances).toEqual({ added: [], removed: [], changed: [] });
+    });
+
+    it('should report an engine version change', () => {
+      const snapshot = SimulationSnapshotService.capture(parameters, [], []);
+
+      expect(SimulationSnapshotService.diff(snapshot, snapshot, '0.9.0').engineVersion).toEqual({
+        previous: '0.9.0',
+        current: ENGINE_VERSION
+      });
+    });
+  });
+});
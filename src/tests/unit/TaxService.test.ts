@@ -0,0 +1,108 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { TaxLedger, TaxService } from '../../services/TaxService';
+
+describe('TaxService', () => {
+  describe('regressiveRate', () => {
+    it('should follow the regressive table by holding period', () => {
+      expect(TaxService.regressiveRate(90)).toBe(0.225);
+      expect(TaxService.regressiveRate(180)).toBe(0.225);
+      expect(TaxService.regressiveRate(181)).toBe(0.2);
+      expect(TaxService.regressiveRate(720)).toBe(0.175);
+      expect(TaxService.regressiveRate(721)).toBe(0.15);
+    });
+  });
+
+  describe('regimeForAssetClass', () => {
+    it('should map asset classes to their tax regimes', () => {
+      expect(TaxService.regimeForAssetClass('LCI/LCA')).toBe('EXEMPT');
+      expect(TaxService.regimeForAssetClass('Debêntures Incentivadas')).toBe('EXEMPT');
+      expect(TaxService.regimeForAssetClass('Fundos Imobiliários')).toBe('REAL_ESTATE_FUND');
+      expect(TaxService.regimeForAssetClass('Fundo de Ações')).toBe('CAPITAL_GAINS');
+      expect(TaxService.regimeForAssetClass('Criptomoedas')).toBe('CAPITAL_GAINS');
+      expect(TaxService.regimeForAssetClass('Fundos Multimercado')).toBe('COME_COTAS');
+      expect(TaxService.regimeForAssetClass('Renda Fixa')).toBe('REGRESSIVE');
+      expect(TaxService.regimeForAssetClass('Tesouro Direto')).toBe('REGRESSIVE');
+    });
+  });
+
+  describe('allocationsFromWallets', () => {
+    it('should weight the regimes by the current value of each asset class', () => {
+      const allocations = TaxService.allocationsFromWallets([
+        { assetClass: 'Renda Fixa', currentValue: new Decimal('50000') },
+        { assetClass: 'CDB', currentValue: new Decimal('10000') },
+        { assetClass: 'LCI', currentValue: new Decimal('20000') },
+        { assetClass: 'Ações', currentValue: new Decimal('20000') }
+      ]);
+
+      expect(allocations).toEqual([
+        { regime: 'REGRESSIVE', weight: 0.6 },
+        { regime: 'EXEMPT', weight: 0.2 },
+        { regime: 'CAPITAL_GAINS', weight: 0.2 }
+      ]);
+    });
+
+    it('should default to the regressive table without wallets', () => {
+      expect(TaxService.allocationsFromWallets([])).toEqual([{ regime: 'REGRESSIVE', weight: 1 }]);
+    });
+  });
+});
+
+describe('TaxLedger', () => {
+  it('should tax only the gain on liquidation', () => {
+    const ledger = new TaxLedger(100000, { allocations: [{ regime: 'REGRESSIVE', weight: 1 }], initialHoldingMonths: 24 });
+
+    ledger.grow(1.1);
+
+    expect(ledger.value).toBeCloseTo(110000, 2);
+    expect(ledger.liquidationValue()).toBeCloseTo(110000 - 10000 * 0.175, 2);
+  });
+
+  it('should withhold come-cotas in May and November only', () => {
+    const ledger = new TaxLedger(100000, { allocations: [{ regime: 'COME_COTAS', weight: 1 }] });
+
+    ledger.grow(1.1);
+    ledger.endOfMonth(3);
+    expect(ledger.taxesPaid).toBe(0);
+
+    ledger.endOfMonth(4);
+    expect(ledger.taxesPaid).toBeCloseTo(1500, 2);
+    expect(ledger.value).toBeCloseTo(108500, 2);
+
+    // Resgate com menos de 180 dias: complemento até 22,5% do ganho bruto
+    expect(ledger.liquidationValue()).toBeCloseTo(108500 - (10000 * 0.225 - 1500), 2);
+
+    ledger.endOfMonth(5);
+    expect(ledger.taxesPaid).toBeCloseTo(1500, 2);
+  });
+
+  it('should gross up taxable withdrawals to cover the income tax', () => {
+    const ledger = new TaxLedger(100000, { allocations: [{ regime: 'REGRESSIVE', weight: 1 }], initialHoldingMonths: 24 });
+    ledger.grow(1.1);
+
+    ledger.withdraw(10000, true);
+
+    const gross = 10000 / (1 - 1750 / 110000);
+    expect(ledger.value).toBeCloseTo(110000 - gross, 2);
+    expect(ledger.taxesPaid).toBeCloseTo(gross - 10000, 2);
+  });
+
+  it('should not tax exempt allocations nor untaxed outflows', () => {
+    const ledger = new TaxLedger(100000, { allocations: [{ regime: 'EXEMPT', weight: 1 }] });
+    ledger.grow(1.2);
+    ledger.withdraw(20000, true);
+
+    expect(ledger.taxesPaid).toBe(0);
+    expect(ledger.liquidationValue()).toBeCloseTo(100000, 2);
+  });
+
+  it('should split contributions by weight and keep each sleeve cost basis', () => {
+    const ledger = new TaxLedger(0, {
+      allocations: [{ regime: 'EXEMPT', weight: 1 }, { regime: 'CAPITAL_GAINS', weight: 1 }]
+    });
+
+    ledger.contribute(100000);
+    ledger.grow(1.5);
+
+    expect(ledger.liquidationValue()).toBeCloseTo(150000 - 25000 * 0.15, 2);
+  });
+});
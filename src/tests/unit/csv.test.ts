@@ -0,0 +1,98 @@
+import { escapeCsvFormula, formatCsvRecords, parseCsv, parseCsvBoolean, parseCsvDate, parseCsvNumber, parseCsvRecords } from '../../utils/csv';
+
+describe('csv', () => {
+  describe('parseCsvRecords', () => {
+    it('should split simple comma separated records', () => {
+      expect(parseCsvRecords('a,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    it('should handle quoted fields with delimiters, escaped quotes and line breaks', () => {
+      const text = 'name,description\r\n"Silva, João","Disse ""olá""\nem duas linhas"\r\n';
+
+      expect(parseCsvRecords(text)).toEqual([
+        ['name', 'description'],
+        ['Silva, João', 'Disse "olá"\nem duas linhas']
+      ]);
+    });
+
+    it('should detect semicolon separated files', () => {
+      expect(parseCsvRecords('valor;descricao\n1.234,56;Aluguel')).toEqual([['valor', 'descricao'], ['1.234,56', 'Aluguel']]);
+    });
+
+    it('should skip blank lines and the byte order mark', () => {
+      expect(parseCsvRecords('\uFEFFa,b\n\n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should map fields by header and trim values', () => {
+      const { headers, rows } = parseCsv('name , age\n Ana ,30\nBruno');
+
+      expect(headers).toEqual(['name', 'age']);
+      expect(rows).toEqual([{ name: 'Ana', age: '30' }, { name: 'Bruno', age: '' }]);
+    });
+  });
+
+  describe('value parsers', () => {
+    it('should parse numbers in both notations', () => {
+      expect(parseCsvNumber('1234.56')).toBe(1234.56);
+      expect(parseCsvNumber('1234,56')).toBe(1234.56);
+      expect(parseCsvNumber('1.234.567,89')).toBe(1234567.89);
+      expect(parseCsvNumber('abc')).toBe('abc');
+    });
+
+    it('should read a single dot as the decimal separator', () => {
+      expect(parseCsvNumber('0.065')).toBe(0.065);
+      expect(parseCsvNumber('0.105')).toBe(0.105);
+      expect(parseCsvNumber('1.500')).toBe(1.5);
+      expect(parseCsvNumber('-2.250')).toBe(-2.25);
+    });
+
+    it('should read dots as thousands separators only when unambiguous', () => {
+      expect(parseCsvNumber('1.500,00')).toBe(1500);
+      expect(parseCsvNumber('-1.234,5')).toBe(-1234.5);
+      expect(parseCsvNumber('1.234.567')).toBe(1234567);
+      expect(parseCsvNumber('0.123.456')).toBe('0.123.456');
+    });
+
+    it('should parse booleans in english and portuguese', () => {
+      expect(parseCsvBoolean('Sim')).toBe(true);
+      expect(parseCsvBoolean('false')).toBe(false);
+      expect(parseCsvBoolean('não')).toBe(false);
+      expect(parseCsvBoolean('talvez')).toBe('talvez');
+    });
+
+    it('should normalize dates to ISO 8601', () => {
+      expect(parseCsvDate('31/12/2030')).toBe('2030-12-31T00:00:00.000Z');
+      expect(parseCsvDate('2030-12-31')).toBe('2030-12-31T00:00:00.000Z');
+      expect(parseCsvDate('2030-12-31T10:00:00.000Z')).toBe('2030-12-31T10:00:00.000Z');
+    });
+  });
+
+  describe('escapeCsvFormula', () => {
+    it('should prefix values that spreadsheets would run as formulas', () => {
+      ['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'].forEach(value => {
+        expect(escapeCsvFormula(value)).toBe(`'${value}`);
+      });
+    });
+
+    it('should keep ordinary text', () => {
+      expect(escapeCsvFormula('Salário - empresa')).toBe('Salário - empresa');
+      expect(escapeCsvFormula('')).toBe('');
+    });
+  });
+
+  describe('formatCsvRecords', () => {
+    it('should quote fields with delimiters, quotes and line breaks', () => {
+      const records = [['descricao', 'valor'], ['Aluguel; condomínio', '1.234,56'], ['Disse "olá"\nontem', '']];
+
+      expect(formatCsvRecords(records, ';')).toBe('descricao;valor\r\n"Aluguel; condomínio";1.234,56\r\n"Disse ""olá""\nontem";\r\n');
+    });
+
+    it('should round trip with the parser', () => {
+      const records = [['a', 'b'], ['1,5', 'x "y"']];
+
+      expect(parseCsvRecords(formatCsvRecords(records), ',')).toEqual(records);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { Decimal } from '@prisma/client/runtime/library';
+import { LoanSchedule, isAmortizedLoan } from '../../utils/loan';
+
+// Taxa anual equivalente a 1% ao mês
+const annualRate = Math.pow(1.01, 12) - 1;
+const startDate = new Date(2025, 0, 15);
+
+describe('LoanSchedule', () => {
+  it('should amortize a constant amount under SAC', () => {
+    const { installments } = new LoanSchedule(120000, annualRate, 120, 'SAC', startDate);
+
+    expect(installments).toHaveLength(120);
+    expect(installments[0]).toEqual({ month: 1, installment: 2200, interest: 1200, amortization: 1000, balance: 119000 });
+    expect(installments[1]).toEqual({ month: 2, installment: 2190, interest: 1190, amortization: 1000, balance: 118000 });
+    expect(installments[119]).toEqual({ month: 120, installment: 1010, interest: 10, amortization: 1000, balance: 0 });
+  });
+
+  it('should keep the installment constant under Price and settle the balance in the last one', () => {
+    const { installments } = new LoanSchedule(120000, annualRate, 120, 'PRICE', startDate);
+
+    expect(installments[0]).toEqual({ month: 1, installment: 1721.65, interest: 1200, amortization: 521.65, balance: 119478.35 });
+    expect(installments.slice(0, -1).every(({ installment }) => installment === 1721.65)).toBe(true);
+    expect(installments[119].installment).toBeCloseTo(1721.65, 0);
+    expect(installments[119].balance).toBe(0);
+  });
+
+  it('should split the principal evenly without interest', () => {
+    const { installments } = new LoanSchedule(1200, 0, 12, 'PRICE', startDate);
+
+    expect(installments.every(({ installment, interest }) => installment === 100 && interest === 0)).toBe(true);
+  });
+
+  it('should start the installments in the month after the contract', () => {
+    const schedule = new LoanSchedule(120000, annualRate, 120, 'SAC', startDate);
+
+    expect(schedule.installmentAt(new Date(2025, 0, 1))).toBe(0);
+    expect(schedule.installmentAt(new Date(2025, 1, 1))).toBe(2200);
+    expect(schedule.installmentAt(new Date(2035, 1, 1))).toBe(0);
+
+    expect(schedule.balanceAt(new Date(2024, 11, 1))).toBe(0);
+    expect(schedule.balanceAt(new Date(2025, 0, 31))).toBe(120000);
+    expect(schedule.balanceAt(new Date(2025, 11, 1))).toBe(109000);
+    expect(schedule.balanceAt(new Date(2040, 0, 1))).toBe(0);
+  });
+
+  it('should release the principal in the contract month only', () => {
+    const schedule = new LoanSchedule(120000, annualRate, 120, 'SAC', startDate);
+
+    expect(schedule.disbursementAt(new Date(2024, 11, 1))).toBe(0);
+    expect(schedule.disbursementAt(new Date(2025, 0, 1))).toBe(120000);
+    expect(schedule.disbursementAt(new Date(2025, 1, 1))).toBe(0);
+  });
+});
+
+describe('isAmortizedLoan', () => {
+  const loan = { type: 'LOAN' as const, interestRate: new Decimal('0.12'), termMonths: 360, amortizationSystem: 'SAC' as const };
+
+  it('should require a loan with rate, term and amortization system', () => {
+    expect(isAmortizedLoan(loan)).toBe(true);
+    expect(isAmortizedLoan({ ...loan, type: 'EXPENSE' })).toBe(false);
+    expect(isAmortizedLoan({ ...loan, amortizationSystem: null })).toBe(false);
+    expect(isAmortizedLoan({ ...loan, interestRate: new Decimal('0') })).toBe(true);
+  });
+});
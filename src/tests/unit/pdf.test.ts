@@ -0,0 +1,82 @@
+import { inflateSync } from 'zlib';
+import { PdfDocument } from '../../utils/pdf';
+
+// Conteúdo descomprimido de cada página, na ordem do arquivo
+function pageContents(pdf: Buffer): string[] {
+  const contents: string[] = [];
+  const source = pdf.toString('latin1');
+  const pattern = /stream\n([\s\S]*?)\nendstream/g;
+
+  for (let match = pattern.exec(source); match; match = pattern.exec(source)) {
+    contents.push(inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1'));
+  }
+
+  return contents;
+}
+
+describe('PdfDocument', () => {
+  it('should write a valid cross reference table', () => {
+    const pdf = new PdfDocument({ title: 'Relatório' }).addPage().text(48, 48, 'Olá').addPage().toBuffer();
+    const source = pdf.toString('latin1');
+
+    expect(source.startsWith('%PDF-1.4')).toBe(true);
+    expect(source.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(source.slice(source.lastIndexOf('startxref') + 10).split('\n')[0]);
+    const xref = source.slice(startxref).split('\n');
+    expect(xref[0]).toBe('xref');
+
+    const count = Number(xref[1].split(' ')[1]);
+    for (let id = 1; id < count; id++) {
+      const offset = Number(xref[2 + id].slice(0, 10));
+      expect(source.startsWith(`${id} 0 obj`, offset)).toBe(true);
+    }
+
+    expect(source).toContain('/Count 2');
+    expect(source).toContain('/Title (Relat\\363rio)');
+  });
+
+  it('should encode accents in WinAnsi and escape delimiters', () => {
+    const [content] = pageContents(new PdfDocument().text(0, 0, 'Previdência (PGBL) \\ € ✓').toBuffer());
+
+    expect(content).toContain('(Previd\\352ncia \\(PGBL\\) \\\\ \\200 ?) Tj');
+  });
+
+  it('should convert top-left coordinates and align text', () => {
+    const doc = new PdfDocument();
+    const width = PdfDocument.textWidth('Total', 10);
+    doc.text(200, 100, 'Total', { align: 'right' });
+
+    const [content] = pageContents(doc.toBuffer());
+    const expectedX = Math.round((200 - width) * 100) / 100;
+
+    expect(content).toContain(`${expectedX} ${Math.round((PdfDocument.HEIGHT - 108) * 100) / 100} Td (Total) Tj`);
+  });
+
+  it('should draw on the selected page', () => {
+    const doc = new PdfDocument().addPage().addPage();
+    doc.goToPage(0).text(0, 0, 'primeira');
+
+    const [first, second] = pageContents(doc.toBuffer());
+
+    expect(first).toContain('(primeira)');
+    expect(second).not.toContain('(primeira)');
+    expect(() => doc.goToPage(2)).toThrow('Página 3 inexistente');
+  });
+
+  describe('text metrics', () => {
+    it('should measure with Helvetica widths', () => {
+      expect(PdfDocument.textWidth('ii', 10)).toBeCloseTo(4.44);
+      expect(PdfDocument.textWidth('ii', 10, true)).toBeCloseTo(5.56);
+      expect(PdfDocument.textWidth('ação', 10)).toBe(PdfDocument.textWidth('acao', 10));
+    });
+
+    it('should wrap words within the width', () => {
+      const lines = PdfDocument.wrapText('Patrimônio projetado para a aposentadoria do cliente', 100, 10);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.join(' ')).toBe('Patrimônio projetado para a aposentadoria do cliente');
+      lines.forEach(line => expect(PdfDocument.textWidth(line, 10)).toBeLessThanOrEqual(100));
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { PortfolioTracker, cholesky, correlationMatrix } from '../../utils/portfolio';
+import { AssetAllocation, PortfolioParams } from '../../types';
+
+const allocation = (overrides: Partial<AssetAllocation>): AssetAllocation => ({
+  assetClass: 'Renda Fixa',
+  expectedReturn: 0.1,
+  volatility: 0.03,
+  weight: 0.5,
+  targetWeight: 0.5,
+  ...overrides
+});
+
+describe('correlationMatrix', () => {
+  it('should fill missing pairs as independent regardless of the pair order', () => {
+    const matrix = correlationMatrix(['Renda Fixa', 'Ações', 'Caixa'], [{ assetClasses: ['acoes', 'renda fixa'], correlation: 0.3 }]);
+
+    expect(matrix).toEqual([
+      [1, 0.3, 0],
+      [0.3, 1, 0],
+      [0, 0, 1]
+    ]);
+  });
+});
+
+describe('cholesky', () => {
+  it('should factor a correlation matrix into L with L·Lᵀ equal to the matrix', () => {
+    const matrix = [[1, 0.5, 0.2], [0.5, 1, 0.3], [0.2, 0.3, 1]];
+    const lower = cholesky(matrix)!;
+
+    matrix.forEach((row, i) => row.forEach((value, j) => {
+      const product = lower[i].reduce((sum, item, k) => sum + item * lower[j][k], 0);
+      expect(product).toBeCloseTo(value, 10);
+    }));
+    expect(lower[0][1]).toBe(0);
+  });
+
+  it('should accept perfectly correlated classes and reject inconsistent matrices', () => {
+    expect(cholesky([[1, 1], [1, 1]])).toEqual([[1, 0], [1, 0]]);
+    expect(cholesky([[1, 0.9, 0.9], [0.9, 1, -0.9], [0.9, -0.9, 1]])).toBeNull();
+  });
+});
+
+describe('PortfolioTracker', () => {
+  const portfolio = (rebalanceFrequency: PortfolioParams['rebalanceFrequency']): PortfolioParams => ({
+    allocations: [
+      allocation({ weight: 0.5, targetWeight: 0.5 }),
+      allocation({ assetClass: 'Ações', weight: 0.5, targetWeight: 0.5 })
+    ],
+    rebalanceFrequency
+  });
+
+  // Renda fixa parada, ações dobram
+  const factorFor = (item: AssetAllocation) => (item.assetClass === 'Ações' ? 2 : 1);
+
+  it('should return the value-weighted growth factor and let weights drift', () => {
+    const tracker = new PortfolioTracker(100, portfolio('NONE'));
+
+    expect(tracker.grow(factorFor)).toBe(1.5);
+    tracker.settle(150, 0);
+    // 50 em renda fixa e 100 em ações: o próximo mês pesa mais as ações
+    expect(tracker.grow(factorFor)).toBeCloseTo(250 / 150, 10);
+  });
+
+  it('should rebalance back to the target weights at the end of each period', () => {
+    const tracker = new PortfolioTracker(100, portfolio('MONTHLY'));
+
+    tracker.grow(factorFor);
+    tracker.settle(150, 0);
+
+    expect(tracker.grow(factorFor)).toBe(1.5);
+  });
+
+  it('should split contributions by target weight and withdrawals by current value', () => {
+    const tracker = new PortfolioTracker(100, portfolio('NONE'));
+
+    tracker.grow(factorFor);
+    tracker.settle(250, 0);
+    // 100 de aporte dividido igualmente: 100 em renda fixa e 150 em ações
+    expect(tracker.grow(factorFor)).toBe(400 / 250);
+
+    tracker.settle(200, 1);
+    expect(tracker.value).toBeCloseTo(200, 10);
+    expect(tracker.grow(factorFor)).toBeCloseTo(1.75, 10);
+  });
+});
@@ -0,0 +1,90 @@
+import { base32Decode, base32Encode, buildOtpauthUrl, generateTotp, matchTotpStep, verifyTotp } from '../../utils/totp';
+
+describe('totp', () => {
+  // Segredo de referência da RFC 6238 (apêndice B): "12345678901234567890"
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should encode the RFC secret', () => {
+      expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore case and padding when decoding', () => {
+      expect(base32Decode('mzxw6===').toString()).toBe('foo');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow();
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130']
+    ])('should match the RFC 6238 SHA-1 vector at T=%i', (seconds, expected) => {
+      expect(generateTotp(rfcSecret, seconds * 1000, 8)).toBe(expected);
+    });
+
+    it('should default to 6 digits', () => {
+      expect(generateTotp(rfcSecret, 59 * 1000)).toBe('287082');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111111 * 1000;
+
+    it('should accept the current code', () => {
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now), now)).toBe(true);
+    });
+
+    it('should tolerate one step of clock drift', () => {
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now - 30_000), now)).toBe(true);
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now + 30_000), now)).toBe(true);
+    });
+
+    it('should reject codes outside the window', () => {
+      expect(verifyTotp(rfcSecret, generateTotp(rfcSecret, now - 90_000), now)).toBe(false);
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(rfcSecret, '12345', now)).toBe(false);
+      expect(verifyTotp(rfcSecret, 'abcdef', now)).toBe(false);
+    });
+  });
+
+  describe('matchTotpStep', () => {
+    const now = 1111111111 * 1000;
+    const currentStep = Math.floor(now / 30_000);
+
+    it('should return the time step the code belongs to', () => {
+      expect(matchTotpStep(rfcSecret, generateTotp(rfcSecret, now), now)).toBe(currentStep);
+      expect(matchTotpStep(rfcSecret, generateTotp(rfcSecret, now - 30_000), now)).toBe(currentStep - 1);
+      expect(matchTotpStep(rfcSecret, generateTotp(rfcSecret, now + 30_000), now)).toBe(currentStep + 1);
+    });
+
+    it('should return null for codes that do not match', () => {
+      expect(matchTotpStep(rfcSecret, generateTotp(rfcSecret, now - 90_000), now)).toBeNull();
+    });
+  });
+
+  it('should build an otpauth URI', () => {
+    const url = new URL(buildOtpauthUrl(rfcSecret, 'advisor@wealthplanner.com', 'Wealth Planner'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(url.host).toBe('totp');
+    expect(decodeURIComponent(url.pathname)).toBe('/Wealth Planner:advisor@wealthplanner.com');
+    expect(url.searchParams.get('secret')).toBe(rfcSecret);
+    expect(url.searchParams.get('issuer')).toBe('Wealth Planner');
+  });
+});
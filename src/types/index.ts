@@ -68,6 +68,17 @@ export type UpdateSimulationData = Partial<CreateSimulationData>;
 export interface ProjectionPoint {
     year: number;
     projectedValue: number;
+    realValue?: number;
+    afterTaxValue?: number;
+    afterTaxRealValue?: number;
+    withdrawal?: number;
+    // Com empréstimos amortizados, projectedValue é o patrimônio líquido (assets - outstandingDebt)
+    assets?: number;
+    outstandingDebt?: number;
+    p10?: number;
+    p50?: number;
+    p90?: number;
+    probabilityAboveTarget?: number;
 };
 
 export interface WealthProjectionParams {
@@ -75,6 +86,374 @@ export interface WealthProjectionParams {
     interestRate: number;
     events: Event[];
     projectionYears: number;
+    inflationRate?: InflationRate;
+    insurances?: InsurancePolicy[];
+    premiumFrequency?: PremiumFrequency;
+    lifeEvent?: LifeEventScenario;
+    tax?: TaxParams;
+    retirement?: RetirementPlan;
+    portfolio?: PortfolioParams;
+};
+
+export type PremiumFrequency = 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY';
+
+export type AmortizationSystem = 'SAC' | 'PRICE';
+
+/**
+ * Parcela do cronograma de um empréstimo: `month` é o número da parcela (1 = mês seguinte à contratação)
+ */
+export interface LoanInstallment {
+    month: number;
+    installment: number;
+    interest: number;
+    amortization: number;
+    balance: number;
+};
+
+export interface InsurancePolicy {
+    type: string;
+    coverage: number;
+    premium: number;
+};
+
+/**
+ * Cenário de falecimento ou invalidez do provedor no início do ano informado:
+ * a cobertura correspondente é paga e os eventos INCOME deixam de ocorrer
+ */
+export interface LifeEventScenario {
+    type: 'DEATH' | 'DISABILITY';
+    year: number;
+};
+
+/**
+ * Inflação anual: taxa fixa ou série ano a ano (ex.: IPCA projetado).
+ * Quando a série é menor que o horizonte, o último valor é repetido.
+ */
+export type InflationRate = number | number[];
+
+/**
+ * Regimes de IR sobre os rendimentos:
+ * - REGRESSIVE: tabela regressiva da renda fixa, cobrada no resgate
+ * - COME_COTAS: fundos com antecipação semestral (maio e novembro) e complemento no resgate
+ * - EXEMPT: isentos (ex.: LCI, LCA, CRI, CRA, poupança, debêntures incentivadas)
+ * - CAPITAL_GAINS: ganho de capital em renda variável (ex.: ações), cobrado no resgate
+ * - REAL_ESTATE_FUND: ganho de capital em fundos imobiliários, cobrado no resgate
+ */
+export type TaxRegime = 'REGRESSIVE' | 'COME_COTAS' | 'EXEMPT' | 'CAPITAL_GAINS' | 'REAL_ESTATE_FUND';
+
+export interface TaxAllocation {
+    regime: TaxRegime;
+    weight: number;
+};
+
+/**
+ * Tributação da projeção: a carteira é dividida entre os regimes na proporção dos pesos
+ * (aportes seguem os mesmos pesos). O valor inicial entra como custo de aquisição
+ */
+export interface TaxParams {
+    allocations: TaxAllocation[];
+    initialHoldingMonths?: number;
+};
+
+/**
+ * Estratégias de retirada na aposentadoria:
+ * - FIXED_REAL: renda desejada constante em moeda de hoje (corrigida pela inflação)
+ * - PERCENTAGE: percentual do patrimônio, recalculado no início de cada ano
+ * - GUARDRAILS: renda desejada corrigida pela inflação, com corte ou aumento quando
+ *   a taxa de retirada sai da faixa em torno da taxa inicial (Guyton-Klinger)
+ */
+export type WithdrawalStrategy = 'FIXED_REAL' | 'PERCENTAGE' | 'GUARDRAILS';
+
+export interface GuardrailsConfig {
+    upperLimit: number;
+    lowerLimit: number;
+    adjustment: number;
+};
+
+/**
+ * Fase de usufruto: a partir da idade de aposentadoria cessam a renda (INCOME) e os aportes
+ * (INVESTMENT), e a família passa a viver das retiradas da carteira (renda mensal em moeda de hoje)
+ */
+export interface RetirementPlan {
+    currentAge: number;
+    retirementAge: number;
+    desiredIncome: number;
+    strategy: WithdrawalStrategy;
+    withdrawalRate?: number;
+    guardrails?: Partial<GuardrailsConfig>;
+    lifeExpectancy?: number;
+};
+
+export interface RetirementAnalysis {
+    strategy: WithdrawalStrategy;
+    retirementAge: number;
+    retirementYear: number;
+    lifeExpectancy: number;
+    desiredIncome: number;
+    portfolioAtRetirement: number;
+    initialMonthlyWithdrawal: number;
+    sustainableWithdrawal: number;
+    depletionAge: number | null;
+    depletionYear: number | null;
+};
+
+/**
+ * Premissas de mercado de uma classe de ativo: retorno esperado e volatilidade anuais
+ */
+export interface CapitalMarketAssumption {
+    assetClass: string;
+    expectedReturn: number;
+    volatility: number;
+};
+
+/**
+ * Correlação entre os retornos de duas classes de ativo
+ */
+export interface AssetClassCorrelation {
+    assetClasses: [string, string];
+    correlation: number;
+};
+
+/**
+ * Premissas de mercado vigentes na organização: sem versão cadastrada, valem os padrões do sistema
+ * (version = null, retorno padrão de 4%, sem inflação e só a tabela padrão por classe de ativo)
+ */
+export interface CapitalMarketAssumptions {
+    version: number | null;
+    defaultReturn: number;
+    inflationRate: number | null;
+    assetClasses: CapitalMarketAssumption[];
+    correlations: AssetClassCorrelation[];
+};
+
+/**
+ * Periodicidade do rebalanceamento da carteira de volta aos pesos-alvo
+ */
+export type RebalanceFrequency = 'NONE' | 'MONTHLY' | 'QUARTERLY' | 'SEMIANNUALLY' | 'ANNUALLY';
+
+/**
+ * Classe de ativo da carteira com peso atual (pelo valor atual) e peso-alvo (pelo percentual planejado)
+ */
+export interface AssetAllocation extends CapitalMarketAssumption {
+    weight: number;
+    targetWeight: number;
+};
+
+/**
+ * Carteira da projeção: cada classe de ativo rende pelas próprias premissas de mercado,
+ * os aportes seguem os pesos-alvo, os resgates saem na proporção do valor de cada classe
+ * e a carteira volta aos pesos-alvo na periodicidade de rebalanceamento
+ */
+export interface PortfolioParams {
+    allocations: AssetAllocation[];
+    rebalanceFrequency: RebalanceFrequency;
+    correlations?: AssetClassCorrelation[];
+};
+
+export interface MonteCarloConfig {
+    expectedReturn: number;
+    volatility: number;
+    seed?: number;
+    simulations?: number;
+    targetValue?: number;
+};
+
+export type MonteCarloParams = Omit<WealthProjectionParams, 'interestRate'> & MonteCarloConfig;
+
+export interface MonteCarloResult {
+    projectionData: ProjectionPoint[];
+    simulations: number;
+    seed: number;
+    targetValue?: number;
+    successProbability?: number;
+};
+
+export interface GoalFeasibilityParams {
+    initialValue: number;
+    interestRate: number;
+    volatility: number;
+    events: Event[];
+    simulations?: number;
+    seed?: number;
+};
+
+export interface GoalFeasibility {
+    goalId: string;
+    type: string;
+    description: string;
+    targetValue: number;
+    targetDate: Date;
+    projectedValue: number;
+    shortfall: number;
+    successProbability: number;
+    requiredMonthlyContribution: number;
+    feasible: boolean;
+};
+
+export interface MonthlyCashFlow {
+    monthlyIncome: number;
+    monthlyExpenses: number;
+    monthlyInvestments: number;
+};
+
+export interface InsuranceNeedsParams {
+    age: number;
+    events: Omit<Event, 'client'>[];
+    goals: Omit<Goal, 'client'>[];
+    wallets: Omit<Wallet, 'client'>[];
+    insurances: Omit<Insurance, 'client'>[];
+    supportYears?: number;
+    retirementAge?: number;
+    referenceDate?: Date;
+};
+
+export interface InsuranceCoverageNeed {
+    type: 'LIFE' | 'DISABILITY';
+    horizonYears: number;
+    recommendedCoverage: number;
+    existingCoverage: number;
+    coverageGap: number;
+};
+
+export interface InsuranceNeedsAnalysis {
+    annualExpenses: number;
+    outstandingDebt: number;
+    educationCosts: number;
+    currentPatrimony: number;
+    needs: InsuranceCoverageNeed[];
+};
+
+export interface ScenarioEventChanges {
+    type?: Event['type'];
+    description?: string;
+    value?: number;
+    frequency?: Event['frequency'];
+    inflationIndexed?: boolean;
+    startDate?: Date;
+    endDate?: Date | null;
+    interestRate?: number;
+    termMonths?: number;
+    amortizationSystem?: AmortizationSystem;
+};
+
+/**
+ * Alterações nos eventos do cliente válidas apenas para o cenário
+ */
+export interface ScenarioEventOverrides {
+    remove?: string[];
+    update?: (ScenarioEventChanges & { id: string })[];
+    add?: (ScenarioEventChanges & Pick<Event, 'type' | 'frequency' | 'startDate'> & { value: number })[];
+};
+
+export interface ScenarioParameters {
+    initialValue: number;
+    interestRate: number;
+    projectionYears: number;
+    inflationRate: InflationRate | null;
+    premiumFrequency: PremiumFrequency | null;
+    lifeEvent: LifeEventScenario | null;
+    monteCarlo: MonteCarloConfig | null;
+    tax: TaxParams | null;
+    retirement: RetirementPlan | null;
+    portfolio: PortfolioParams | null;
+    assumptionsVersion: number | null;
+    eventsCount: number;
+};
+
+export interface ScenarioProjection {
+    name: string;
+    simulationId: string | null;
+    parameters: ScenarioParameters;
+    projectionData: ProjectionPoint[];
+};
+
+export interface PortfolioMetrics {
+    finalValue: number;
+    totalGain: number;
+    totalGainPercent: number;
+    cagr: number;
+    projectionYears: number;
+};
+
+/**
+ * Ponto da curva alinhada pelos anos de todos os cenários (null quando o cenário não cobre o ano)
+ */
+export interface ComparisonPoint {
+    year: number;
+    projectedValue: number | null;
+    realValue: number | null;
+};
+
+export interface ComparedProjection extends Omit<ScenarioProjection, 'projectionData'> {
+    metrics: PortfolioMetrics | null;
+    projectionData: ComparisonPoint[];
+};
+
+export interface ComparedScenario extends ComparedProjection {
+    metricsDelta: PortfolioMetrics | null;
+    deltas: ComparisonPoint[];
+};
+
+export interface ScenarioComparison {
+    years: number[];
+    base: ComparedProjection;
+    scenarios: ComparedScenario[];
+};
+
+export interface SnapshotEvent {
+    id: string;
+    type: Event['type'];
+    description: string | null;
+    value: number;
+    frequency: Event['frequency'];
+    inflationIndexed: boolean;
+    startDate: string;
+    endDate: string | null;
+    interestRate: number | null;
+    termMonths: number | null;
+    amortizationSystem: AmortizationSystem | null;
+};
+
+export interface SnapshotInsurance {
+    id: string;
+    type: Insurance['type'];
+    description: string | null;
+    coverage: number;
+    premium: number;
+};
+
+/**
+ * Entradas usadas no cálculo de uma simulação, congeladas no momento do cálculo
+ */
+export interface SimulationSnapshot {
+    capturedAt: string;
+    parameters: Omit<ScenarioParameters, 'eventsCount'>;
+    events: SnapshotEvent[];
+    insurances: SnapshotInsurance[];
+};
+
+export interface SnapshotFieldChange {
+    field: string;
+    previous: unknown;
+    current: unknown;
+};
+
+export interface SnapshotRecordChange {
+    id: string;
+    description: string | null;
+    changes: SnapshotFieldChange[];
+};
+
+export interface SnapshotRecordDiff<T> {
+    added: T[];
+    removed: T[];
+    changed: SnapshotRecordChange[];
+};
+
+export interface SnapshotDiff {
+    engineVersion: { previous: string | null; current: string } | null;
+    events: SnapshotRecordDiff<SnapshotEvent>;
+    insurances: SnapshotRecordDiff<SnapshotInsurance>;
 };
 
 export interface AlignmentData {
@@ -92,7 +471,7 @@ export enum AlignmentCategory {
 }
 
 export interface AutoSuggestion {
-    type: 'INCREASE_CONTRIBUTION' | 'ADJUST_ALLOCATION' | 'REDUCE_EXPENSES';
+    type: 'CONGRATULATIONS' | 'INCREASE_CONTRIBUTION' | 'ADJUST_ALLOCATION' | 'REDUCE_EXPENSES';
     description: string;
     suggestedValue?: number;
     suggestedPeriod?: number;
@@ -100,16 +479,22 @@ export interface AutoSuggestion {
 
 export interface AuthPayload {
     userId: string;
+    organizationId: string;
+    sessionId: string;
     email: string;
     role: string;
+    mfa: boolean;
+    mfaRequired: boolean;
 }
 
 export interface LoginRequest {
+    organizationSlug: string;
     email: string;
     password: string;
 }
 
 export interface RegisterRequest {
+    organizationSlug: string;
     email: string;
     password: string;
     role?: 'ADVISOR' | 'VIEWER';
@@ -134,6 +519,16 @@ export interface AuthResponse {
     expiresIn: string;
 }
 
+export interface MailMessage {
+    to: string;
+    subject: string;
+    body: string;
+}
+
+export interface MailTransport {
+    send(message: MailMessage): Promise<void>;
+}
+
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
     pagination: {
         page: number;
@@ -171,3 +566,18 @@ export interface CSVImportProgress {
     percentage: number;
 }
 
+export type ImportType = 'clients' | 'events' | 'wallets';
+
+export type ImportStatus = 'processing' | 'completed' | 'failed';
+
+export interface ImportSummary {
+    id: string;
+    type: ImportType;
+    atomic: boolean;
+    status: ImportStatus;
+    progress: CSVImportProgress;
+    imported: number;
+    createdAt: Date;
+    finishedAt: Date | null;
+}
+
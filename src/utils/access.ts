@@ -0,0 +1,30 @@
+import { FastifyRequest } from 'fastify';
+import { Prisma } from '@prisma/client';
+import { AuthPayload } from '../types';
+import { ADMIN_ROLE } from '../middleware/auth';
+
+/**
+ * Filtro Prisma que restringe clientes à organização do usuário autenticado
+ */
+export function organizationScope(request: FastifyRequest): { organizationId: string } {
+  const user = request.user as AuthPayload;
+
+  return { organizationId: user.organizationId };
+}
+
+/**
+ * Filtro Prisma que restringe clientes à carteira do usuário autenticado
+ * Administradores enxergam todos os clientes da organização; demais usuários apenas os atribuídos a eles
+ */
+export function clientScope(request: FastifyRequest): Prisma.ClientWhereInput {
+  const user = request.user as AuthPayload;
+
+  if (user.role === ADMIN_ROLE) {
+    return organizationScope(request);
+  }
+
+  return {
+    ...organizationScope(request),
+    advisors: { some: { userId: user.userId } }
+  };
+}
@@ -0,0 +1,142 @@
+export type CsvRow = Record<string, string>;
+
+/**
+ * Detecta o separador pelo cabeçalho: planilhas em pt-BR costumam exportar com ";"
+ */
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const semicolons = header.split(';').length;
+  const commas = header.split(',').length;
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Converte o texto CSV em matriz de campos (RFC 4180: aspas, aspas escapadas e quebras de linha dentro de campos)
+ */
+export function parseCsvRecords(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Linhas em branco não representam registros
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Converte o CSV em objetos indexados pelo cabeçalho (primeira linha)
+ */
+export function parseCsv(text: string): { headers: string[]; rows: CsvRow[] } {
+  const [headerRecord = [], ...records] = parseCsvRecords(text);
+  const headers = headerRecord.map(header => header.trim());
+
+  const rows = records.map(fields =>
+    headers.reduce<CsvRow>((row, header, index) => {
+      row[header] = (fields[index] ?? '').trim();
+      return row;
+    }, {})
+  );
+
+  return { headers, rows };
+}
+
+/**
+ * Aceita "1234.56", "1234,56" e "1.234,56"; devolve o texto original se não for numérico
+ * Pontos só são separadores de milhar quando seguidos de decimais com vírgula ou quando há mais de um
+ * ("1.234.567"); um ponto isolado é sempre decimal, para que "0.065" e "1.500" não virem 65 e 1500
+ */
+export function parseCsvNumber(value: string): number | string {
+  const normalized = /^-?[1-9]\d{0,2}((\.\d{3})+,\d+|(\.\d{3}){2,})$/.test(value)
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(',', '.');
+
+  const parsed = Number(normalized);
+  return normalized.trim() !== '' && Number.isFinite(parsed) ? parsed : value;
+}
+
+/**
+ * Aceita true/false, sim/não e 1/0; devolve o texto original nos demais casos
+ */
+export function parseCsvBoolean(value: string): boolean | string {
+  const normalized = value.toLowerCase();
+
+  if (['true', 'sim', 's', '1'].includes(normalized)) return true;
+  if (['false', 'não', 'nao', 'n', '0'].includes(normalized)) return false;
+  return value;
+}
+
+/**
+ * Converte datas "AAAA-MM-DD" e "DD/MM/AAAA" para ISO 8601 (UTC); datas ISO completas passam inalteradas
+ */
+export function parseCsvDate(value: string): string {
+  const brazilian = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (brazilian) {
+    const [, day, month, year] = brazilian;
+    return `${year}-${month}-${day}T00:00:00.000Z`;
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return `${value}T00:00:00.000Z`;
+  }
+
+  return value;
+}
+
+/**
+ * Neutraliza textos que o Excel ou o Google Sheets interpretariam como fórmula
+ * (iniciados por =, +, -, @, tabulação ou CR), prefixando-os com apóstrofo
+ * Aplicar apenas a campos de texto: números formatados como "-1.234,56" não passam por aqui
+ */
+export function escapeCsvFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Serializa registros em CSV (RFC 4180): campos com separador, aspas ou quebras de linha ficam entre aspas
+ */
+export function formatCsvRecords(records: string[][], delimiter = ','): string {
+  const escape = (value: string) =>
+    value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+  return records.map(fields => fields.map(escape).join(delimiter)).join('\r\n') + '\r\n';
+}
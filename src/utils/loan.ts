@@ -0,0 +1,88 @@
+import { AmortizationSystem, Event, LoanInstallment } from '../types';
+
+type LoanEvent = Pick<Event, 'type' | 'value' | 'startDate' | 'interestRate' | 'termMonths' | 'amortizationSystem'>;
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function monthsBetween(startDate: Date, targetDate: Date): number {
+  return (targetDate.getFullYear() - startDate.getFullYear()) * 12 + targetDate.getMonth() - startDate.getMonth();
+}
+
+/**
+ * Empréstimo com cronograma de amortização (taxa, prazo e sistema informados);
+ * os demais empréstimos seguem como saída fixa de value na frequência do evento
+ */
+export function isAmortizedLoan(event: Pick<Event, 'type' | 'interestRate' | 'termMonths' | 'amortizationSystem'>): boolean {
+  return event.type === 'LOAN' && event.amortizationSystem != null && event.termMonths != null && event.interestRate != null;
+}
+
+/**
+ * Cronograma de parcelas mensais de um empréstimo pelo sistema SAC (amortização constante)
+ * ou Price (parcela constante), com juros pela taxa mensal equivalente à taxa anual
+ * As parcelas começam no mês seguinte à contratação e a última quita o saldo de arredondamento
+ */
+export class LoanSchedule {
+  readonly installments: LoanInstallment[] = [];
+
+  constructor(
+    readonly principal: number,
+    annualRate: number,
+    termMonths: number,
+    system: AmortizationSystem,
+    private readonly startDate: Date
+  ) {
+    const monthlyRate = Math.pow(1 + annualRate, 1 / 12) - 1;
+    const constantInstallment = monthlyRate === 0
+      ? principal / termMonths
+      : principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -termMonths));
+    let balance = principal;
+
+    for (let month = 1; month <= termMonths; month++) {
+      const interest = roundCents(balance * monthlyRate);
+      const amortization = month === termMonths
+        ? balance
+        : roundCents(system === 'SAC' ? principal / termMonths : constantInstallment - interest);
+
+      balance = roundCents(balance - amortization);
+      this.installments.push({ month, installment: roundCents(interest + amortization), interest, amortization, balance });
+    }
+  }
+
+  static fromEvent(event: LoanEvent): LoanSchedule {
+    return new LoanSchedule(
+      Number(event.value),
+      Number(event.interestRate),
+      event.termMonths!,
+      event.amortizationSystem!,
+      new Date(event.startDate)
+    );
+  }
+
+  /**
+   * Parcela com vencimento no mês da data informada (zero fora do prazo)
+   */
+  installmentAt(date: Date): number {
+    const month = monthsBetween(this.startDate, date);
+    return this.installments[month - 1]?.installment ?? 0;
+  }
+
+  /**
+   * Valor liberado no mês da data informada: o principal no mês da contratação, zero nos demais
+   */
+  disbursementAt(date: Date): number {
+    return monthsBetween(this.startDate, date) === 0 ? this.principal : 0;
+  }
+
+  /**
+   * Saldo devedor após a parcela do mês da data informada (zero antes da contratação)
+   */
+  balanceAt(date: Date): number {
+    const month = monthsBetween(this.startDate, date);
+    if (month < 0) return 0;
+    if (month === 0) return this.principal;
+
+    return this.installments[Math.min(month, this.installments.length) - 1].balance;
+  }
+}
@@ -0,0 +1,295 @@
+import { deflateSync } from 'zlib';
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfStrokeOptions {
+  color?: PdfColor;
+  width?: number;
+  dash?: number[];
+}
+
+export interface PdfMetadata {
+  title?: string;
+  author?: string;
+  creationDate?: Date;
+}
+
+// Larguras (1/1000 do tamanho da fonte) dos caracteres ASCII 32-126, conforme as métricas AFM padrão
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Caracteres da faixa 0x80-0x9F do WinAnsiEncoding (o restante coincide com o Latin-1)
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+const BLACK: PdfColor = [0, 0, 0];
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(channel => formatNumber(channel / 255)).join(' ');
+}
+
+/**
+ * Converte o texto para WinAnsiEncoding (Helvetica padrão) e escapa para string literal PDF
+ * Caracteres fora da codificação viram "?"
+ */
+function encodeText(text: string): string {
+  let encoded = '';
+
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRA[char] ?? ((code >= 32 && code <= 126) || (code >= 0xA0 && code <= 0xFF) ? code : 0x3F);
+
+    if (char === '(' || char === ')' || char === '\\') {
+      encoded += `\\${char}`;
+    } else if (byte > 126) {
+      encoded += `\\${byte.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += String.fromCharCode(byte);
+    }
+  }
+
+  return encoded;
+}
+
+function formatPdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/**
+ * Gerador mínimo de PDF (1.4) com as fontes padrão Helvetica e desenho vetorial
+ * Coordenadas em pontos a partir do canto superior esquerdo da página A4
+ */
+export class PdfDocument {
+  static readonly WIDTH = 595.28;
+  static readonly HEIGHT = 841.89;
+
+  private readonly pages: string[][] = [];
+  private current = -1;
+
+  constructor(private readonly metadata: PdfMetadata = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+    return this;
+  }
+
+  /**
+   * Seleciona a página que recebe os próximos desenhos (base 0), útil para rodapés com o total de páginas
+   */
+  goToPage(index: number): this {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`Página ${index + 1} inexistente`);
+    }
+    this.current = index;
+    return this;
+  }
+
+  /**
+   * Largura do texto em pontos; acentuados usam a largura da letra base
+   */
+  static textWidth(text: string, size: number, bold = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+
+    for (const char of text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')) {
+      const code = char.charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : code === 0xA0 ? widths[0] : 556;
+    }
+
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Quebra o texto em linhas que caibam na largura informada
+   */
+  static wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+
+      if (line && PdfDocument.textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): this {
+    const size = options.size ?? 10;
+    const width = PdfDocument.textWidth(text, size, options.bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    // y indica o topo da linha: a linha de base fica a ~80% do tamanho da fonte
+    const baseline = PdfDocument.HEIGHT - y - size * 0.8;
+
+    this.write(
+      `BT /${options.bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(options.color ?? BLACK)} rg ` +
+      `${formatNumber(left)} ${formatNumber(baseline)} Td (${encodeText(text)}) Tj ET`
+    );
+    return this;
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: { fill?: PdfColor; stroke?: PdfStrokeOptions } = {}): this {
+    const path = `${formatNumber(x)} ${formatNumber(PdfDocument.HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+
+    if (options.fill) {
+      this.write(`${formatColor(options.fill)} rg ${path} f`);
+    }
+    if (options.stroke || !options.fill) {
+      this.write(`${this.strokeState(options.stroke ?? {})} ${path} S`);
+    }
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfStrokeOptions = {}): this {
+    return this.polyline([[x1, y1], [x2, y2]], options);
+  }
+
+  polyline(points: [number, number][], options: PdfStrokeOptions = {}): this {
+    if (points.length < 2) {
+      return this;
+    }
+
+    const path = points
+      .map(([x, y], index) => `${formatNumber(x)} ${formatNumber(PdfDocument.HEIGHT - y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+
+    this.write(`q ${this.strokeState(options)} ${path} S Q`);
+    return this;
+  }
+
+  /**
+   * Preenche o polígono informado (ex.: faixa entre duas curvas)
+   */
+  polygon(points: [number, number][], fill: PdfColor): this {
+    if (points.length < 3) {
+      return this;
+    }
+
+    const path = points
+      .map(([x, y], index) => `${formatNumber(x)} ${formatNumber(PdfDocument.HEIGHT - y)} ${index === 0 ? 'm' : 'l'}`)
+      .join(' ');
+
+    this.write(`${formatColor(fill)} rg ${path} h f`);
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'));
+      return objects.length;
+    };
+
+    const catalogId = add('');
+    const pagesId = add('');
+    const regularFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const infoId = add(
+      '<< /Producer (Wealth Planner)' +
+      (this.metadata.title ? ` /Title (${encodeText(this.metadata.title)})` : '') +
+      (this.metadata.author ? ` /Author (${encodeText(this.metadata.author)})` : '') +
+      ` /CreationDate (${formatPdfDate(this.metadata.creationDate ?? new Date())}) >>`
+    );
+
+    const pageIds = this.pages.map(operations => {
+      const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'));
+      const contentId = add(Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PdfDocument.WIDTH} ${PdfDocument.HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+      'latin1'
+    );
+
+    // O cabeçalho binário indica aos leitores que o arquivo contém bytes fora do ASCII
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n', 'latin1')];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+
+    objects.forEach((body, index) => {
+      offsets.push(length);
+      const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF'
+    ].join('\n');
+
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+
+  private write(operation: string) {
+    if (this.current < 0) {
+      this.addPage();
+    }
+    this.pages[this.current].push(operation);
+  }
+
+  private strokeState(options: PdfStrokeOptions): string {
+    return `${formatColor(options.color ?? BLACK)} RG ${formatNumber(options.width ?? 1)} w [${(options.dash ?? []).join(' ')}] 0 d`;
+  }
+}
@@ -0,0 +1,146 @@
+import { AssetAllocation, AssetClassCorrelation, PortfolioParams, RebalanceFrequency } from '../types';
+
+const REBALANCE_INTERVAL_MONTHS: Record<RebalanceFrequency, number | null> = {
+  NONE: null,
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  SEMIANNUALLY: 6,
+  ANNUALLY: 12
+};
+
+// Tolerância numérica da fatoração de Cholesky
+const CHOLESKY_TOLERANCE = 1e-10;
+
+interface PortfolioSleeve {
+  allocation: AssetAllocation;
+  value: number;
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+/**
+ * Compara nomes de classes de ativo sem diferenciar acentos, maiúsculas e espaços nas pontas
+ */
+export function sameAssetClass(a: string, b: string): boolean {
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Matriz de correlação entre as classes de ativo informadas; pares sem correlação cadastrada
+ * são considerados independentes
+ */
+export function correlationMatrix(assetClasses: string[], correlations: AssetClassCorrelation[] = []): number[][] {
+  return assetClasses.map((row, i) => assetClasses.map((column, j) => {
+    if (i === j) return 1;
+
+    const pair = correlations.find(({ assetClasses: [a, b] }) =>
+      (sameAssetClass(a, row) && sameAssetClass(b, column)) || (sameAssetClass(a, column) && sameAssetClass(b, row))
+    );
+    return pair?.correlation ?? 0;
+  }));
+}
+
+/**
+ * Fatoração de Cholesky (L, com L·Lᵀ = matriz) de uma matriz de correlação
+ * Retorna null quando a matriz não é positiva semidefinida
+ */
+export function cholesky(matrix: number[][]): number[][] | null {
+  const size = matrix.length;
+  const lower: number[][] = Array.from({ length: size }, () => new Array(size).fill(0));
+
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column <= row; column++) {
+      let sum = matrix[row][column];
+      for (let k = 0; k < column; k++) {
+        sum -= lower[row][k] * lower[column][k];
+      }
+
+      if (row === column) {
+        if (sum < -CHOLESKY_TOLERANCE) return null;
+        lower[row][row] = Math.sqrt(Math.max(0, sum));
+      }
+      else if (lower[column][column] > 0) {
+        lower[row][column] = sum / lower[column][column];
+      }
+      else if (Math.abs(sum) > CHOLESKY_TOLERANCE) {
+        return null;
+      }
+    }
+  }
+
+  return lower;
+}
+
+/**
+ * Acompanha o valor de cada classe de ativo ao longo de uma trajetória da projeção
+ * Os pesos derivam com os retornos de cada classe até o próximo rebalanceamento
+ */
+export class PortfolioTracker {
+  private readonly sleeves: PortfolioSleeve[];
+  private readonly rebalanceInterval: number | null;
+
+  constructor(initialValue: number, portfolio: PortfolioParams) {
+    const totalWeight = portfolio.allocations.reduce((sum, allocation) => sum + allocation.weight, 0);
+
+    this.sleeves = portfolio.allocations.map(allocation => ({
+      allocation,
+      value: totalWeight > 0 ? initialValue * (allocation.weight / totalWeight) : 0
+    }));
+    this.rebalanceInterval = REBALANCE_INTERVAL_MONTHS[portfolio.rebalanceFrequency];
+  }
+
+  get value(): number {
+    return this.sleeves.reduce((sum, sleeve) => sum + sleeve.value, 0);
+  }
+
+  /**
+   * Aplica o fator de crescimento do mês de cada classe (na ordem da alocação)
+   * e retorna o fator da carteira
+   */
+  grow(factorFor: (allocation: AssetAllocation, index: number) => number): number {
+    const before = this.value;
+
+    this.sleeves.forEach((sleeve, index) => {
+      sleeve.value *= factorFor(sleeve.allocation, index);
+    });
+
+    return before > 0 ? this.value / before : 1;
+  }
+
+  /**
+   * Encerra o mês conciliando com o patrimônio após as movimentações: entradas seguem os
+   * pesos-alvo e saídas reduzem as classes na proporção do valor; rebalanceia ao fim de cada período
+   */
+  settle(portfolioValue: number, monthIndex: number) {
+    const difference = portfolioValue - this.value;
+
+    if (difference > 0) {
+      const totalTarget = this.sleeves.reduce((sum, sleeve) => sum + sleeve.allocation.targetWeight, 0);
+      for (const sleeve of this.sleeves) {
+        sleeve.value += difference * (totalTarget > 0 ? sleeve.allocation.targetWeight / totalTarget : 1 / this.sleeves.length);
+      }
+    }
+    else if (difference < 0) {
+      const fraction = portfolioValue / this.value;
+      for (const sleeve of this.sleeves) {
+        sleeve.value *= fraction;
+      }
+    }
+
+    if (this.rebalanceInterval && (monthIndex + 1) % this.rebalanceInterval === 0) {
+      this.rebalance();
+    }
+  }
+
+  private rebalance() {
+    const total = this.value;
+    const totalTarget = this.sleeves.reduce((sum, sleeve) => sum + sleeve.allocation.targetWeight, 0);
+    if (totalTarget <= 0) return;
+
+    for (const sleeve of this.sleeves) {
+      sleeve.value = total * (sleeve.allocation.targetWeight / totalTarget);
+    }
+  }
+}
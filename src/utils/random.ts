@@ -0,0 +1,46 @@
+/**
+ * Gerador pseudoaleatório determinístico (mulberry32)
+ * Permite reproduzir simulações estocásticas a partir de uma semente
+ */
+export class SeededRandom {
+  private state: number;
+  private spareGaussian: number | null = null;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Retorna um número uniforme no intervalo [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Retorna uma amostra da normal padrão (Box-Muller)
+   */
+  nextGaussian(): number {
+    if (this.spareGaussian !== null) {
+      const spare = this.spareGaussian;
+      this.spareGaussian = null;
+      return spare;
+    }
+
+    let u = 0;
+    while (u === 0) u = this.next();
+    const v = this.next();
+
+    const radius = Math.sqrt(-2 * Math.log(u));
+    this.spareGaussian = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  }
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Gera um token opaco aleatório (base64url)
+ */
+export function generateToken(bytes = 48): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Hash SHA-256 usado para persistir tokens sem guardá-los em claro
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
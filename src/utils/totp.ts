@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const normalized = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Caractere base32 inválido: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Gera um segredo TOTP aleatório (160 bits, codificado em base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Código TOTP (RFC 6238, HMAC-SHA1) para o instante informado
+ */
+export function generateTotp(secret: string, timestamp = Date.now(), digits = TOTP_DIGITS): string {
+  const counter = Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+
+  // Truncamento dinâmico (RFC 4226, seção 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Passo de tempo (contador TOTP) em que o código é válido, aceitando uma janela de passos
+ * adjacentes para tolerar desvio de relógio; null se o código não confere
+ */
+export function matchTotpStep(secret: string, code: string, timestamp = Date.now(), window = 1): number | null {
+  if (code.length !== TOTP_DIGITS || !/^\d+$/.test(code)) {
+    return null;
+  }
+
+  const currentStep = Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+
+  for (let step = -window; step <= window; step++) {
+    const expected = generateTotp(secret, timestamp + step * TOTP_STEP_SECONDS * 1000);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return currentStep + step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Valida um código TOTP aceitando uma janela de passos adjacentes para tolerar desvio de relógio
+ */
+export function verifyTotp(secret: string, code: string, timestamp = Date.now(), window = 1): boolean {
+  return matchTotpStep(secret, code, timestamp, window) !== null;
+}
+
+/**
+ * URI otpauth:// para cadastro em aplicativos autenticadores (QR code)
+ */
+export function buildOtpauthUrl(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
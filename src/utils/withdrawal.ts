@@ -0,0 +1,74 @@
+import { GuardrailsConfig, RetirementPlan } from '../types';
+
+export const DEFAULT_WITHDRAWAL_RATE = 0.04;
+export const DEFAULT_GUARDRAILS: GuardrailsConfig = { upperLimit: 0.2, lowerLimit: 0.2, adjustment: 0.1 };
+
+/**
+ * Retiradas de uma trajetória da projeção na fase de usufruto
+ * O valor anual é definido no início de cada ano de aposentadoria, conforme a estratégia,
+ * e retirado em parcelas mensais
+ */
+export class WithdrawalPlan {
+  readonly retirementYear: number;
+  private annualWithdrawal = 0;
+  private initialRate: number | null = null;
+  private lastPriceIndex = 1;
+
+  constructor(private readonly plan: RetirementPlan, currentYear: number) {
+    this.retirementYear = currentYear + plan.retirementAge - plan.currentAge;
+  }
+
+  isRetired(year: number): boolean {
+    return year >= this.retirementYear;
+  }
+
+  monthlyWithdrawal(year: number, month: number, portfolioValue: number, priceIndex: number): number {
+    if (!this.isRetired(year)) return 0;
+
+    if (month === 0) {
+      this.startYear(portfolioValue, priceIndex);
+    }
+
+    return this.annualWithdrawal / 12;
+  }
+
+  private startYear(portfolioValue: number, priceIndex: number) {
+    const { plan } = this;
+    const desiredAnnualIncome = plan.desiredIncome * 12 * priceIndex;
+
+    switch (plan.strategy) {
+      case 'FIXED_REAL':
+        this.annualWithdrawal = desiredAnnualIncome;
+        break;
+
+      case 'PERCENTAGE':
+        this.annualWithdrawal = Math.max(0, portfolioValue) * (plan.withdrawalRate ?? DEFAULT_WITHDRAWAL_RATE);
+        break;
+
+      case 'GUARDRAILS': {
+        const { upperLimit, lowerLimit, adjustment } = { ...DEFAULT_GUARDRAILS, ...plan.guardrails };
+
+        if (this.initialRate === null) {
+          this.annualWithdrawal = desiredAnnualIncome;
+          this.initialRate = portfolioValue > 0 ? desiredAnnualIncome / portfolioValue : Infinity;
+          break;
+        }
+
+        this.annualWithdrawal *= priceIndex / this.lastPriceIndex;
+
+        if (portfolioValue > 0) {
+          const currentRate = this.annualWithdrawal / portfolioValue;
+          if (currentRate > this.initialRate * (1 + upperLimit)) {
+            this.annualWithdrawal *= 1 - adjustment;
+          }
+          else if (currentRate < this.initialRate * (1 - lowerLimit)) {
+            this.annualWithdrawal *= 1 + adjustment;
+          }
+        }
+        break;
+      }
+    }
+
+    this.lastPriceIndex = priceIndex;
+  }
+}